@@ -16,11 +16,13 @@ import {
   ConnectButton,
   useCurrentAccount,
   useSignTransaction,
+  useSuiClient,
 } from "@mysten/dapp-kit";
 import { useAccount, useConnect, useDisconnect, useWalletClient } from "wagmi";
 import { x402Client, wrapFetchWithPayment } from "@x402/fetch";
 import { registerExactSuiScheme } from "@x402/sui/exact/client";
 import { registerExactEvmScheme } from "@x402/evm/exact/client";
+import { fetchEpochInfo } from "@x402/sui";
 import type { ClientSuiSigner } from "@x402/sui";
 
 // ─── Configuration ───────────────────────────────────────────────────────────
@@ -37,6 +39,7 @@ export default function App() {
   // Sui wallet state (via dapp-kit)
   const suiAccount = useCurrentAccount();
   const { mutateAsync: signSuiTransaction } = useSignTransaction();
+  const suiClient = useSuiClient();
 
   // EVM wallet state (via wagmi)
   const { address: evmAddress, isConnected: evmConnected } = useAccount();
@@ -69,8 +72,26 @@ export default function App() {
             });
             return { signature, bytes };
           },
+          // Lets the scheme set an epoch expiration bounded by maxTimeoutSeconds
+          getEpochInfo: () => fetchEpochInfo(suiClient),
+          // Let the scheme dry-run payments and check balances before the wallet popup
+          dryRunTransaction: async (tx) => {
+            const txBytes = await tx.build({ client: suiClient });
+            return suiClient.dryRunTransactionBlock({ transactionBlock: txBytes });
+          },
+          getBalance: async (coinType) => {
+            const { totalBalance } = await suiClient.getBalance({
+              owner: suiAccount.address,
+              coinType,
+            });
+            return BigInt(totalBalance);
+          },
         };
-        registerExactSuiScheme(client, { signer: suiSigner });
+        registerExactSuiScheme(client, {
+          signer: suiSigner,
+          // Never open the wallet for a payment that was not checked
+          schemeOptions: { requirePreflight: true },
+        });
       }
 
       // Register EVM scheme if EVM wallet is connected
@@ -98,7 +119,7 @@ export default function App() {
     } finally {
       setLoading(false);
     }
-  }, [suiAccount, evmConnected, evmWalletClient, signSuiTransaction]);
+  }, [suiAccount, evmConnected, evmWalletClient, signSuiTransaction, suiClient]);
 
   // ─── Render ─────────────────────────────────────────────────────────────
 
@@ -5,6 +5,8 @@
  * When a client requests a protected route without payment, the server returns
  * HTTP 402 with payment requirements. The client signs a Sui transaction and
  * retries. The server verifies + settles via the facilitator, then returns data.
+ * With LOCAL_FACILITATOR=true it verifies + settles in-process instead, so no
+ * separate facilitator service is needed.
  *
  * COINBASE PR NOTE: For the monorepo, update examples/typescript/servers/hono/
  * to add Sui as an additional payment option in the route config, and register
@@ -19,12 +21,15 @@ import { Hono } from "hono";
 import { serve } from "@hono/node-server";
 import { paymentMiddleware, x402ResourceServer } from "@x402/hono";
 import { ExactSuiScheme } from "@x402/sui/exact/server";
+import { LocalSuiFacilitatorClient } from "@x402/sui/exact/facilitator";
+import { toFacilitatorSuiSigner } from "@x402/sui";
 import { HTTPFacilitatorClient } from "@x402/core/server";
 
 // ─── Configuration ───────────────────────────────────────────────────────────
 
 const PORT = parseInt(process.env.PORT || "4021");
 const FACILITATOR_URL = process.env.FACILITATOR_URL || "http://localhost:4022";
+const LOCAL_FACILITATOR = process.env.LOCAL_FACILITATOR === "true";
 const PAY_TO = process.env.SUI_PAY_TO_ADDRESS;
 const NETWORK = (process.env.SUI_NETWORK || "sui:testnet") as `${string}:${string}`;
 
@@ -36,7 +41,9 @@ if (!PAY_TO) {
 
 // ─── App ─────────────────────────────────────────────────────────────────────
 
-const facilitatorClient = new HTTPFacilitatorClient({ url: FACILITATOR_URL });
+const facilitatorClient = LOCAL_FACILITATOR
+  ? new LocalSuiFacilitatorClient({ signer: toFacilitatorSuiSigner(), networks: NETWORK })
+  : new HTTPFacilitatorClient({ url: FACILITATOR_URL });
 
 const app = new Hono();
 
@@ -88,5 +95,5 @@ serve({ fetch: app.fetch, port: PORT }, (info) => {
   console.log(`  Protected: GET /weather ($0.001 USDC on ${NETWORK})`);
   console.log(`  Free:      GET /health`);
   console.log(`  Pay to:    ${PAY_TO}`);
-  console.log(`  Facilitator: ${FACILITATOR_URL}`);
+  console.log(`  Facilitator: ${LOCAL_FACILITATOR ? "in-process" : FACILITATOR_URL}`);
 });
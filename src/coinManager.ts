@@ -0,0 +1,398 @@
+import type { SuiClient } from "@mysten/sui/client";
+import { Transaction, coinWithBalance } from "@mysten/sui/transactions";
+import type { ObjectRef } from "@mysten/sui/transactions";
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+import type { PaymentRequirements } from "@x402/core/types";
+import { SUI_COIN_TYPE } from "./constants";
+import type { ClientSuiSigner } from "./signer";
+import type { SuiOfflinePayment } from "./types";
+import { fetchEpochInfo } from "./utils";
+
+/**
+ * Configuration for a SuiCoinManager
+ */
+export interface SuiCoinManagerOptions {
+  /**
+   * Gas budget per payment in MIST (default 10,000,000 — 0.01 SUI)
+   */
+  gasBudget?: bigint | number;
+
+  /**
+   * Gas price in MIST (defaults to the node's reference gas price, fetched once)
+   */
+  gasPrice?: bigint | number;
+}
+
+/**
+ * Coins set aside for one in-flight payment
+ */
+export type SuiCoinReservation = {
+  /**
+   * Reservation id, usable with release() until a transaction is bound
+   */
+  id: string;
+
+  /**
+   * The reserved coins and gas data, for the offline payment builder
+   */
+  payment: SuiOfflinePayment;
+
+  /**
+   * When the reservation lapses on its own unless a transaction was bound to it
+   * (Unix milliseconds)
+   */
+  expiresAt: number;
+};
+
+type OwnedCoin = {
+  ref: ObjectRef;
+  coinType: string;
+  balance: bigint;
+};
+
+type Reservation = {
+  coinIds: string[];
+  expiresAt: number;
+  digest?: string;
+  expirationEpoch?: number;
+};
+
+/**
+ * Default gas budget reserved per payment, in MIST
+ */
+const DEFAULT_GAS_BUDGET = 10_000_000n;
+
+/**
+ * Tracks a payer's coin objects and reserves disjoint coins for each in-flight payment,
+ * so concurrent payments never spend the same coin or gas object (which would leave all
+ * but one failing at settlement with object-lock errors).
+ *
+ * Reservations are released explicitly with release(), or — once coins run short — when
+ * their transaction is found on-chain or its expiration epoch has passed, so it can no longer
+ * execute. A reservation no transaction was bound to lapses after the payment's
+ * maxTimeoutSeconds. Released coins are re-read from the node, since settling changes their
+ * versions. Pass the manager to the client ExactSuiScheme as `coinManager`.
+ */
+export class SuiCoinManager {
+  private readonly owner: string;
+  private readonly coins = new Map<string, OwnedCoin>();
+  private readonly reservations = new Map<string, Reservation>();
+  private readonly loaded = new Map<string, Promise<void>>();
+  private gasPrice?: Promise<bigint>;
+  private nextReservationId = 0;
+
+  /**
+   * Creates a new SuiCoinManager.
+   *
+   * @param client - SuiClient to list coins and look up transactions with
+   * @param owner - The paying address whose coins are managed
+   * @param options - Optional gas budget and price
+   */
+  constructor(
+    private readonly client: SuiClient,
+    owner: string,
+    private readonly options: SuiCoinManagerOptions = {},
+  ) {
+    this.owner = normalizeSuiAddress(owner);
+  }
+
+  /**
+   * Reserve coins for a payment: a SUI gas coin covering the budget (plus the amount for
+   * SUI payments) and, for other assets, coins covering the amount. Smallest sufficient
+   * coins are preferred, keeping large coins free for large payments.
+   *
+   * @param paymentRequirements - The payment to reserve coins for
+   * @returns The reservation, with coins and gas data for the offline builder
+   * @throws Error if the unreserved coins cannot cover the payment
+   */
+  async reserve(paymentRequirements: PaymentRequirements): Promise<SuiCoinReservation> {
+    this.releaseExpired();
+    const coinType = normalizeStructTag(paymentRequirements.asset);
+    const amount = BigInt(paymentRequirements.amount);
+    const gasBudget = BigInt(this.options.gasBudget ?? DEFAULT_GAS_BUDGET);
+    const gasPrice = await this.getGasPrice();
+
+    await this.load(coinType);
+    let selection = this.select(coinType, amount, gasBudget);
+    if (!selection) {
+      // Coins may be tied up in payments that have since settled
+      await this.releaseSettled();
+      await this.load(coinType);
+      selection = this.select(coinType, amount, gasBudget);
+    }
+    if (!selection) {
+      throw new Error(
+        `Not enough unreserved coins to pay ${amount} ${coinType} plus ${gasBudget} MIST gas`,
+      );
+    }
+
+    // Selection and reservation happen synchronously, so concurrent reserves cannot overlap
+    const id = String(++this.nextReservationId);
+    const expiresAt = Date.now() + paymentRequirements.maxTimeoutSeconds * 1000;
+    this.reservations.set(id, {
+      coinIds: [...selection.gas, ...selection.coins].map(coin => coin.ref.objectId),
+      expiresAt,
+    });
+
+    return {
+      id,
+      expiresAt,
+      payment: {
+        coins: selection.coins.map(coin => coin.ref),
+        gasPayment: selection.gas.map(coin => coin.ref),
+        gasPrice,
+        gasBudget,
+      },
+    };
+  }
+
+  /**
+   * Record the transaction a reservation's coins were signed into, so the reservation can
+   * be released by digest and detected once it lands on-chain or expires. From then on the
+   * reservation no longer lapses by time: the transaction may execute until its expiration
+   * epoch has passed.
+   *
+   * @param reservationId - The reservation id
+   * @param digest - The signed transaction's digest
+   * @param expirationEpoch - The transaction's expiration epoch (omit if it never expires)
+   */
+  bindTransaction(reservationId: string, digest: string, expirationEpoch?: number): void {
+    const reservation = this.reservations.get(reservationId);
+    if (reservation) Object.assign(reservation, { digest, expirationEpoch });
+  }
+
+  /**
+   * Release a reservation, e.g. once its payment settled or was abandoned.
+   * The coins are re-read from the node before their next use.
+   *
+   * @param idOrDigest - The reservation id, or the digest bound to it
+   * @returns true if a reservation was released
+   */
+  release(idOrDigest: string): boolean {
+    for (const [id, reservation] of this.reservations) {
+      if (id === idOrDigest || reservation.digest === idOrDigest) {
+        this.drop(id);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Split coins into a pool of equal coins ahead of time, so parallel payments each find
+   * their own. Run before issuing payments: the split spends coins the manager would hand out.
+   *
+   * @param signer - Signer for the managed address
+   * @param count - Number of coins to create
+   * @param amount - Balance of each coin
+   * @param coinType - Coin type to split (default SUI, which also yields gas coins)
+   * @returns The split transaction's digest
+   */
+  async preparePool(
+    signer: ClientSuiSigner,
+    count: number,
+    amount: bigint | number,
+    coinType = SUI_COIN_TYPE,
+  ): Promise<string> {
+    if (normalizeSuiAddress(signer.address) !== this.owner) {
+      throw new Error(`Signer ${signer.address} does not own the managed coins of ${this.owner}`);
+    }
+
+    const tx = new Transaction();
+    tx.setSender(this.owner);
+    const coins = Array.from({ length: count }, () =>
+      coinWithBalance({ type: coinType, balance: BigInt(amount) }),
+    );
+    tx.transferObjects(coins, this.owner);
+
+    const { bytes, signature } = await signer.signTransaction(tx);
+    const result = await this.client.executeTransactionBlock({
+      transactionBlock: bytes,
+      signature,
+      options: { showEffects: true },
+    });
+    if (result.effects?.status?.status !== "success") {
+      throw new Error(
+        `Coin pool split failed: ${result.effects?.status?.error || "unknown error"}`,
+      );
+    }
+    await this.client.waitForTransaction({ digest: result.digest });
+
+    this.loaded.clear();
+    return result.digest;
+  }
+
+  /**
+   * Pick unreserved coins for a payment.
+   *
+   * @param coinType - Normalized payment coin type
+   * @param amount - Payment amount
+   * @param gasBudget - Gas budget the gas coin must cover
+   * @returns The chosen gas and payment coins, or undefined if they do not suffice
+   */
+  private select(
+    coinType: string,
+    amount: bigint,
+    gasBudget: bigint,
+  ): { gas: OwnedCoin[]; coins: OwnedCoin[] } | undefined {
+    const reserved = new Set([...this.reservations.values()].flatMap(r => r.coinIds));
+    const available = (type: string) =>
+      [...this.coins.values()]
+        .filter(coin => coin.coinType === type && !reserved.has(coin.ref.objectId))
+        .sort((a, b) => (a.balance < b.balance ? -1 : a.balance > b.balance ? 1 : 0));
+
+    const isSui = coinType === normalizeStructTag(SUI_COIN_TYPE);
+    const gasNeeded = isSui ? gasBudget + amount : gasBudget;
+    const gas = available(normalizeStructTag(SUI_COIN_TYPE)).find(
+      coin => coin.balance >= gasNeeded,
+    );
+    if (!gas) return undefined;
+    if (isSui) return { gas: [gas], coins: [] };
+
+    const candidates = available(coinType);
+    const single = candidates.find(coin => coin.balance >= amount);
+    if (single) return { gas: [gas], coins: [single] };
+
+    // No single coin covers the amount: merge the largest until it does
+    const coins: OwnedCoin[] = [];
+    let total = 0n;
+    for (const coin of candidates.reverse()) {
+      coins.push(coin);
+      total += coin.balance;
+      if (total >= amount) return { gas: [gas], coins };
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the owner's coins of a type (and of SUI, for gas) unless already current.
+   * Concurrent callers share one read.
+   *
+   * @param coinType - Normalized payment coin type
+   */
+  private async load(coinType: string): Promise<void> {
+    await Promise.all(
+      [...new Set([normalizeStructTag(SUI_COIN_TYPE), coinType])].map(type => {
+        let loading = this.loaded.get(type);
+        if (!loading) {
+          loading = this.fetchCoins(type);
+          loading.catch(() => this.loaded.delete(type));
+          this.loaded.set(type, loading);
+        }
+        return loading;
+      }),
+    );
+  }
+
+  /**
+   * Replace the known coins of a type with the node's current list.
+   * Reserved coins keep the refs they were reserved with.
+   *
+   * @param coinType - Normalized coin type
+   */
+  private async fetchCoins(coinType: string): Promise<void> {
+    const fetched: OwnedCoin[] = [];
+    let cursor: string | null | undefined;
+    do {
+      const page = await this.client.getCoins({ owner: this.owner, coinType, cursor });
+      for (const coin of page.data) {
+        fetched.push({
+          ref: { objectId: coin.coinObjectId, version: coin.version, digest: coin.digest },
+          coinType,
+          balance: BigInt(coin.balance),
+        });
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    const reserved = new Set([...this.reservations.values()].flatMap(r => r.coinIds));
+    for (const [id, coin] of this.coins) {
+      if (coin.coinType === coinType && !reserved.has(id)) this.coins.delete(id);
+    }
+    for (const coin of fetched) {
+      if (!reserved.has(coin.ref.objectId)) this.coins.set(coin.ref.objectId, coin);
+    }
+  }
+
+  /**
+   * Get the gas price to build with, fetching the reference gas price once.
+   *
+   * @returns Gas price in MIST
+   */
+  private getGasPrice(): Promise<bigint> {
+    if (this.options.gasPrice !== undefined) return Promise.resolve(BigInt(this.options.gasPrice));
+    if (!this.gasPrice) {
+      this.gasPrice = this.client.getReferenceGasPrice().then(BigInt);
+      this.gasPrice.catch(() => (this.gasPrice = undefined));
+    }
+    return this.gasPrice;
+  }
+
+  /**
+   * Release unbound reservations past their payment's timeout. Bound ones stay until their
+   * transaction can no longer execute (see releaseSettled).
+   */
+  private releaseExpired(): void {
+    const now = Date.now();
+    for (const [id, reservation] of this.reservations) {
+      if (reservation.digest === undefined && reservation.expiresAt <= now) this.drop(id);
+    }
+  }
+
+  /**
+   * Release reservations whose transaction has executed (successfully or not — either way
+   * the coins' versions moved on) or can no longer execute because its expiration epoch
+   * has passed.
+   *
+   * @throws Error if a transaction or the current epoch cannot be looked up
+   */
+  private async releaseSettled(): Promise<void> {
+    const bound = [...this.reservations].filter(
+      (entry): entry is [string, Reservation & { digest: string }] => entry[1].digest !== undefined,
+    );
+    let epoch: Promise<number> | undefined;
+    await Promise.all(
+      bound.map(async ([id, reservation]) => {
+        if (await this.isExecuted(reservation.digest)) {
+          this.drop(id);
+          return;
+        }
+        if (reservation.expirationEpoch === undefined) return;
+        if (!epoch) epoch = fetchEpochInfo(this.client).then(info => info.epoch);
+        if ((await epoch) > reservation.expirationEpoch) this.drop(id);
+      }),
+    );
+  }
+
+  /**
+   * Check whether a transaction has executed.
+   *
+   * @param digest - The transaction digest
+   * @returns true if the node knows the transaction, false if it has not executed
+   * @throws Error if the node cannot be asked, so unknown outcomes never free coins
+   */
+  private async isExecuted(digest: string): Promise<boolean> {
+    try {
+      await this.client.getTransactionBlock({ digest });
+      return true;
+    } catch (error) {
+      if (error instanceof Error && /could not find/i.test(error.message)) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Forget a reservation and mark its coins' types for re-reading.
+   *
+   * @param id - The reservation id
+   */
+  private drop(id: string): void {
+    const reservation = this.reservations.get(id);
+    if (!reservation) return;
+    this.reservations.delete(id);
+    for (const coinId of reservation.coinIds) {
+      const coin = this.coins.get(coinId);
+      if (coin) this.loaded.delete(coin.coinType);
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import { normalizeStructTag } from "@mysten/sui/utils";
+import type { Network } from "@x402/core/types";
+import {
+  SUI_COIN_TYPE,
+  SUI_DECIMALS,
+  SUI_DEVNET_CAIP2,
+  SUI_MAINNET_CAIP2,
+  SUI_TESTNET_CAIP2,
+  USDC_DECIMALS,
+  USDC_MAINNET,
+  USDC_TESTNET,
+} from "./constants";
+import { suiNetworks } from "./networks";
+import type { SuiNetworkRegistry } from "./networks";
+import { createSuiClient } from "./utils";
+
+/**
+ * What the package needs to know about a coin type to price and display amounts.
+ */
+export type SuiCoinMetadata = {
+  coinType: string;
+  symbol: string;
+  decimals: number;
+  name?: string;
+};
+
+/**
+ * A coin to seed a registry with. Its symbol becomes an alias on the listed networks
+ * (every network when omitted).
+ */
+export type SuiCoinRegistration = SuiCoinMetadata & {
+  networks?: string[];
+};
+
+/**
+ * Looks up a coin type's metadata on a network, returning null if it has none.
+ */
+export type SuiCoinMetadataFetcher = (
+  coinType: string,
+  network: Network,
+) => Promise<Omit<SuiCoinMetadata, "coinType"> | null>;
+
+/**
+ * Optional settings for a SuiCoinRegistry
+ */
+export interface SuiCoinRegistryOptions {
+  /**
+   * Registry whose RPC URLs metadata is fetched from (defaults to suiNetworks)
+   */
+  networkRegistry?: SuiNetworkRegistry;
+
+  /**
+   * Metadata lookup (defaults to SuiClient.getCoinMetadata). Pass `null` to resolve only
+   * registered coins, e.g. offline.
+   */
+  fetchMetadata?: SuiCoinMetadataFetcher | null;
+}
+
+/**
+ * Built-in coins: SUI everywhere, and USDC under each public network's address
+ */
+export const DEFAULT_SUI_COINS: readonly SuiCoinRegistration[] = [
+  { coinType: SUI_COIN_TYPE, symbol: "SUI", decimals: SUI_DECIMALS, name: "Sui" },
+  {
+    coinType: USDC_MAINNET,
+    symbol: "USDC",
+    decimals: USDC_DECIMALS,
+    name: "USDC",
+    networks: [SUI_MAINNET_CAIP2],
+  },
+  {
+    coinType: USDC_TESTNET,
+    symbol: "USDC",
+    decimals: USDC_DECIMALS,
+    name: "USDC",
+    networks: [SUI_TESTNET_CAIP2, SUI_DEVNET_CAIP2],
+  },
+];
+
+/**
+ * Wildcard alias scope: the alias applies on every network
+ */
+const ALL_NETWORKS = "*";
+
+/**
+ * Registry of coin metadata (decimals, symbol) and symbol aliases.
+ * Registered coins apply on every network. Coin types it has not seen are looked up
+ * on-chain once per network and cached for that network, since the same address can hold
+ * a different package on another chain; seed it with register() to resolve coins without
+ * a network.
+ */
+export class SuiCoinRegistry {
+  private readonly coins = new Map<string, SuiCoinMetadata>();
+  private readonly fetched = new Map<string, SuiCoinMetadata>();
+  private readonly fetching = new Map<string, Promise<SuiCoinMetadata>>();
+  private readonly aliases = new Map<string, Map<string, string>>();
+  private readonly fetchMetadata: SuiCoinMetadataFetcher | null;
+
+  /**
+   * Creates a new SuiCoinRegistry.
+   *
+   * @param coins - Initial coins (defaults to DEFAULT_SUI_COINS)
+   * @param options - Optional metadata lookup settings
+   */
+  constructor(
+    coins: readonly SuiCoinRegistration[] = DEFAULT_SUI_COINS,
+    options: SuiCoinRegistryOptions = {},
+  ) {
+    const networkRegistry = options.networkRegistry ?? suiNetworks;
+    this.fetchMetadata =
+      options.fetchMetadata === undefined
+        ? (coinType, network) =>
+            createSuiClient(network, undefined, networkRegistry).getCoinMetadata({ coinType })
+        : options.fetchMetadata;
+    coins.forEach(coin => this.register(coin));
+  }
+
+  /**
+   * Add a coin's metadata and alias its symbol to it.
+   *
+   * @param coin - The coin, with the networks its symbol alias applies on
+   * @returns The registry for chaining
+   */
+  register(coin: SuiCoinRegistration): SuiCoinRegistry {
+    const { networks, ...metadata } = coin;
+    if (!Number.isInteger(metadata.decimals) || metadata.decimals < 0) {
+      throw new Error(`Invalid decimals for ${metadata.coinType}: ${metadata.decimals}`);
+    }
+    this.coins.set(normalizeStructTag(metadata.coinType), metadata);
+    return this.alias(metadata.symbol, metadata.coinType, networks);
+  }
+
+  /**
+   * Make a symbol resolve to a coin type, e.g. a loyalty token's ticker.
+   *
+   * @param symbol - The alias (case-insensitive)
+   * @param coinType - The coin type it stands for
+   * @param networks - Networks the alias applies on (every network when omitted)
+   * @returns The registry for chaining
+   */
+  alias(symbol: string, coinType: string, networks?: string[]): SuiCoinRegistry {
+    const key = symbol.toUpperCase();
+    const scopes = this.aliases.get(key) ?? new Map<string, string>();
+    for (const network of networks ?? [ALL_NETWORKS]) {
+      scopes.set(network, coinType);
+    }
+    this.aliases.set(key, scopes);
+    return this;
+  }
+
+  /**
+   * Look up a coin's metadata without fetching it.
+   *
+   * @param coinType - The coin type
+   * @param network - CAIP-2 network whose fetched metadata to include (registered coins only
+   * when omitted)
+   * @returns The metadata, or undefined if not registered or cached
+   */
+  get(coinType: string, network?: Network): SuiCoinMetadata | undefined {
+    const key = normalizeStructTag(coinType);
+    return this.coins.get(key) ?? (network ? this.fetched.get(`${network}|${key}`) : undefined);
+  }
+
+  /**
+   * Get a coin type's metadata, fetching and caching it on first use on a network.
+   * Concurrent lookups of the same coin type on the same network share one request.
+   *
+   * @param coinType - The coin type
+   * @param network - CAIP-2 network to look the coin up on
+   * @returns The metadata
+   * @throws Error if the coin is unknown offline or has no on-chain metadata
+   */
+  async getMetadata(coinType: string, network: Network): Promise<SuiCoinMetadata> {
+    const cached = this.get(coinType, network);
+    if (cached) return cached;
+
+    const fetchMetadata = this.fetchMetadata;
+    if (!fetchMetadata) {
+      throw new Error(`Unknown coin type ${coinType}; register it to use it offline`);
+    }
+
+    const key = `${network}|${normalizeStructTag(coinType)}`;
+    let fetching = this.fetching.get(key);
+    if (!fetching) {
+      fetching = fetchMetadata(coinType, network).then(metadata => {
+        if (!metadata) {
+          throw new Error(`No coin metadata found for ${coinType} on ${network}`);
+        }
+        const coin = {
+          coinType,
+          symbol: metadata.symbol,
+          decimals: metadata.decimals,
+          name: metadata.name,
+        };
+        this.fetched.set(key, coin);
+        return coin;
+      });
+      fetching.catch(() => undefined).finally(() => this.fetching.delete(key));
+      this.fetching.set(key, fetching);
+    }
+    return fetching;
+  }
+
+  /**
+   * Resolve a coin type or symbol alias to its metadata.
+   * Aliases scoped to the network win over network-wide ones.
+   *
+   * @param coin - A coin type ("0x…::deep::DEEP") or registered symbol ("DEEP")
+   * @param network - CAIP-2 network identifier
+   * @returns The metadata
+   * @throws Error if the symbol is not registered or the coin type cannot be looked up
+   */
+  async resolve(coin: string, network: Network): Promise<SuiCoinMetadata> {
+    if (coin.includes("::")) {
+      return this.getMetadata(coin, network);
+    }
+
+    const scopes = this.aliases.get(coin.toUpperCase());
+    const coinType = scopes?.get(network) ?? scopes?.get(ALL_NETWORKS);
+    if (!coinType) {
+      throw new Error(`Unknown coin symbol ${coin} on ${network}`);
+    }
+    return this.getMetadata(coinType, network);
+  }
+}
+
+/**
+ * Process-wide default coin registry, used wherever no registry is passed explicitly
+ */
+export const suiCoins = new SuiCoinRegistry();
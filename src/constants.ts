@@ -1,3 +1,5 @@
+import type { PtbCommandAllowlist } from "./types";
+
 /**
  * Native Circle USDC on Sui (CCTP)
  * This is the canonical USDC — NOT the deprecated Wormhole-bridged version (0x5d4b...)
@@ -32,6 +34,7 @@ export const SUI_DECIMALS = 9;
 export const SUI_MAINNET_CAIP2 = "sui:mainnet";
 export const SUI_TESTNET_CAIP2 = "sui:testnet";
 export const SUI_DEVNET_CAIP2 = "sui:devnet";
+export const SUI_LOCALNET_CAIP2 = "sui:localnet";
 
 /**
  * Default RPC URLs for Sui networks
@@ -39,6 +42,70 @@ export const SUI_DEVNET_CAIP2 = "sui:devnet";
 export const MAINNET_RPC_URL = "https://fullnode.mainnet.sui.io:443";
 export const TESTNET_RPC_URL = "https://fullnode.testnet.sui.io:443";
 export const DEVNET_RPC_URL = "https://fullnode.devnet.sui.io:443";
+export const LOCALNET_RPC_URL = "http://127.0.0.1:9000";
+
+/**
+ * Default GraphQL URLs for Sui networks (used for zkLogin verification)
+ */
+export const MAINNET_GRAPHQL_URL = "https://graphql.mainnet.sui.io/graphql";
+export const TESTNET_GRAPHQL_URL = "https://graphql.testnet.sui.io/graphql";
+export const DEVNET_GRAPHQL_URL = "https://graphql.devnet.sui.io/graphql";
+export const LOCALNET_GRAPHQL_URL = "http://127.0.0.1:9125/graphql";
+
+/**
+ * Chain identifiers (first 4 bytes of the genesis checkpoint digest) for the long-lived networks
+ */
+export const MAINNET_CHAIN_IDENTIFIER = "35834a8a";
+export const TESTNET_CHAIN_IDENTIFIER = "4c78adac";
+
+/**
+ * Default upper bound on the gas budget a facilitator will sponsor (0.05 SUI in MIST)
+ */
+export const DEFAULT_MAX_SPONSORED_GAS_BUDGET = 50_000_000n;
+
+/**
+ * Default number of getTransactionBlock lookups after an ambiguous settle failure
+ */
+export const DEFAULT_SETTLEMENT_RECOVERY_ATTEMPTS = 5;
+
+/**
+ * Default delay between settlement recovery lookups (milliseconds)
+ */
+export const DEFAULT_SETTLEMENT_RECOVERY_DELAY_MS = 1_000;
+
+/**
+ * Default number of times the client re-signs a payment the facilitator rejected as stale
+ */
+export const DEFAULT_PAYMENT_RETRIES = 2;
+
+/**
+ * Verification failures a rebuilt and re-signed payment can fix: a spent input object
+ * version, an expired epoch, or a reference gas price raised at an epoch boundary
+ */
+export const RETRYABLE_PAYMENT_REASONS: readonly string[] = [
+  "invalid_exact_sui_payload_object_version_mismatch",
+  "invalid_exact_sui_payload_transaction_expired",
+  "invalid_exact_sui_payload_gas_price_too_low",
+];
+
+/**
+ * Default margin added to oracle-priced amounts, in basis points (0.5%)
+ */
+export const DEFAULT_PRICE_SLIPPAGE_BPS = 50;
+
+/**
+ * Default time an oracle price quote is reused, in seconds
+ */
+export const DEFAULT_PRICE_QUOTE_TTL_SECONDS = 60;
+
+/**
+ * Default PTB command allowlist for payment transactions: coin plumbing plus the
+ * 0x2::coin::zero call that coinWithBalance() emits for zero amounts
+ */
+export const DEFAULT_PTB_ALLOWLIST: PtbCommandAllowlist = {
+  commands: ["SplitCoins", "MergeCoins", "TransferObjects"],
+  moveCalls: ["0x2::coin::zero"],
+};
 
 /**
  * Sui address validation regex (0x followed by 64 hex characters)
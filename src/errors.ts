@@ -0,0 +1,411 @@
+import { JsonRpcError, SuiHTTPTransportError } from "@mysten/sui/client";
+import { SuiGraphQLRequestError } from "@mysten/sui/graphql";
+import type { PaymentRequirements } from "@x402/core/types";
+
+/**
+ * Base class for verification failures. Each subclass maps to a stable
+ * `invalidReason`, and `code` prefixes the `invalidMessage` so clients can
+ * branch on the failure without parsing free text.
+ */
+export class SuiVerificationError extends Error {
+  /**
+   * Whether the same payload (or a rebuilt one) may succeed if tried again
+   */
+  readonly retryable: boolean = false;
+
+  /**
+   * Creates a new SuiVerificationError.
+   *
+   * @param message - Human-readable detail
+   * @param reason - Stable invalidReason reported by verify
+   * @param code - Stable short code prefixing invalidMessage
+   * @param cause - The underlying error, if any
+   */
+  constructor(
+    message: string,
+    readonly reason: string = "transaction_simulation_failed",
+    readonly code: string = "SimulationFailed",
+    readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "SuiVerificationError";
+  }
+
+  /**
+   * Format as a VerifyResponse invalidMessage ("<code>: <detail>").
+   *
+   * @returns The structured invalidMessage
+   */
+  toInvalidMessage(): string {
+    return `${this.code}: ${this.message}`;
+  }
+}
+
+/**
+ * The signature is malformed, invalid, or does not authorize the transaction.
+ */
+export class SuiSignatureError extends SuiVerificationError {
+  constructor(message: string, cause?: unknown) {
+    super(
+      message,
+      "invalid_exact_sui_payload_transaction_signature_verification_failed",
+      "InvalidSignature",
+      cause,
+    );
+    this.name = "SuiSignatureError";
+  }
+}
+
+/**
+ * The RPC node could not be reached or failed internally. The payload itself may be fine.
+ */
+export class SuiRpcError extends SuiVerificationError {
+  override readonly retryable = true;
+
+  constructor(message: string, cause?: unknown) {
+    super(message, "sui_rpc_unavailable", "RpcUnavailable", cause);
+    this.name = "SuiRpcError";
+  }
+}
+
+/**
+ * An RPC endpoint serves a different chain than its CAIP-2 network id names
+ * (e.g. a testnet URL configured under sui:mainnet).
+ */
+export class SuiChainMismatchError extends SuiVerificationError {
+  constructor(
+    readonly network: string,
+    readonly url: string,
+    readonly expectedChainIdentifier: string,
+    readonly actualChainIdentifier: string,
+  ) {
+    super(
+      `${url} serves chain ${actualChainIdentifier}, but ${network} is chain ${expectedChainIdentifier}`,
+      "sui_chain_identifier_mismatch",
+      "ChainMismatch",
+    );
+    this.name = "SuiChainMismatchError";
+  }
+}
+
+/**
+ * The transaction bytes are not valid BCS TransactionData.
+ */
+export class SuiDecodeError extends SuiVerificationError {
+  constructor(message: string, cause?: unknown) {
+    super(
+      message,
+      "invalid_exact_sui_payload_transaction_could_not_be_decoded",
+      "BcsDecodeFailed",
+      cause,
+    );
+    this.name = "SuiDecodeError";
+  }
+}
+
+/**
+ * The transaction would fail on-chain (from `effects.status.error` or a rejected dry-run).
+ */
+export class SuiExecutionError extends SuiVerificationError {
+  /**
+   * Index of the failing PTB command, if the node reported one
+   */
+  readonly command?: number;
+
+  constructor(
+    message: string,
+    readonly executionError: string,
+    reason = "invalid_exact_sui_payload_transaction_dry_run_failed",
+    code = "ExecutionFailed",
+  ) {
+    super(message, reason, code);
+    this.name = "SuiExecutionError";
+    this.command = parseCommandIndex(executionError);
+  }
+}
+
+/**
+ * A Move function aborted.
+ */
+export class SuiMoveAbortError extends SuiExecutionError {
+  constructor(
+    executionError: string,
+    readonly location: { module: string; functionName?: string },
+    readonly abortCode: bigint,
+  ) {
+    const target = location.functionName
+      ? `${location.module}::${location.functionName}`
+      : location.module;
+    super(
+      `${target} aborted with code ${abortCode}`,
+      executionError,
+      "invalid_exact_sui_payload_move_abort",
+      "MoveAbort",
+    );
+    this.name = "SuiMoveAbortError";
+  }
+}
+
+/**
+ * The payer (or gas owner) does not hold enough of a coin.
+ */
+export class SuiInsufficientBalanceError extends SuiExecutionError {
+  constructor(message: string, executionError: string) {
+    super(
+      message,
+      executionError,
+      "invalid_exact_sui_payload_insufficient_balance",
+      "InsufficientCoinBalance",
+    );
+    this.name = "SuiInsufficientBalanceError";
+  }
+}
+
+/**
+ * An input object is at a different version than the transaction references
+ * (it was used by another transaction). Rebuilding the payment fixes it.
+ */
+export class SuiObjectVersionError extends SuiExecutionError {
+  override readonly retryable = true;
+
+  constructor(message: string, executionError: string) {
+    super(
+      message,
+      executionError,
+      "invalid_exact_sui_payload_object_version_mismatch",
+      "ObjectVersionUnavailable",
+    );
+    this.name = "SuiObjectVersionError";
+  }
+}
+
+/**
+ * The transaction's gas price is below the current reference gas price (it changed at an
+ * epoch boundary). Rebuilding the payment at the new price fixes it.
+ */
+export class SuiGasPriceError extends SuiExecutionError {
+  override readonly retryable = true;
+
+  constructor(message: string, executionError: string) {
+    super(message, executionError, "invalid_exact_sui_payload_gas_price_too_low", "GasPriceTooLow");
+    this.name = "SuiGasPriceError";
+  }
+}
+
+/**
+ * The transaction's expiration epoch has passed. Rebuilding the payment in the current
+ * epoch fixes it.
+ */
+export class SuiTransactionExpiredError extends SuiExecutionError {
+  override readonly retryable = true;
+
+  constructor(message: string, executionError: string) {
+    super(
+      message,
+      executionError,
+      "invalid_exact_sui_payload_transaction_expired",
+      "TransactionExpired",
+    );
+    this.name = "SuiTransactionExpiredError";
+  }
+}
+
+/**
+ * How far one coin type falls short of what a payment needs.
+ */
+export type SuiFundsShortfall = {
+  coinType: string;
+  needed: bigint;
+  available: bigint;
+};
+
+/**
+ * Client-side pre-flight failure: the payer cannot cover the payment and its gas,
+ * so the transaction is not offered for signing.
+ */
+export class InsufficientFundsError extends Error {
+  /**
+   * Creates a new InsufficientFundsError.
+   *
+   * @param shortfalls - Needed vs available amounts for each coin type that falls short
+   * @param cause - The underlying build or dry-run error, if any
+   */
+  constructor(
+    readonly shortfalls: SuiFundsShortfall[],
+    readonly cause?: unknown,
+  ) {
+    super(
+      `Insufficient funds: ${shortfalls
+        .map(({ coinType, needed, available }) => `need ${needed} ${coinType}, have ${available}`)
+        .join("; ")}`,
+    );
+    this.name = "InsufficientFundsError";
+  }
+}
+
+/**
+ * Why a client spending policy refused a payment option.
+ */
+export type SuiPolicyRejection = {
+  /**
+   * The policy that refused it (e.g. "maxAmountPerPayment", "dailyBudget")
+   */
+  policy: string;
+  reason: string;
+  requirements: PaymentRequirements;
+};
+
+/**
+ * Client-side policy failure: spending policies refused every payment option offered.
+ */
+export class SuiPolicyRejectedError extends Error {
+  /**
+   * Creates a new SuiPolicyRejectedError.
+   *
+   * @param rejections - Why each payment option was refused
+   */
+  constructor(readonly rejections: SuiPolicyRejection[]) {
+    super(
+      `Payment refused by spending policy: ${rejections.map(rejection => rejection.reason).join("; ")}`,
+    );
+    this.name = "SuiPolicyRejectedError";
+  }
+}
+
+/**
+ * Parse a Sui execution error (`effects.status.error` or a dry-run rejection)
+ * into the most specific SuiExecutionError.
+ *
+ * @param executionError - The error string reported by the node
+ * @returns The typed execution error
+ */
+export function parseExecutionError(executionError: string): SuiExecutionError {
+  const moveAbort = executionError.match(
+    /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (\w+), name: Identifier\("(\w+)"\) \}.*?function_name: (?:Some\("(\w+)"\)|None) \}, (\d+)\)/,
+  );
+  if (moveAbort) {
+    const [, address, module, functionName, abortCode] = moveAbort;
+    return new SuiMoveAbortError(
+      executionError,
+      { module: `0x${address.replace(/^0x/, "")}::${module}`, functionName },
+      BigInt(abortCode),
+    );
+  }
+
+  if (
+    /InsufficientCoinBalance|GasBalanceTooLow|lower than the needed amount/.test(executionError)
+  ) {
+    return new SuiInsufficientBalanceError(
+      "Not enough balance to cover the payment and gas",
+      executionError,
+    );
+  }
+
+  if (/ObjectVersionUnavailableForConsumption|unavailable for consumption/.test(executionError)) {
+    return new SuiObjectVersionError(
+      "An input object was modified since the transaction was built",
+      executionError,
+    );
+  }
+
+  if (/TransactionExpired/.test(executionError)) {
+    return new SuiTransactionExpiredError(
+      "The transaction's expiration epoch has passed",
+      executionError,
+    );
+  }
+
+  if (/GasPriceUnderRGP|under reference gas price/.test(executionError)) {
+    return new SuiGasPriceError(
+      "The gas price is below the current reference gas price",
+      executionError,
+    );
+  }
+
+  return new SuiExecutionError(executionError, executionError);
+}
+
+/**
+ * Classify an error thrown by a SuiClient call.
+ * Transport and internal node failures become SuiRpcError; JSON-RPC rejections
+ * of the transaction itself are parsed as execution errors.
+ *
+ * @param error - The thrown error
+ * @returns The typed verification error
+ */
+export function classifyRpcError(error: unknown): SuiVerificationError {
+  if (error instanceof SuiVerificationError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (isTransportFailure(error)) {
+    return new SuiRpcError(message, error);
+  }
+
+  // Any other JSON-RPC error is the node rejecting the transaction itself
+  if (error instanceof JsonRpcError) {
+    return parseTransactionRejection(message, error);
+  }
+
+  return new SuiVerificationError(message, undefined, undefined, error);
+}
+
+/**
+ * Parse a node's refusal to run a transaction (bad BCS, unusable inputs) into
+ * the most specific verification error.
+ *
+ * @param message - The node's rejection message
+ * @param cause - The underlying error, if any
+ * @returns The typed verification error
+ */
+export function parseTransactionRejection(message: string, cause?: unknown): SuiVerificationError {
+  if (/deserializ/i.test(message)) {
+    return new SuiDecodeError(message, cause);
+  }
+  return parseExecutionError(message);
+}
+
+/**
+ * Classify an error thrown while verifying a signature.
+ * Transport failures (e.g. a zkLogin provider lookup) become SuiRpcError;
+ * everything else means the signature did not verify.
+ *
+ * @param error - The thrown error
+ * @returns The typed verification error
+ */
+export function classifySignatureError(error: unknown): SuiVerificationError {
+  if (error instanceof SuiVerificationError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (isTransportFailure(error)) {
+    return new SuiRpcError(message, error);
+  }
+  return new SuiSignatureError(message, error);
+}
+
+/**
+ * Check whether an error means the node was unreachable or failed internally.
+ *
+ * @param error - The thrown error
+ * @returns true for transport failures (JSON-RPC or GraphQL) and JSON-RPC internal errors
+ */
+export function isTransportFailure(error: unknown): boolean {
+  if (error instanceof JsonRpcError) return error.code === -32603;
+  // fetch() rejects with a TypeError when the connection fails
+  return (
+    error instanceof SuiHTTPTransportError ||
+    error instanceof SuiGraphQLRequestError ||
+    (error instanceof TypeError && /fetch/i.test(error.message))
+  );
+}
+
+/**
+ * Extract the failing command index from an execution error ("... in command 2").
+ *
+ * @param executionError - The error string reported by the node
+ * @returns The command index, or undefined if absent
+ */
+function parseCommandIndex(executionError: string): number | undefined {
+  const match = executionError.match(/in command (\d+)/);
+  return match ? Number(match[1]) : undefined;
+}
@@ -1,3 +1,27 @@
 export { ExactSuiScheme } from "./scheme";
+export type {
+  ExactSuiSchemeOptions,
+  SuiDirectPaymentContext,
+  SuiDirectPaymentHook,
+  SuiPaymentSubmission,
+} from "./scheme";
 export { registerExactSuiScheme } from "./register";
 export type { SuiClientConfig } from "./register";
+export {
+  InMemorySuiSpendingStore,
+  SuiSpendingBudget,
+  allowAssets,
+  allowNetworks,
+  allowPayTo,
+  maxAmountPerPayment,
+  registerSuiSpendingPolicies,
+} from "./policies";
+export type {
+  SuiAmountLimits,
+  SuiBudgetWindow,
+  SuiPolicyOptions,
+  SuiSpendingBudgetConfig,
+  SuiSpendingEntry,
+  SuiSpendingLimits,
+  SuiSpendingStore,
+} from "./policies";
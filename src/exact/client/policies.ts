@@ -0,0 +1,621 @@
+import type { PaymentPolicy, x402Client } from "@x402/core/client";
+import type {
+  Network,
+  PaymentPayload,
+  PaymentRequired,
+  PaymentRequirements,
+} from "@x402/core/types";
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+import { SuiPolicyRejectedError } from "../../errors";
+import type { SuiPolicyRejection } from "../../errors";
+import type { ExactSuiPayload } from "../../types";
+import { getTransactionDigest } from "../../utils";
+import type { ExactSuiScheme } from "./scheme";
+
+/**
+ * Amounts per coin type, in the coin's smallest unit (the units of `PaymentRequirements.amount`)
+ */
+export type SuiAmountLimits = Record<string, bigint | number | string>;
+
+/**
+ * Options shared by the Sui spending policies
+ */
+export interface SuiPolicyOptions {
+  /**
+   * Called for every payment option a policy refuses
+   */
+  onReject?: (rejection: SuiPolicyRejection) => void;
+}
+
+/**
+ * A payment counted against a spending budget. Its id is the payment's transaction digest.
+ */
+export type SuiSpendingEntry = {
+  id: string;
+  coinType: string;
+  amount: bigint;
+  timestamp: number;
+};
+
+/**
+ * A rolling budget window: at most `limit` may be spent since `since`
+ */
+export type SuiBudgetWindow = {
+  name: string;
+  since: number;
+  limit: bigint;
+};
+
+/**
+ * Shared record of client spending, for rolling daily and monthly budgets.
+ * Back it with a shared database to enforce one budget across agent instances.
+ */
+export interface SuiSpendingStore {
+  /**
+   * Atomically record a payment if it keeps every window within its limit.
+   *
+   * @param entry - The payment (coin type normalized)
+   * @param windows - Budget windows for the entry's coin type
+   * @returns The first window the payment would overrun and the amount already spent in it,
+   * or undefined if the payment was recorded
+   */
+  charge(
+    entry: SuiSpendingEntry,
+    windows: SuiBudgetWindow[],
+  ): Promise<{ window: SuiBudgetWindow; spent: bigint } | undefined>;
+
+  /**
+   * Remove a recorded payment, e.g. because it was never settled. A payment created twice
+   * with identical bytes is recorded twice under the same id; each refund removes one.
+   *
+   * @param id - The entry id (the payment's transaction digest)
+   */
+  refund(id: string): Promise<void>;
+
+  /**
+   * Total spent in a coin type since a point in time.
+   *
+   * @param coinType - Normalized coin type
+   * @param since - Unix milliseconds
+   * @returns The amount spent
+   */
+  getSpent(coinType: string, since: number): Promise<bigint>;
+}
+
+/**
+ * Process-local SuiSpendingStore.
+ * Forgets entries older than the oldest window it has been asked about.
+ */
+export class InMemorySuiSpendingStore implements SuiSpendingStore {
+  private entries: SuiSpendingEntry[] = [];
+
+  /**
+   * Atomically record a payment if it keeps every window within its limit.
+   *
+   * @param entry - The payment
+   * @param windows - Budget windows for the entry's coin type
+   * @returns The overrun window and amount spent in it, or undefined if recorded
+   */
+  async charge(
+    entry: SuiSpendingEntry,
+    windows: SuiBudgetWindow[],
+  ): Promise<{ window: SuiBudgetWindow; spent: bigint } | undefined> {
+    const oldest = Math.min(...windows.map(window => window.since));
+    this.entries = this.entries.filter(existing => existing.timestamp >= oldest);
+
+    for (const window of windows) {
+      const spent = this.sum(entry.coinType, window.since);
+      if (spent + entry.amount > window.limit) return { window, spent };
+    }
+    this.entries.push(entry);
+    return undefined;
+  }
+
+  /**
+   * Remove the most recent recorded payment with an id.
+   *
+   * @param id - The entry id
+   */
+  async refund(id: string): Promise<void> {
+    const index = this.entries.map(entry => entry.id).lastIndexOf(id);
+    if (index !== -1) this.entries.splice(index, 1);
+  }
+
+  /**
+   * Total spent in a coin type since a point in time.
+   *
+   * @param coinType - Normalized coin type
+   * @param since - Unix milliseconds
+   * @returns The amount spent
+   */
+  async getSpent(coinType: string, since: number): Promise<bigint> {
+    return this.sum(coinType, since);
+  }
+
+  /**
+   * Sum the recorded payments in a coin type since a point in time.
+   *
+   * @param coinType - Normalized coin type
+   * @param since - Unix milliseconds
+   * @returns The amount spent
+   */
+  private sum(coinType: string, since: number): bigint {
+    return this.entries
+      .filter(entry => entry.coinType === coinType && entry.timestamp >= since)
+      .reduce((total, entry) => total + entry.amount, 0n);
+  }
+}
+
+/**
+ * Configuration for a SuiSpendingBudget
+ */
+export interface SuiSpendingBudgetConfig extends SuiPolicyOptions {
+  /**
+   * Maximum spent per coin type in any rolling 24 hours
+   */
+  daily?: SuiAmountLimits;
+
+  /**
+   * Maximum spent per coin type in any rolling 30 days
+   */
+  monthly?: SuiAmountLimits;
+
+  /**
+   * Where spending is recorded (default: a new InMemorySuiSpendingStore)
+   */
+  store?: SuiSpendingStore;
+
+  /**
+   * Clock, in Unix milliseconds (default Date.now)
+   */
+  now?: () => number;
+}
+
+/**
+ * All built-in Sui spending policies, for registerSuiSpendingPolicies or
+ * `SuiClientConfig.spendingLimits`. Coin type keys and amounts follow SuiAmountLimits.
+ */
+export interface SuiSpendingLimits extends SuiSpendingBudgetConfig {
+  /**
+   * Maximum amount per payment, per coin type
+   */
+  maxAmountPerPayment?: SuiAmountLimits;
+
+  /**
+   * Recipients payments may go to
+   */
+  payTo?: string[];
+
+  /**
+   * Coin types payments may be made in
+   */
+  assets?: string[];
+
+  /**
+   * Sui networks payments may be made on
+   */
+  networks?: Network[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30 * DAY_MS;
+
+/**
+ * Rolling daily and monthly spending budgets per coin type.
+ *
+ * Spending lives in an async, possibly shared store, which synchronous PaymentPolicy
+ * filters cannot consult; the budget is therefore enforced in the client's payment
+ * creation hooks. A Sui payment that would overrun a window is refused with a reason
+ * before it is signed; once created, it is charged atomically under its transaction digest
+ * (refused then if concurrent payments used up the budget meanwhile), and refunded if a
+ * later hook fails its creation. Payments that are created but never settled, e.g. rejected
+ * by the server or facilitator, stay charged until refund() is called for them.
+ * Payments a scheme signs itself (payWithRetry, retryPaymentPayload) bypass the client's
+ * hooks; registerScheme() charges those too.
+ */
+export class SuiSpendingBudget {
+  private readonly store: SuiSpendingStore;
+  private readonly now: () => number;
+  private readonly daily?: Map<string, bigint>;
+  private readonly monthly?: Map<string, bigint>;
+  private readonly charged = new WeakMap<PaymentRequired, string>();
+  private nextEntryId = 0;
+
+  /**
+   * Creates a new SuiSpendingBudget.
+   *
+   * @param config - Budget limits, store, and rejection callback
+   */
+  constructor(private readonly config: SuiSpendingBudgetConfig) {
+    this.store = config.store ?? new InMemorySuiSpendingStore();
+    this.now = config.now ?? Date.now;
+    this.daily = config.daily && toLimitMap(config.daily);
+    this.monthly = config.monthly && toLimitMap(config.monthly);
+  }
+
+  /**
+   * Enforce the budget on an x402Client's payments.
+   *
+   * @param client - The x402Client to enforce the budget on
+   * @returns The client instance for chaining
+   */
+  register(client: x402Client): x402Client {
+    return client
+      .onBeforePaymentCreation(async ({ paymentRequired, selectedRequirements }) => {
+        // A new creation for this response: an earlier one's charge is no longer pending
+        this.charged.delete(paymentRequired);
+        const rejection = await this.check(selectedRequirements);
+        return rejection ? { abort: true, reason: rejection.reason } : undefined;
+      })
+      .onAfterPaymentCreation(async ({ paymentRequired, selectedRequirements, paymentPayload }) => {
+        const id = this.getEntryId(paymentPayload);
+        const rejection = await this.charge(selectedRequirements, id);
+        if (rejection) throw new SuiPolicyRejectedError([rejection]);
+        this.charged.set(paymentRequired, id);
+      })
+      .onPaymentCreationFailure(async ({ paymentRequired }) => {
+        const id = this.charged.get(paymentRequired);
+        this.charged.delete(paymentRequired);
+        if (id) await this.store.refund(id);
+      });
+  }
+
+  /**
+   * Charge the payments a scheme signs outside the client's hooks, in payWithRetry and
+   * retryPaymentPayload. A re-signed payment takes over from the rejected one it replaces
+   * (at most one of them can execute), so the rejected payment's charge is refunded.
+   *
+   * @param scheme - The client ExactSuiScheme
+   * @returns The scheme for chaining
+   */
+  registerScheme(scheme: ExactSuiScheme): ExactSuiScheme {
+    return scheme.onDirectPayment(async ({ paymentRequirements, paymentPayload, replaces }) => {
+      if (replaces) await this.refund(replaces);
+      const rejection = await this.charge(paymentRequirements, this.getEntryId(paymentPayload));
+      if (rejection) throw new SuiPolicyRejectedError([rejection]);
+    });
+  }
+
+  /**
+   * Remove a payment from the budget, e.g. one the server or facilitator rejected, or that
+   * was never submitted.
+   *
+   * @param payment - The payment payload, or its transaction digest
+   */
+  async refund(payment: Pick<PaymentPayload, "payload"> | string): Promise<void> {
+    await this.store.refund(typeof payment === "string" ? payment : this.getEntryId(payment));
+  }
+
+  /**
+   * Amount spent in a coin type during the current rolling window.
+   *
+   * @param coinType - The coin type
+   * @param window - "daily" or "monthly"
+   * @returns The amount spent, in the coin's smallest unit
+   */
+  getSpent(coinType: string, window: "daily" | "monthly"): Promise<bigint> {
+    const since = this.now() - (window === "daily" ? DAY_MS : MONTH_MS);
+    return this.store.getSpent(normalizeStructTag(coinType), since);
+  }
+
+  /**
+   * Check, without recording it, whether a payment fits the budget.
+   *
+   * @param requirements - The payment about to be created
+   * @returns Why the payment is refused, or undefined if it fits
+   */
+  private async check(requirements: PaymentRequirements): Promise<SuiPolicyRejection | undefined> {
+    const windows = this.getWindows(requirements);
+    if (!Array.isArray(windows)) return windows;
+
+    const coinType = normalizeCoinType(requirements.asset);
+    const amount = BigInt(requirements.amount);
+    for (const window of windows) {
+      const spent = await this.store.getSpent(coinType, window.since);
+      if (spent + amount > window.limit) {
+        return this.rejectOverrun(window, spent, requirements);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Record a payment against the budget.
+   *
+   * @param requirements - The payment that was created
+   * @param id - The entry id (the payment's transaction digest)
+   * @returns Why the payment was refused, or undefined if it was recorded
+   */
+  private async charge(
+    requirements: PaymentRequirements,
+    id: string,
+  ): Promise<SuiPolicyRejection | undefined> {
+    const windows = this.getWindows(requirements);
+    if (!Array.isArray(windows)) return windows;
+    if (windows.length === 0) return undefined;
+
+    const coinType = normalizeCoinType(requirements.asset);
+    const amount = BigInt(requirements.amount);
+    const timestamp = this.now();
+    const overrun = await this.store.charge({ id, coinType, amount, timestamp }, windows);
+    return overrun && this.rejectOverrun(overrun.window, overrun.spent, requirements);
+  }
+
+  /**
+   * Get the budget windows a payment is counted in.
+   *
+   * @param requirements - The payment
+   * @returns The windows (none for payments on other chains), or a rejection if the
+   * payment's coin type has no budget
+   */
+  private getWindows(requirements: PaymentRequirements): SuiBudgetWindow[] | SuiPolicyRejection {
+    if (!isSuiNetwork(requirements.network)) return [];
+
+    const now = this.now();
+    const coinType = normalizeCoinType(requirements.asset);
+    const windows: SuiBudgetWindow[] = [];
+    for (const [name, limits, length] of [
+      ["dailyBudget", this.daily, DAY_MS],
+      ["monthlyBudget", this.monthly, MONTH_MS],
+    ] as const) {
+      if (!limits) continue;
+      const limit = limits.get(coinType);
+      if (limit === undefined) {
+        return this.reject(name, `no ${budgetLabel(name)} for ${requirements.asset}`, requirements);
+      }
+      windows.push({ name, since: now - length, limit });
+    }
+    return windows;
+  }
+
+  /**
+   * Get the id a payment is recorded under: its transaction digest.
+   *
+   * @param payment - The payment payload
+   * @returns The entry id
+   */
+  private getEntryId(payment: Pick<PaymentPayload, "payload">): string {
+    const { transaction } = payment.payload as Partial<ExactSuiPayload>;
+    return typeof transaction === "string"
+      ? getTransactionDigest(transaction)
+      : String(++this.nextEntryId);
+  }
+
+  /**
+   * Build the rejection for a payment that would overrun a window.
+   *
+   * @param window - The overrun window
+   * @param spent - The amount already spent in it
+   * @param requirements - The refused payment
+   * @returns The rejection
+   */
+  private rejectOverrun(
+    window: SuiBudgetWindow,
+    spent: bigint,
+    requirements: PaymentRequirements,
+  ): SuiPolicyRejection {
+    return this.reject(
+      window.name,
+      `${budgetLabel(window.name)} of ${window.limit} ${requirements.asset} exceeded: ` +
+        `${spent} spent, payment of ${requirements.amount}`,
+      requirements,
+    );
+  }
+
+  /**
+   * Build a rejection and report it.
+   *
+   * @param policy - The refusing window's name
+   * @param reason - Why the payment was refused
+   * @param requirements - The refused payment
+   * @returns The rejection
+   */
+  private reject(
+    policy: string,
+    reason: string,
+    requirements: PaymentRequirements,
+  ): SuiPolicyRejection {
+    const rejection = { policy, reason, requirements };
+    this.config.onReject?.(rejection);
+    return rejection;
+  }
+}
+
+/**
+ * Refuse Sui payments above a maximum amount for their coin type.
+ * Payments in coin types without a limit are refused.
+ *
+ * @param limits - Maximum amount per payment, per coin type
+ * @param options - Optional rejection callback
+ * @returns A policy for x402Client.registerPolicy
+ */
+export function maxAmountPerPayment(
+  limits: SuiAmountLimits,
+  options: SuiPolicyOptions = {},
+): PaymentPolicy {
+  const limitMap = toLimitMap(limits);
+  return createSuiPolicy(
+    "maxAmountPerPayment",
+    requirements => {
+      const limit = limitMap.get(normalizeCoinType(requirements.asset));
+      if (limit === undefined) {
+        return `no per-payment limit for ${requirements.asset}`;
+      }
+      if (BigInt(requirements.amount) > limit) {
+        return `payment of ${requirements.amount} ${requirements.asset} exceeds the per-payment limit of ${limit}`;
+      }
+      return undefined;
+    },
+    options,
+  );
+}
+
+/**
+ * Refuse Sui payments to recipients outside an allowlist.
+ *
+ * @param addresses - Allowed `payTo` addresses
+ * @param options - Optional rejection callback
+ * @returns A policy for x402Client.registerPolicy
+ */
+export function allowPayTo(addresses: string[], options: SuiPolicyOptions = {}): PaymentPolicy {
+  const allowed = new Set(addresses.map(address => normalizeSuiAddress(address)));
+  return createSuiPolicy(
+    "allowPayTo",
+    requirements =>
+      allowed.has(normalizeSuiAddress(requirements.payTo))
+        ? undefined
+        : `recipient ${requirements.payTo} is not allowlisted`,
+    options,
+  );
+}
+
+/**
+ * Refuse Sui payments in coin types outside an allowlist.
+ *
+ * @param coinTypes - Allowed coin types
+ * @param options - Optional rejection callback
+ * @returns A policy for x402Client.registerPolicy
+ */
+export function allowAssets(coinTypes: string[], options: SuiPolicyOptions = {}): PaymentPolicy {
+  const allowed = new Set(coinTypes.map(coinType => normalizeStructTag(coinType)));
+  return createSuiPolicy(
+    "allowAssets",
+    requirements =>
+      allowed.has(normalizeCoinType(requirements.asset))
+        ? undefined
+        : `asset ${requirements.asset} is not allowlisted`,
+    options,
+  );
+}
+
+/**
+ * Refuse payments on Sui networks outside an allowlist.
+ *
+ * @param networks - Allowed CAIP-2 network identifiers
+ * @param options - Optional rejection callback
+ * @returns A policy for x402Client.registerPolicy
+ */
+export function allowNetworks(networks: Network[], options: SuiPolicyOptions = {}): PaymentPolicy {
+  const allowed = new Set<string>(networks);
+  return createSuiPolicy(
+    "allowNetworks",
+    requirements =>
+      allowed.has(requirements.network)
+        ? undefined
+        : `network ${requirements.network} is not allowlisted`,
+    options,
+  );
+}
+
+/**
+ * Register the configured Sui spending policies on an x402Client: allowlists and the
+ * per-payment maximum as policies, rolling budgets as a SuiSpendingBudget.
+ *
+ * @param client - The x402Client to register the policies on
+ * @param limits - The spending limits to enforce
+ * @param schemes - Client schemes whose retried payments count against the budgets too
+ * @returns The client instance for chaining
+ */
+export function registerSuiSpendingPolicies(
+  client: x402Client,
+  limits: SuiSpendingLimits,
+  schemes: ExactSuiScheme[] = [],
+): x402Client {
+  const options = { onReject: limits.onReject };
+  if (limits.networks) client.registerPolicy(allowNetworks(limits.networks, options));
+  if (limits.assets) client.registerPolicy(allowAssets(limits.assets, options));
+  if (limits.payTo) client.registerPolicy(allowPayTo(limits.payTo, options));
+  if (limits.maxAmountPerPayment) {
+    client.registerPolicy(maxAmountPerPayment(limits.maxAmountPerPayment, options));
+  }
+  if (limits.daily || limits.monthly) {
+    const budget = new SuiSpendingBudget(limits);
+    budget.register(client);
+    schemes.forEach(scheme => budget.registerScheme(scheme));
+  }
+  return client;
+}
+
+/**
+ * Wrap a per-requirement check as a PaymentPolicy. Options on other chains pass through.
+ * If the check refuses every remaining option, the policy throws a SuiPolicyRejectedError
+ * with the reasons instead of leaving the client to report a bare "filtered out".
+ *
+ * @param name - Policy name reported in rejections
+ * @param check - Returns why a Sui payment option is refused, or undefined to allow it
+ * @param options - Optional rejection callback
+ * @returns The policy
+ */
+function createSuiPolicy(
+  name: string,
+  check: (requirements: PaymentRequirements) => string | undefined,
+  options: SuiPolicyOptions,
+): PaymentPolicy {
+  return (_x402Version, paymentRequirements) => {
+    const rejections: SuiPolicyRejection[] = [];
+    const allowed = paymentRequirements.filter(requirements => {
+      if (!isSuiNetwork(requirements.network)) return true;
+      const reason = check(requirements);
+      if (reason === undefined) return true;
+
+      const rejection = { policy: name, reason, requirements };
+      rejections.push(rejection);
+      options.onReject?.(rejection);
+      return false;
+    });
+
+    if (allowed.length === 0 && rejections.length > 0) {
+      throw new SuiPolicyRejectedError(rejections);
+    }
+    return allowed;
+  };
+}
+
+/**
+ * Normalize limit keys to long-form coin types and amounts to bigint.
+ *
+ * @param limits - Amounts per coin type
+ * @returns The limits keyed by normalized coin type
+ */
+function toLimitMap(limits: SuiAmountLimits): Map<string, bigint> {
+  return new Map(
+    Object.entries(limits).map(([coinType, amount]) => [
+      normalizeStructTag(coinType),
+      BigInt(amount),
+    ]),
+  );
+}
+
+/**
+ * Normalize a payment's asset, tolerating assets that are not Sui coin types.
+ *
+ * @param asset - The payment requirements' asset
+ * @returns The normalized coin type, or "" if the asset is not a valid struct tag
+ */
+function normalizeCoinType(asset: string): string {
+  try {
+    return normalizeStructTag(asset);
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Check whether a network is a Sui network.
+ *
+ * @param network - CAIP-2 network identifier
+ * @returns true for `sui:` networks
+ */
+function isSuiNetwork(network: string): boolean {
+  return network.startsWith("sui:");
+}
+
+/**
+ * Describe a budget window for rejection reasons.
+ *
+ * @param name - The window's policy name
+ * @returns "daily budget" or "monthly budget"
+ */
+function budgetLabel(name: string): string {
+  return name === "dailyBudget" ? "daily budget" : "monthly budget";
+}
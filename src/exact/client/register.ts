@@ -1,7 +1,10 @@
 import { x402Client, SelectPaymentRequirements, PaymentPolicy } from "@x402/core/client";
 import type { Network } from "@x402/core/types";
 import type { ClientSuiSigner } from "../../signer";
+import { registerSuiSpendingPolicies } from "./policies";
+import type { SuiSpendingLimits } from "./policies";
 import { ExactSuiScheme } from "./scheme";
+import type { ExactSuiSchemeOptions } from "./scheme";
 
 /**
  * Configuration options for registering Sui schemes to an x402Client
@@ -22,11 +25,22 @@ export interface SuiClientConfig {
    */
   policies?: PaymentPolicy[];
 
+  /**
+   * Optional built-in Sui spending policies (per-payment maximum, rolling budgets,
+   * and payTo, asset, and network allowlists), registered after `policies`
+   */
+  spendingLimits?: SuiSpendingLimits;
+
   /**
    * Optional specific networks to register.
    * If not provided, registers with "sui:*" wildcard.
    */
   networks?: Network[];
+
+  /**
+   * Optional scheme settings (e.g., gas station fetch implementation)
+   */
+  schemeOptions?: ExactSuiSchemeOptions;
 }
 
 /**
@@ -37,12 +51,17 @@ export interface SuiClientConfig {
  * @returns The client instance for chaining
  */
 export function registerExactSuiScheme(client: x402Client, config: SuiClientConfig): x402Client {
+  const schemes: ExactSuiScheme[] = [];
   if (config.networks && config.networks.length > 0) {
     config.networks.forEach(network => {
-      client.register(network, new ExactSuiScheme(config.signer));
+      const scheme = new ExactSuiScheme(config.signer, config.schemeOptions);
+      schemes.push(scheme);
+      client.register(network, scheme);
     });
   } else {
-    client.register("sui:*", new ExactSuiScheme(config.signer));
+    const scheme = new ExactSuiScheme(config.signer, config.schemeOptions);
+    schemes.push(scheme);
+    client.register("sui:*", scheme);
   }
 
   if (config.policies) {
@@ -51,5 +70,9 @@ export function registerExactSuiScheme(client: x402Client, config: SuiClientConf
     });
   }
 
+  if (config.spendingLimits) {
+    registerSuiSpendingPolicies(client, config.spendingLimits, schemes);
+  }
+
   return client;
 }
@@ -1,7 +1,101 @@
 import { Transaction, coinWithBalance } from "@mysten/sui/transactions";
+import type { ObjectRef } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
 import type { PaymentPayload, PaymentRequirements, SchemeNetworkClient } from "@x402/core/types";
+import type { SuiCoinManager } from "../../coinManager";
+import { DEFAULT_PAYMENT_RETRIES, RETRYABLE_PAYMENT_REASONS, SUI_COIN_TYPE } from "../../constants";
+import {
+  InsufficientFundsError,
+  SuiInsufficientBalanceError,
+  parseExecutionError,
+} from "../../errors";
+import type { SuiFundsShortfall } from "../../errors";
+import { assertSponsoredTransaction, requestGasSponsorship } from "../../gasStation";
 import type { ClientSuiSigner } from "../../signer";
-import type { ExactSuiPayload } from "../../types";
+import type {
+  ExactSuiPayload,
+  GasStationSponsorRequest,
+  SuiOfflinePayment,
+  SuiPaymentQuote,
+} from "../../types";
+import {
+  coinTypesEqual,
+  decodeTransactionData,
+  getExpirationEpoch,
+  getTransactionDigest,
+  getTransactionExpirationEpoch,
+} from "../../utils";
+
+/**
+ * Optional settings for the client ExactSuiScheme
+ */
+export interface ExactSuiSchemeOptions {
+  /**
+   * Fetch implementation used to call gas stations (defaults to global fetch).
+   * Pass a LocalGasStation's `fetch` to sponsor in-process.
+   */
+  gasStationFetch?: typeof fetch;
+
+  /**
+   * Supplies owned coin refs and gas data so payments are built and signed with no RPC
+   * round trips (coin listing, gas price, budget estimation). Return undefined to build
+   * a payment online. Offline payments always pay their own gas.
+   */
+  offlinePayment?: (
+    paymentRequirements: PaymentRequirements,
+  ) => SuiOfflinePayment | undefined | Promise<SuiOfflinePayment | undefined>;
+
+  /**
+   * Reserves disjoint coins for each in-flight payment, so parallel payments never pick
+   * the same coin or gas object. Payments it funds are built offline and pay their own gas;
+   * release each reservation by digest once its payment settles. Ignored when
+   * `offlinePayment` returns coins.
+   */
+  coinManager?: SuiCoinManager;
+
+  /**
+   * Refuse to sign payments the signer cannot pre-flight check. Without `dryRunTransaction`
+   * and `getBalance` the check is otherwise skipped, so a wallet is asked to sign payments
+   * that cannot be covered. Offline payments are never checked.
+   */
+  requirePreflight?: boolean;
+
+  /**
+   * How many times payWithRetry re-signs a payment rejected for a retryable reason
+   * (default DEFAULT_PAYMENT_RETRIES)
+   */
+  maxPaymentRetries?: number;
+}
+
+/**
+ * Outcome of submitting a payment: a facilitator VerifyResponse or SettleResponse,
+ * or a resource server's report of one
+ */
+export type SuiPaymentSubmission = {
+  isValid?: boolean;
+  success?: boolean;
+  invalidReason?: string;
+  errorReason?: string;
+};
+
+/**
+ * A payment the scheme signed itself in payWithRetry or retryPaymentPayload, outside
+ * x402Client's payment creation hooks
+ */
+export type SuiDirectPaymentContext = {
+  paymentRequirements: PaymentRequirements;
+  paymentPayload: Pick<PaymentPayload, "x402Version" | "payload">;
+
+  /**
+   * The rejected payment a re-signed payment replaces
+   */
+  replaces?: Pick<PaymentPayload, "payload">;
+};
+
+/**
+ * Runs for each payment the scheme signs outside x402Client; throwing discards the payment
+ */
+export type SuiDirectPaymentHook = (context: SuiDirectPaymentContext) => Promise<void>;
 
 /**
  * Sui client implementation for the Exact payment scheme.
@@ -11,16 +105,26 @@ import type { ExactSuiPayload } from "../../types";
 export class ExactSuiScheme implements SchemeNetworkClient {
   readonly scheme = "exact";
 
+  private readonly directPaymentHooks: SuiDirectPaymentHook[] = [];
+
   /**
    * Creates a new ExactSuiScheme client instance.
    *
    * @param signer - The client signer for signing transactions
+   * @param options - Optional scheme settings (gas station transport, offline payments, coin reservation)
    */
-  constructor(private readonly signer: ClientSuiSigner) {}
+  constructor(
+    private readonly signer: ClientSuiSigner,
+    private readonly options: ExactSuiSchemeOptions = {},
+  ) {}
 
   /**
    * Creates a payment payload by building and signing a PTB.
-   * Uses coinWithBalance() to automatically handle coin selection, merging, and splitting.
+   * Uses coinWithBalance() to automatically handle coin selection, merging, and splitting,
+   * unless `offlinePayment` or `coinManager` supplies the coins and gas data.
+   * When the requirements advertise `extra.gasStation` and the signer can build
+   * TransactionKind bytes, gas is sponsored instead of paid by the client.
+   * The transaction expires at the epoch containing now + maxTimeoutSeconds.
    *
    * @param x402Version - The x402 protocol version
    * @param paymentRequirements - The payment requirements (amount, asset, payTo, network)
@@ -30,18 +134,190 @@ export class ExactSuiScheme implements SchemeNetworkClient {
     x402Version: number,
     paymentRequirements: PaymentRequirements,
   ): Promise<Pick<PaymentPayload, "x402Version" | "payload">> {
-    const { amount, asset, payTo } = paymentRequirements;
+    return this.signPayment(x402Version, paymentRequirements);
+  }
 
-    // Build a PTB that transfers the required coin amount to the recipient
-    const tx = new Transaction();
-    tx.setSender(this.signer.address);
+  /**
+   * Register a hook for payments created by payWithRetry and retryPaymentPayload, which do
+   * not pass through x402Client's payment creation hooks (e.g. to charge a spending budget).
+   *
+   * @param hook - Called after each such payment is signed; throwing discards the payment
+   * @returns The scheme for chaining
+   */
+  onDirectPayment(hook: SuiDirectPaymentHook): ExactSuiScheme {
+    this.directPaymentHooks.push(hook);
+    return this;
+  }
 
-    // coinWithBalance handles coin selection, merging, and splitting automatically
-    const coin = coinWithBalance({ type: asset, balance: BigInt(amount) });
-    tx.transferObjects([coin], payTo);
+  /**
+   * Rebuild and re-sign a payment the facilitator rejected as stale: an input object
+   * version was spent, the expiration epoch passed, or the reference gas price rose.
+   * The new PTB uses fresh object refs, gas price, and expiration.
+   *
+   * Never pays twice: if the rejected transaction could still execute (its inputs are
+   * unspent and it has not expired), the new one spends the same gas coins, so at most one
+   * of them lands. Sponsored payments that could still execute, and payments that already
+   * executed (e.g. a settle that timed out but landed), are not re-signed.
+   *
+   * @param x402Version - The x402 protocol version
+   * @param paymentRequirements - The payment requirements
+   * @param rejected - The rejected payment payload
+   * @param invalidReason - The facilitator's invalidReason (or settle errorReason)
+   * @returns Promise resolving to a newly signed payment payload
+   * @throws Error if the reason is not retryable or re-signing could pay twice
+   */
+  async retryPaymentPayload(
+    x402Version: number,
+    paymentRequirements: PaymentRequirements,
+    rejected: Pick<PaymentPayload, "payload">,
+    invalidReason: string | undefined,
+  ): Promise<Pick<PaymentPayload, "x402Version" | "payload">> {
+    if (!invalidReason || !RETRYABLE_PAYMENT_REASONS.includes(invalidReason)) {
+      throw new Error(
+        `Payment rejected with ${invalidReason ?? "no reason"}, which re-signing cannot fix`,
+      );
+    }
+
+    const { transaction } = rejected.payload as ExactSuiPayload;
+    const pinnedGas = await this.findPinnedGas(transaction);
+
+    // A dead transaction's coins are free again; a pinned one keeps them until replaced
+    const digest = getTransactionDigest(transaction);
+    if (!pinnedGas) this.options.coinManager?.release(digest);
+    const payload = await this.signPayment(x402Version, paymentRequirements, pinnedGas);
+    if (pinnedGas) this.options.coinManager?.release(digest);
+    await this.runDirectPaymentHooks({
+      paymentRequirements,
+      paymentPayload: payload,
+      replaces: rejected,
+    });
+    return payload;
+  }
+
+  /**
+   * Create a payment and submit it, re-signing it with retryPaymentPayload when the
+   * submission fails for a retryable reason, up to `maxPaymentRetries` times.
+   * Nothing calls this for you: x402Client and fetch wrappers submit a payment once, so use
+   * it where your code submits payments itself.
+   *
+   * @param x402Version - The x402 protocol version
+   * @param paymentRequirements - The payment requirements
+   * @param submit - Sends a payload for verification or settlement and reports the outcome
+   * @returns The last submission's outcome (successful, not retryable, or out of retries)
+   */
+  async payWithRetry<T extends SuiPaymentSubmission>(
+    x402Version: number,
+    paymentRequirements: PaymentRequirements,
+    submit: (payload: Pick<PaymentPayload, "x402Version" | "payload">) => Promise<T>,
+  ): Promise<T> {
+    const maxRetries = this.options.maxPaymentRetries ?? DEFAULT_PAYMENT_RETRIES;
+    let payload = await this.createPaymentPayload(x402Version, paymentRequirements);
+    await this.runDirectPaymentHooks({ paymentRequirements, paymentPayload: payload });
+
+    for (let retry = 0; ; retry++) {
+      const response = await submit(payload);
+      const reason = response.invalidReason ?? response.errorReason;
+      if (
+        response.isValid ||
+        response.success ||
+        retry >= maxRetries ||
+        !reason ||
+        !RETRYABLE_PAYMENT_REASONS.includes(reason)
+      ) {
+        return response;
+      }
+      payload = await this.retryPaymentPayload(x402Version, paymentRequirements, payload, reason);
+    }
+  }
+
+  /**
+   * Run the direct payment hooks for a payment signed outside x402Client.
+   * If one throws, the payment is discarded and its coin reservation released.
+   *
+   * @param context - The signed payment
+   */
+  private async runDirectPaymentHooks(context: SuiDirectPaymentContext): Promise<void> {
+    try {
+      for (const hook of this.directPaymentHooks) {
+        await hook(context);
+      }
+    } catch (error) {
+      const { transaction } = context.paymentPayload.payload as ExactSuiPayload;
+      this.options.coinManager?.release(getTransactionDigest(transaction));
+      throw error;
+    }
+  }
+
+  /**
+   * Build and sign a payment.
+   *
+   * @param x402Version - The x402 protocol version
+   * @param paymentRequirements - The payment requirements
+   * @param pinnedGas - Gas coins the payment must spend (self-paid), when re-signing a
+   * payment whose transaction could still execute
+   * @returns Promise resolving to a signed payment payload
+   */
+  private async signPayment(
+    x402Version: number,
+    paymentRequirements: PaymentRequirements,
+    pinnedGas?: ObjectRef[],
+  ): Promise<Pick<PaymentPayload, "x402Version" | "payload">> {
+    const coinManager = this.options.coinManager;
+    const offlinePayment = await this.options.offlinePayment?.(paymentRequirements);
+    const reservation =
+      !offlinePayment && coinManager ? await coinManager.reserve(paymentRequirements) : undefined;
+    const reserved = offlinePayment ?? reservation?.payment;
+    const offline = reserved && pinnedGas ? { ...reserved, gasPayment: pinnedGas } : reserved;
+    const gasStation = offline || pinnedGas ? undefined : this.getGasStation(paymentRequirements);
 
-    // Sign but do NOT execute — the facilitator will broadcast during settle
-    const { signature, bytes } = await this.signer.signTransaction(tx);
+    let signed: { signature: string; bytes: string };
+    let expirationEpoch: number;
+    try {
+      // Bound the transaction's lifetime by maxTimeoutSeconds (epoch-granular); facilitators
+      // reject payments without an expiration, so never sign one
+      const epochInfo = offline?.epochInfo ?? (await this.signer.getEpochInfo?.());
+      if (!epochInfo) {
+        throw new Error(
+          offline
+            ? "Offline payments need epochInfo when the signer has no getEpochInfo"
+            : "Cannot set the payment's expiration epoch: the signer has no getEpochInfo",
+        );
+      }
+      expirationEpoch = getExpirationEpoch(epochInfo, paymentRequirements.maxTimeoutSeconds);
+
+      // Build a PTB that transfers the required coin amount to the recipient
+      const tx = offline
+        ? this.buildOfflinePaymentTransaction(paymentRequirements, offline, expirationEpoch)
+        : this.buildPaymentTransaction(
+            paymentRequirements,
+            gasStation !== undefined,
+            expirationEpoch,
+          );
+      if (pinnedGas && !offline) tx.setGasPayment(pinnedGas);
+
+      // Catch payments bound to fail before asking for a signature (offline payments skip this)
+      if (!offline && !gasStation) {
+        await this.preflightBeforeSigning(tx, paymentRequirements, false);
+      }
+
+      // Sign but do NOT execute — the facilitator will broadcast during settle
+      signed = gasStation
+        ? await this.signSponsored(tx, gasStation, paymentRequirements, expirationEpoch)
+        : await this.signer.signTransaction(tx);
+    } catch (error) {
+      if (reservation) coinManager?.release(reservation.id);
+      throw error;
+    }
+
+    // Let the manager release the coins by digest once the payment settles
+    if (reservation) {
+      coinManager?.bindTransaction(
+        reservation.id,
+        getTransactionDigest(signed.bytes),
+        expirationEpoch,
+      );
+    }
+    const { signature, bytes } = signed;
 
     const payload: ExactSuiPayload = {
       signature,
@@ -53,4 +329,401 @@ export class ExactSuiScheme implements SchemeNetworkClient {
       payload,
     };
   }
+
+  /**
+   * Quote a payment's total cost without signing it: the amount plus estimated gas, so UIs
+   * can show the total before asking for a signature. Self-paid payments are dry-run;
+   * gas-station-sponsored ones cost no gas.
+   *
+   * @param paymentRequirements - The payment requirements (amount, asset, payTo, network)
+   * @returns The payment amount, gas estimate, and per-coin-type totals
+   * @throws InsufficientFundsError if the payer cannot cover the payment
+   */
+  async quotePayment(paymentRequirements: PaymentRequirements): Promise<SuiPaymentQuote> {
+    if (!this.canPreflight()) {
+      throw new Error("Quoting a payment needs a signer that can dry-run transactions");
+    }
+
+    if (this.getGasStation(paymentRequirements)) {
+      const quote = createQuote(paymentRequirements);
+      await this.assertFunds(quote);
+      return quote;
+    }
+    return this.preflight(
+      this.buildPaymentTransaction(paymentRequirements, false),
+      paymentRequirements,
+      false,
+    );
+  }
+
+  /**
+   * Build the payment PTB.
+   *
+   * @param paymentRequirements - The payment requirements
+   * @param sponsored - Whether gas will be sponsored (the gas coin must not be spent)
+   * @param expirationEpoch - Optional epoch after which the transaction expires
+   * @returns The unbuilt Transaction
+   */
+  private buildPaymentTransaction(
+    paymentRequirements: PaymentRequirements,
+    sponsored: boolean,
+    expirationEpoch?: number,
+  ): Transaction {
+    const { amount, asset, payTo } = paymentRequirements;
+
+    const tx = new Transaction();
+    tx.setSender(this.signer.address);
+    if (expirationEpoch !== undefined) {
+      tx.setExpiration({ Epoch: expirationEpoch });
+    }
+
+    // coinWithBalance handles coin selection, merging, and splitting automatically
+    const coin = coinWithBalance({
+      type: asset,
+      balance: BigInt(amount),
+      useGasCoin: !sponsored,
+    });
+    tx.transferObjects([coin], payTo);
+
+    return tx;
+  }
+
+  /**
+   * Build a fully resolved payment PTB from caller-supplied coins and gas data.
+   * SUI is split from the gas coin; other assets are merged into the first coin and split.
+   *
+   * @param paymentRequirements - The payment requirements
+   * @param offline - Owned coin refs and gas data
+   * @param expirationEpoch - Optional epoch after which the transaction expires
+   * @returns A Transaction that builds without a client
+   */
+  private buildOfflinePaymentTransaction(
+    paymentRequirements: PaymentRequirements,
+    offline: SuiOfflinePayment,
+    expirationEpoch?: number,
+  ): Transaction {
+    const { amount, asset, payTo } = paymentRequirements;
+    if (offline.gasPayment.length === 0) {
+      throw new Error("Offline payments need at least one gas coin");
+    }
+
+    const tx = new Transaction();
+    tx.setSender(this.signer.address);
+    if (expirationEpoch !== undefined) {
+      tx.setExpiration({ Epoch: expirationEpoch });
+    }
+    tx.setGasPayment(offline.gasPayment);
+    tx.setGasPrice(offline.gasPrice);
+    tx.setGasBudget(offline.gasBudget);
+
+    const [first, ...rest] = offline.coins ?? [];
+    const isSui = coinTypesEqual(asset, SUI_COIN_TYPE);
+    if (!isSui && !first) {
+      throw new Error(`Offline payments in ${asset} need coins of that type`);
+    }
+    const source = isSui ? tx.gas : tx.objectRef(first);
+    if (!isSui && rest.length > 0) {
+      tx.mergeCoins(
+        source,
+        rest.map(ref => tx.objectRef(ref)),
+      );
+    }
+
+    const [coin] = tx.splitCoins(source, [BigInt(amount)]);
+    tx.transferObjects([coin], payTo);
+
+    return tx;
+  }
+
+  /**
+   * Obtain sponsored gas from a gas station and sign the resulting transaction.
+   *
+   * @param tx - The payment transaction
+   * @param gasStation - The gas station URL
+   * @param paymentRequirements - The payment requirements
+   * @param expirationEpoch - Optional epoch after which the transaction expires
+   * @returns Signature and sponsored transaction bytes (both base64-encoded)
+   */
+  private async signSponsored(
+    tx: Transaction,
+    gasStation: string,
+    paymentRequirements: PaymentRequirements,
+    expirationEpoch?: number,
+  ): Promise<{ signature: string; bytes: string }> {
+    if (!this.signer.buildTransactionKind) {
+      throw new Error("Signer cannot build TransactionKind bytes for gas sponsorship");
+    }
+
+    let transactionKind: string;
+    try {
+      transactionKind = await this.signer.buildTransactionKind(tx);
+    } catch (error) {
+      throw await this.toFundsError(error, paymentRequirements, true);
+    }
+    const request: GasStationSponsorRequest = {
+      network: paymentRequirements.network,
+      sender: this.signer.address,
+      transactionKind,
+      expirationEpoch,
+    };
+
+    const response = await requestGasSponsorship(gasStation, request, this.options.gasStationFetch);
+    assertSponsoredTransaction(request, response);
+
+    const sponsored = Transaction.from(response.transaction);
+    await this.preflightBeforeSigning(sponsored, paymentRequirements, true);
+    const signed = await this.signer.signTransaction(sponsored);
+    if (signed.bytes !== response.transaction) {
+      throw new Error("Signed transaction differs from the gas station's sponsored transaction");
+    }
+
+    return signed;
+  }
+
+  /**
+   * Decide which gas coins a re-signed payment must spend so that it and the rejected
+   * transaction cannot both execute.
+   *
+   * @param transaction - The rejected transaction (base64 BCS TransactionData)
+   * @returns undefined if the rejected transaction can never execute (an input version was
+   * spent or it expired, and not by the transaction itself), otherwise its gas coins
+   * @throws Error if it already executed, or could still execute and its gas is not the
+   * payer's to pin
+   */
+  private async findPinnedGas(transaction: string): Promise<ObjectRef[] | undefined> {
+    const { getObjectRefs, getTransactionStatus } = this.signer;
+    if (!getObjectRefs || !getTransactionStatus) {
+      throw new Error(
+        "Re-signing a payment needs a signer that can look up objects and transactions",
+      );
+    }
+    const txData = decodeTransactionData(transaction);
+
+    const expirationEpoch = getTransactionExpirationEpoch(txData);
+    if (expirationEpoch !== undefined && this.signer.getEpochInfo) {
+      const { epoch } = await this.signer.getEpochInfo(true);
+      if (epoch > expirationEpoch) return this.assertNotExecuted(transaction, getTransactionStatus);
+    }
+
+    const gasPayment = txData.gasData.payment ?? [];
+    const owned = [
+      ...gasPayment,
+      ...txData.inputs.flatMap(input => input.Object?.ImmOrOwnedObject ?? []),
+    ];
+    const current = await getObjectRefs(owned.map(ref => ref.objectId));
+    if (owned.some((ref, i) => current[i]?.version !== String(ref.version))) {
+      return this.assertNotExecuted(transaction, getTransactionStatus);
+    }
+
+    const gasOwner = txData.gasData.owner ?? txData.sender;
+    if (!gasOwner || normalizeSuiAddress(gasOwner) !== normalizeSuiAddress(this.signer.address)) {
+      throw new Error(
+        "Rejected sponsored payment could still execute; re-signing it could pay twice",
+      );
+    }
+    return gasPayment.map(ref => ({ ...ref, version: String(ref.version) }));
+  }
+
+  /**
+   * Confirm a dead rejected transaction never executed. Its own execution also moves its
+   * inputs' versions, e.g. a settle that timed out but landed, or one settled by another
+   * facilitator instance.
+   *
+   * @param transaction - The rejected transaction (base64 BCS TransactionData)
+   * @param getTransactionStatus - The signer's transaction lookup
+   * @returns undefined, meaning no gas needs pinning
+   * @throws Error if the transaction is on-chain
+   */
+  private async assertNotExecuted(
+    transaction: string,
+    getTransactionStatus: NonNullable<ClientSuiSigner["getTransactionStatus"]>,
+  ): Promise<undefined> {
+    const digest = getTransactionDigest(transaction);
+    const { status } = await getTransactionStatus(digest);
+    if (status !== "not_found") {
+      throw new Error(
+        `Rejected payment ${digest} already executed on-chain; re-signing it would pay twice`,
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the gas station to sponsor a payment through, if advertised and usable.
+   *
+   * @param paymentRequirements - The payment requirements
+   * @returns The gas station URL, or undefined to pay gas directly
+   */
+  private getGasStation(paymentRequirements: PaymentRequirements): string | undefined {
+    const advertised = paymentRequirements.extra?.gasStation;
+    return typeof advertised === "string" && this.signer.buildTransactionKind
+      ? advertised
+      : undefined;
+  }
+
+  /**
+   * Check whether the signer can dry-run transactions and read balances.
+   *
+   * @returns true if pre-flight checks and quotes are available
+   */
+  private canPreflight(): boolean {
+    return this.signer.dryRunTransaction !== undefined && this.signer.getBalance !== undefined;
+  }
+
+  /**
+   * Pre-flight check a payment about to be signed, if the signer supports it.
+   *
+   * @param tx - The payment transaction
+   * @param paymentRequirements - The payment requirements
+   * @param sponsored - Whether a gas station pays the gas
+   * @throws Error if the signer cannot pre-flight check and `requirePreflight` is set
+   */
+  private async preflightBeforeSigning(
+    tx: Transaction,
+    paymentRequirements: PaymentRequirements,
+    sponsored: boolean,
+  ): Promise<void> {
+    if (this.canPreflight()) {
+      await this.preflight(tx, paymentRequirements, sponsored);
+    } else if (this.options.requirePreflight) {
+      throw new Error(
+        "requirePreflight is set, but the signer has no dryRunTransaction and getBalance",
+      );
+    }
+  }
+
+  /**
+   * Dry-run the payment as the signer and check the payer can cover it.
+   *
+   * @param tx - The payment transaction (resolved in place by the dry run)
+   * @param paymentRequirements - The payment requirements
+   * @param sponsored - Whether a gas station pays the gas
+   * @returns The payment's quote
+   * @throws InsufficientFundsError if the payer cannot cover the payment and gas
+   * @throws SuiExecutionError if the payment would fail for another reason
+   */
+  private async preflight(
+    tx: Transaction,
+    paymentRequirements: PaymentRequirements,
+    sponsored: boolean,
+  ): Promise<SuiPaymentQuote> {
+    let result;
+    try {
+      result = await this.signer.dryRunTransaction!(tx);
+    } catch (error) {
+      throw await this.toFundsError(error, paymentRequirements, sponsored, tx);
+    }
+
+    const { status, gasUsed } = result.effects;
+    if (status.status !== "success") {
+      const error = parseExecutionError(status.error ?? "Dry run failed");
+      throw await this.toFundsError(error, paymentRequirements, sponsored, tx);
+    }
+
+    const quote = createQuote(
+      paymentRequirements,
+      sponsored
+        ? undefined
+        : {
+            estimatedGas:
+              BigInt(gasUsed.computationCost) +
+              BigInt(gasUsed.storageCost) -
+              BigInt(gasUsed.storageRebate),
+            gasBudget: BigInt(tx.getData().gasData.budget ?? 0),
+          },
+    );
+    await this.assertFunds(quote);
+    return quote;
+  }
+
+  /**
+   * Turn a build or dry-run failure caused by missing funds into an InsufficientFundsError.
+   *
+   * @param error - The failure
+   * @param paymentRequirements - The payment requirements
+   * @param sponsored - Whether a gas station pays the gas
+   * @param tx - The payment transaction, if built far enough to carry a gas budget
+   * @returns An InsufficientFundsError, or the original error if funds are not the cause
+   */
+  private async toFundsError(
+    error: unknown,
+    paymentRequirements: PaymentRequirements,
+    sponsored: boolean,
+    tx?: Transaction,
+  ): Promise<unknown> {
+    const message = error instanceof Error ? error.message : String(error);
+    const lacksFunds =
+      /Not enough coins of type|No valid gas coins/.test(message) ||
+      parseExecutionError(message) instanceof SuiInsufficientBalanceError;
+    if (!lacksFunds || !this.signer.getBalance) return error;
+
+    const budget = tx?.getData().gasData.budget;
+    const quote = createQuote(
+      paymentRequirements,
+      sponsored || !budget ? undefined : { estimatedGas: 0n, gasBudget: BigInt(budget) },
+    );
+    const shortfalls = await this.findShortfalls(quote);
+    return shortfalls.length > 0 ? new InsufficientFundsError(shortfalls, error) : error;
+  }
+
+  /**
+   * Throw if the payer's balances do not cover a quote.
+   *
+   * @param quote - The payment's quote
+   * @throws InsufficientFundsError listing each coin type that falls short
+   */
+  private async assertFunds(quote: SuiPaymentQuote): Promise<void> {
+    const shortfalls = await this.findShortfalls(quote);
+    if (shortfalls.length > 0) {
+      throw new InsufficientFundsError(shortfalls);
+    }
+  }
+
+  /**
+   * Compare a quote's per-coin-type totals with the payer's balances.
+   *
+   * @param quote - The payment's quote
+   * @returns Each coin type the payer holds too little of
+   */
+  private async findShortfalls(quote: SuiPaymentQuote): Promise<SuiFundsShortfall[]> {
+    const shortfalls: SuiFundsShortfall[] = [];
+    for (const [coinType, total] of Object.entries(quote.totals)) {
+      const needed = BigInt(total);
+      const available = await this.signer.getBalance!(coinType);
+      if (available < needed) {
+        shortfalls.push({ coinType, needed, available });
+      }
+    }
+    return shortfalls;
+  }
+}
+
+/**
+ * Build a payment quote.
+ *
+ * @param paymentRequirements - The payment requirements
+ * @param gas - Estimated gas cost and budget, if the payer pays gas
+ * @param gas.estimatedGas - Estimated net gas cost in MIST
+ * @param gas.gasBudget - Gas budget in MIST
+ * @returns The quote
+ */
+function createQuote(
+  paymentRequirements: PaymentRequirements,
+  gas?: { estimatedGas: bigint; gasBudget: bigint },
+): SuiPaymentQuote {
+  const { asset, amount } = paymentRequirements;
+  const totals: Record<string, string> = { [asset]: amount };
+  if (gas) {
+    const suiType = coinTypesEqual(asset, SUI_COIN_TYPE) ? asset : SUI_COIN_TYPE;
+    totals[suiType] = String(BigInt(totals[suiType] ?? 0) + gas.gasBudget);
+  }
+
+  return {
+    asset,
+    amount,
+    estimatedGas: String(gas?.estimatedGas ?? 0n),
+    gasBudget: String(gas?.gasBudget ?? 0n),
+    sponsored: gas === undefined,
+    totals,
+  };
 }
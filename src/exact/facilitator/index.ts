@@ -1,3 +1,5 @@
 export { ExactSuiScheme } from "./scheme";
+export type { ExactSuiSchemeOptions } from "./scheme";
 export { registerExactSuiScheme } from "./register";
 export type { SuiFacilitatorConfig } from "./register";
+export { LocalSuiFacilitatorClient } from "./local";
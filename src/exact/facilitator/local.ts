@@ -0,0 +1,92 @@
+import { x402Facilitator } from "@x402/core/facilitator";
+import type { FacilitatorClient } from "@x402/core/server";
+import type {
+  Network,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  SupportedResponse,
+  VerifyResponse,
+} from "@x402/core/types";
+import { registerExactSuiScheme } from "./register";
+import type { SuiFacilitatorConfig } from "./register";
+
+/**
+ * In-process facilitator client for resource servers that verify and settle Sui payments
+ * themselves. It implements the same FacilitatorClient contract as HTTPFacilitatorClient,
+ * so it plugs straight into x402ResourceServer, but calls the facilitator ExactSuiScheme
+ * directly instead of a separate facilitator service.
+ *
+ * @example
+ * ```typescript
+ * const facilitatorClient = new LocalSuiFacilitatorClient({
+ *   signer: toFacilitatorSuiSigner(),
+ *   networks: "sui:testnet",
+ * });
+ * const server = new x402ResourceServer(facilitatorClient);
+ * ```
+ */
+export class LocalSuiFacilitatorClient implements FacilitatorClient {
+  /**
+   * The underlying facilitator, e.g. to add verify/settle lifecycle hooks
+   */
+  readonly facilitator: x402Facilitator;
+
+  /**
+   * Creates a new LocalSuiFacilitatorClient.
+   *
+   * @param config - Signer, networks, and settlement options, as for registerExactSuiScheme
+   */
+  constructor(config: SuiFacilitatorConfig) {
+    this.facilitator = registerExactSuiScheme(new x402Facilitator(), config);
+  }
+
+  /**
+   * Verify a payment in-process
+   *
+   * @param paymentPayload - The payment to verify
+   * @param paymentRequirements - The requirements to verify against
+   * @returns Verification response
+   */
+  verify(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+  ): Promise<VerifyResponse> {
+    return this.facilitator.verify(paymentPayload, paymentRequirements);
+  }
+
+  /**
+   * Settle a payment in-process
+   *
+   * @param paymentPayload - The payment to settle
+   * @param paymentRequirements - The requirements for settlement
+   * @returns Settlement response
+   */
+  settle(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+  ): Promise<SettleResponse> {
+    return this.facilitator.settle(paymentPayload, paymentRequirements);
+  }
+
+  /**
+   * Get the payment kinds the registered networks support (including the gas station
+   * URL when sponsorship is configured)
+   *
+   * @returns Supported payment kinds and extensions
+   */
+  getSupported(): Promise<SupportedResponse> {
+    const { kinds, extensions, signers } = this.facilitator.getSupported();
+    return Promise.resolve({
+      kinds: kinds.map(kind => ({
+        x402Version: kind.x402Version,
+        scheme: kind.scheme,
+        // Kinds come from register(), which only accepts CAIP-2 Network ids
+        network: kind.network as Network,
+        extra: kind.extra,
+      })),
+      extensions,
+      signers,
+    });
+  }
+}
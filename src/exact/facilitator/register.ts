@@ -1,6 +1,8 @@
 import { x402Facilitator } from "@x402/core/facilitator";
 import type { Network } from "@x402/core/types";
+import type { SettlementStore } from "../../settlement";
 import type { FacilitatorSuiSigner } from "../../signer";
+import type { PtbCommandAllowlist } from "../../types";
 import { ExactSuiScheme } from "./scheme";
 
 /**
@@ -22,6 +24,34 @@ export interface SuiFacilitatorConfig {
    * Optional gas station URL for sponsored transactions
    */
   gasStationUrl?: string;
+
+  /**
+   * Optional maximum gas budget (in MIST) to sponsor per transaction
+   */
+  maxSponsoredGasBudget?: bigint;
+
+  /**
+   * Optional PTB command allowlist (defaults to DEFAULT_PTB_ALLOWLIST)
+   */
+  allowlist?: PtbCommandAllowlist;
+
+  /**
+   * Optional settlement store for idempotent settles (defaults to in-memory).
+   * Share one store across facilitator instances to deduplicate between them.
+   */
+  settlementStore?: SettlementStore;
+
+  /**
+   * Optional number of digest lookups after an ambiguous execution failure
+   * (defaults to DEFAULT_SETTLEMENT_RECOVERY_ATTEMPTS)
+   */
+  settlementRecoveryAttempts?: number;
+
+  /**
+   * Optional delay between digest lookups in milliseconds
+   * (defaults to DEFAULT_SETTLEMENT_RECOVERY_DELAY_MS)
+   */
+  settlementRecoveryDelayMs?: number;
 }
 
 /**
@@ -50,6 +80,15 @@ export function registerExactSuiScheme(
   facilitator: x402Facilitator,
   config: SuiFacilitatorConfig,
 ): x402Facilitator {
-  facilitator.register(config.networks, new ExactSuiScheme(config.signer, config.gasStationUrl));
+  facilitator.register(
+    config.networks,
+    new ExactSuiScheme(config.signer, config.gasStationUrl, {
+      maxSponsoredGasBudget: config.maxSponsoredGasBudget,
+      allowlist: config.allowlist,
+      settlementStore: config.settlementStore,
+      settlementRecoveryAttempts: config.settlementRecoveryAttempts,
+      settlementRecoveryDelayMs: config.settlementRecoveryDelayMs,
+    }),
+  );
   return facilitator;
 }
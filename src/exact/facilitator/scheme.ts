@@ -5,9 +5,79 @@ import type {
   SettleResponse,
   VerifyResponse,
 } from "@x402/core/types";
+import type { DryRunTransactionBlockResponse } from "@mysten/sui/client";
+import type { TransactionData } from "@mysten/sui/transactions";
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  DEFAULT_MAX_SPONSORED_GAS_BUDGET,
+  DEFAULT_PTB_ALLOWLIST,
+  DEFAULT_SETTLEMENT_RECOVERY_ATTEMPTS,
+  DEFAULT_SETTLEMENT_RECOVERY_DELAY_MS,
+  SUI_COIN_TYPE,
+} from "../../constants";
+import {
+  classifyRpcError,
+  classifySignatureError,
+  isTransportFailure,
+  parseExecutionError,
+  SuiRpcError,
+  SuiVerificationError,
+} from "../../errors";
+import { InMemorySettlementStore } from "../../settlement";
+import type { SettlementRecord, SettlementStore } from "../../settlement";
 import type { FacilitatorSuiSigner } from "../../signer";
-import type { ExactSuiPayload } from "../../types";
-import { coinTypesEqual } from "../../utils";
+import type {
+  ExactSuiPayload,
+  PtbCommandAllowlist,
+  SuiEpochInfo,
+  SuiTransactionStatus,
+} from "../../types";
+import {
+  coinTypesEqual,
+  decodeTransactionData,
+  getCommandArguments,
+  getExpirationEpoch,
+  getTransactionDigest,
+  getTransactionExpirationEpoch,
+  isCoinObjectType,
+  normalizeMoveCallTarget,
+} from "../../utils";
+
+/**
+ * Optional settings for the facilitator ExactSuiScheme
+ */
+export interface ExactSuiSchemeOptions {
+  /**
+   * Maximum gas budget (in MIST) this facilitator will sponsor per transaction.
+   * Defaults to DEFAULT_MAX_SPONSORED_GAS_BUDGET.
+   */
+  maxSponsoredGasBudget?: bigint;
+
+  /**
+   * PTB commands payment transactions may contain.
+   * Defaults to DEFAULT_PTB_ALLOWLIST.
+   */
+  allowlist?: PtbCommandAllowlist;
+
+  /**
+   * Store used to deduplicate settlements by transaction digest.
+   * Defaults to a process-local InMemorySettlementStore.
+   */
+  settlementStore?: SettlementStore;
+
+  /**
+   * How many times settle looks the transaction up by digest after an ambiguous
+   * execution failure (timeout, dropped connection) before reporting failure.
+   * Defaults to DEFAULT_SETTLEMENT_RECOVERY_ATTEMPTS.
+   */
+  settlementRecoveryAttempts?: number;
+
+  /**
+   * Delay between settlement recovery lookups in milliseconds.
+   * Defaults to DEFAULT_SETTLEMENT_RECOVERY_DELAY_MS.
+   */
+  settlementRecoveryDelayMs?: number;
+}
 
 /**
  * Sui facilitator implementation for the Exact payment scheme.
@@ -17,17 +87,22 @@ import { coinTypesEqual } from "../../utils";
 export class ExactSuiScheme implements SchemeNetworkFacilitator {
   readonly scheme = "exact";
   readonly caipFamily = "sui:*";
+  private readonly settlementStore: SettlementStore;
 
   /**
    * Creates a new ExactSuiScheme facilitator instance.
    *
    * @param signer - The facilitator signer for verification and execution
    * @param gasStationUrl - Optional gas station URL for sponsored transactions
+   * @param options - Optional scheme settings (sponsorship limits, allowlist, settlement store)
    */
   constructor(
     private readonly signer: FacilitatorSuiSigner,
     private readonly gasStationUrl?: string,
-  ) {}
+    private readonly options: ExactSuiSchemeOptions = {},
+  ) {
+    this.settlementStore = options.settlementStore ?? new InMemorySettlementStore();
+  }
 
   /**
    * Get mechanism-specific extra data for the supported kinds endpoint.
@@ -56,16 +131,19 @@ export class ExactSuiScheme implements SchemeNetworkFacilitator {
 
   /**
    * Verifies a payment payload per the official Sui spec.
-   * Four verification steps (run independently where possible):
+   * Five verification steps (run independently where possible):
    * 1. Network match
    * 2. Signature verification (recovers payer address)
    * 3. Transaction simulation (dry-run)
    * 4. Balance change verification
+   * 5. Payer outflow check (only payment + gas leave; no other balances or objects move)
+   *
+   * Sponsored transactions (GasData.owner is one of this facilitator's signers)
+   * additionally have their gas budget and gas coin usage checked before simulation.
    *
-   * NOTE: maxTimeoutSeconds from PaymentRequirements is not enforced here.
-   * This is a protocol-wide gap (EVM/SVM don't enforce it either). Sui
-   * transactions use epoch-based expiry, not wall-clock timeouts. A future
-   * version could validate that the TX expiration epoch is within bounds.
+   * maxTimeoutSeconds is enforced through TransactionExpiration::Epoch: the
+   * transaction must expire no later than the epoch containing now + maxTimeoutSeconds.
+   * Sui expiry is epoch-granular, so this bounds how long a signed payment stays usable.
    *
    * @param payload - The payment payload to verify
    * @param requirements - The payment requirements
@@ -104,32 +182,75 @@ export class ExactSuiScheme implements SchemeNetworkFacilitator {
       };
     }
 
+    let txData: TransactionData;
+    try {
+      txData = decodeTransactionData(suiPayload.transaction);
+    } catch (error) {
+      return toInvalidResponse(error);
+    }
+
+    // Reject commands outside the allowlist so we never broadcast unexpected side effects
+    const commandError = this.verifyCommands(txData);
+    if (commandError) {
+      return commandError;
+    }
+
+    // Sponsored transactions: check the gas data the client chose before simulating
+    const sponsor = this.getSponsor(txData);
+    if (sponsor !== undefined) {
+      const sponsorshipError = this.verifySponsorship(txData, sponsor, requirements.network);
+      if (sponsorshipError) {
+        return sponsorshipError;
+      }
+    }
+
     // Run independent verification steps in parallel:
     // Step 2: Signature verification → recovers the payer address
     // Step 3: Simulation → gets balance changes and proves tx would succeed
     let payer: string;
     try {
-      const [recoveredPayer, dryRunResult] = await Promise.all([
-        this.signer.verifySignature(
-          suiPayload.transaction,
-          suiPayload.signature,
-          requirements.network,
-        ),
-        this.signer.simulateTransaction(suiPayload.transaction, requirements.network),
+      // Custom signers may throw plain Errors; type them by the step that failed
+      const [recoveredPayer, dryRunResult, epochInfo] = await Promise.all([
+        this.signer
+          .verifySignature(suiPayload.transaction, suiPayload.signature, requirements.network)
+          .catch(error => {
+            throw classifySignatureError(error);
+          }),
+        this.signer
+          .simulateTransaction(suiPayload.transaction, requirements.network)
+          .catch(error => {
+            throw classifyRpcError(error);
+          }),
+        this.signer.getEpochInfo(requirements.network).catch(error => {
+          throw classifyRpcError(error);
+        }),
       ]);
 
       payer = recoveredPayer;
 
-      // Check simulation status
-      if (dryRunResult.effects?.status?.status !== "success") {
+      const expirationError = this.verifyExpiration(txData, epochInfo, requirements);
+      if (expirationError) {
+        return { ...expirationError, payer };
+      }
+
+      // A sponsor co-signs only for the sender the client actually signed as
+      if (sponsor !== undefined && normalizeSuiAddress(payer) !== txData.sender) {
         return {
           isValid: false,
-          invalidReason: "invalid_exact_sui_payload_transaction_dry_run_failed",
-          invalidMessage: dryRunResult.effects?.status?.error || "Simulation failed",
+          invalidReason: "invalid_exact_sui_payload_sender_mismatch",
+          invalidMessage: `Signature is from ${payer}, transaction sender is ${txData.sender}`,
           payer,
         };
       }
 
+      // Check simulation status
+      if (dryRunResult.effects?.status?.status !== "success") {
+        const executionError = parseExecutionError(
+          dryRunResult.effects?.status?.error || "Simulation failed",
+        );
+        return { ...toInvalidResponse(executionError), payer };
+      }
+
       // Step 4: Verify balance changes from dry-run
       // BalanceChange.owner is ObjectOwner: { AddressOwner: string } | { ObjectOwner: string } | ...
       const balanceChanges = dryRunResult.balanceChanges ?? [];
@@ -171,28 +292,34 @@ export class ExactSuiScheme implements SchemeNetworkFacilitator {
           payer,
         };
       }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
 
-      // Classify the error based on which step failed
-      if (
-        errorMessage.includes("Signature verification failed") ||
-        errorMessage.includes("Invalid signature")
-      ) {
+      // Step 5: The payer must lose exactly the payment plus gas — nothing else moves
+      const unexpectedBalances = this.findUnexpectedBalanceChanges(
+        dryRunResult,
+        txData,
+        requirements,
+        receivedAmount,
+      );
+      if (unexpectedBalances.length > 0) {
         return {
           isValid: false,
-          invalidReason: "invalid_exact_sui_payload_transaction_signature_verification_failed",
-          invalidMessage: errorMessage,
-          payer: undefined,
+          invalidReason: "invalid_exact_sui_payload_unexpected_balance_change",
+          invalidMessage: `Unexpected balance changes: ${unexpectedBalances.join("; ")}`,
+          payer,
         };
       }
 
-      return {
-        isValid: false,
-        invalidReason: "transaction_simulation_failed",
-        invalidMessage: errorMessage,
-        payer: undefined,
-      };
+      const unexpectedObjects = this.findUnexpectedObjectChanges(dryRunResult, txData);
+      if (unexpectedObjects.length > 0) {
+        return {
+          isValid: false,
+          invalidReason: "invalid_exact_sui_payload_unexpected_object_change",
+          invalidMessage: `Unexpected object changes: ${unexpectedObjects.join("; ")}`,
+          payer,
+        };
+      }
+    } catch (error) {
+      return toInvalidResponse(error);
     }
 
     return {
@@ -204,7 +331,11 @@ export class ExactSuiScheme implements SchemeNetworkFacilitator {
 
   /**
    * Settles a payment by broadcasting the signed transaction.
-   * Re-verifies the payment before broadcasting (defense-in-depth).
+   * Idempotent per transaction digest: the digest is computed locally from the
+   * payload bytes and claimed in the SettlementStore, so a repeated settle of an
+   * executed transaction returns the original SettleResponse instead of broadcasting again.
+   * If execution fails ambiguously (timeout, dropped connection), the digest is looked up
+   * on-chain with bounded retries and the real outcome is reported.
    *
    * @param payload - The payment payload to settle
    * @param requirements - The payment requirements
@@ -213,6 +344,94 @@ export class ExactSuiScheme implements SchemeNetworkFacilitator {
   async settle(
     payload: PaymentPayload,
     requirements: PaymentRequirements,
+  ): Promise<SettleResponse> {
+    const suiPayload = payload.payload as ExactSuiPayload;
+
+    // Undecodable payloads have no digest; verification reports why
+    let digest: string | undefined;
+    try {
+      digest = suiPayload?.transaction ? getTransactionDigest(suiPayload.transaction) : undefined;
+    } catch {
+      digest = undefined;
+    }
+
+    if (digest === undefined) {
+      return this.verifyAndExecute(payload, requirements);
+    }
+
+    const existing = await this.settlementStore.claim(digest, requirements);
+    if (existing) {
+      return this.replaySettlement(existing, digest, payload, requirements);
+    }
+
+    let response: SettleResponse | undefined;
+    try {
+      response = await this.verifyAndExecute(payload, requirements);
+      return response;
+    } finally {
+      if (response?.success) {
+        await this.settlementStore.complete(digest, response);
+      } else {
+        await this.settlementStore.release(digest);
+      }
+    }
+  }
+
+  /**
+   * Answer a settle for a digest that already has a settlement record.
+   *
+   * @param record - The existing settlement record
+   * @param digest - The transaction digest
+   * @param payload - The payment payload
+   * @param requirements - The payment requirements
+   * @returns The original response, or a failure if in flight or settled for other requirements
+   */
+  private replaySettlement(
+    record: SettlementRecord,
+    digest: string,
+    payload: PaymentPayload,
+    requirements: PaymentRequirements,
+  ): SettleResponse {
+    const previous = record.requirements;
+    const sameRequirements =
+      previous.network === requirements.network &&
+      previous.payTo === requirements.payTo &&
+      previous.amount === requirements.amount &&
+      coinTypesEqual(previous.asset, requirements.asset);
+
+    if (!sameRequirements) {
+      return {
+        success: false,
+        errorReason: "invalid_exact_sui_payload_transaction_already_settled",
+        errorMessage: "Transaction was already settled for different payment requirements",
+        transaction: digest,
+        network: payload.accepted.network,
+      };
+    }
+
+    if (record.status === "pending") {
+      return {
+        success: false,
+        errorReason: "settlement_in_progress",
+        errorMessage: "Transaction is already being settled",
+        transaction: digest,
+        network: payload.accepted.network,
+      };
+    }
+
+    return record.response;
+  }
+
+  /**
+   * Re-verify and broadcast a payment.
+   *
+   * @param payload - The payment payload to settle
+   * @param requirements - The payment requirements
+   * @returns Promise resolving to settlement response
+   */
+  private async verifyAndExecute(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements,
   ): Promise<SettleResponse> {
     // Defense-in-depth: re-verify before broadcasting
     const verification = await this.verify(payload, requirements);
@@ -227,38 +446,372 @@ export class ExactSuiScheme implements SchemeNetworkFacilitator {
     }
 
     const suiPayload = payload.payload as ExactSuiPayload;
+    const network = payload.accepted.network;
+
+    // The digest is fixed by the TransactionData bytes, so it is known before broadcasting
+    const digest = getTransactionDigest(suiPayload.transaction);
+    let executedDigest: string | undefined;
 
     try {
+      // Sponsored transactions need the gas owner's signature alongside the client's
+      // See spec appendix "Sponsored Transactions"
+      const sponsor = this.getSponsor(decodeTransactionData(suiPayload.transaction));
+      const signatures =
+        sponsor !== undefined
+          ? [suiPayload.signature, await this.signSponsored(suiPayload.transaction, sponsor)]
+          : suiPayload.signature;
+
       // Execute the transaction on-chain
-      // TODO(sponsorship): When gas sponsorship is implemented, pass [clientSig, sponsorSig] here.
-      // See spec appendix "Sponsored Transactions" and FacilitatorSuiSigner.executeTransaction().
-      const digest = await this.signer.executeTransaction(
+      executedDigest = await this.signer.executeTransaction(
         suiPayload.transaction,
-        suiPayload.signature,
+        signatures,
         requirements.network,
       );
 
       // Wait for finality
-      await this.signer.waitForTransaction(digest, requirements.network);
+      await this.signer.waitForTransaction(executedDigest, requirements.network);
 
       return {
         success: true,
-        transaction: digest,
-        network: payload.accepted.network,
+        transaction: executedDigest,
+        network,
         payer: verification.payer,
       };
     } catch (error) {
+      // Only an ambiguous failure (timeout, dropped connection, or one after the node accepted
+      // the transaction) may have landed: ask the chain what happened. Definitive failures,
+      // like a sponsor signing error or the node rejecting the transaction, fail immediately.
+      const status =
+        executedDigest !== undefined || isAmbiguousFailure(error)
+          ? await this.recoverTransactionStatus(digest, requirements.network)
+          : undefined;
+
+      if (status?.status === "success") {
+        return {
+          success: true,
+          transaction: digest,
+          network,
+          payer: verification.payer,
+        };
+      }
+
       return {
         success: false,
         errorReason: "transaction_failed",
-        errorMessage: error instanceof Error ? error.message : String(error),
-        transaction: "",
-        network: payload.accepted.network,
+        errorMessage:
+          status?.status === "failure"
+            ? `Transaction execution failed: ${status.error || "unknown error"}`
+            : error instanceof Error
+              ? error.message
+              : String(error),
+        transaction: status?.status === "failure" ? digest : "",
+        network,
         payer: verification.payer,
       };
     }
   }
 
+  /**
+   * Look up a transaction by digest with bounded retries.
+   * Lookup errors and "not_found" are retried until the attempts run out.
+   * Signers without getTransactionStatus cannot recover anything.
+   *
+   * @param digest - The transaction digest
+   * @param network - CAIP-2 network identifier
+   * @returns The on-chain status, or undefined if the transaction was never found
+   */
+  private async recoverTransactionStatus(
+    digest: string,
+    network: string,
+  ): Promise<SuiTransactionStatus | undefined> {
+    const attempts =
+      this.options.settlementRecoveryAttempts ?? DEFAULT_SETTLEMENT_RECOVERY_ATTEMPTS;
+    const delayMs = this.options.settlementRecoveryDelayMs ?? DEFAULT_SETTLEMENT_RECOVERY_DELAY_MS;
+    const getTransactionStatus = this.signer.getTransactionStatus?.bind(this.signer);
+    if (!getTransactionStatus) return undefined;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+
+      try {
+        const status = await getTransactionStatus(digest, network);
+        if (status.status !== "not_found") return status;
+      } catch {
+        // Lookup failed too; try again
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check that the transaction expires, has not expired, and expires no later
+   * than maxTimeoutSeconds allows.
+   *
+   * @param txData - The decoded transaction data
+   * @param epochInfo - The current epoch timing
+   * @param requirements - The payment requirements
+   * @returns A failed VerifyResponse, or undefined if the expiration is acceptable
+   */
+  private verifyExpiration(
+    txData: TransactionData,
+    epochInfo: SuiEpochInfo,
+    requirements: PaymentRequirements,
+  ): VerifyResponse | undefined {
+    const expirationEpoch = getTransactionExpirationEpoch(txData);
+    if (expirationEpoch === undefined) {
+      return {
+        isValid: false,
+        invalidReason: "invalid_exact_sui_payload_missing_expiration",
+        invalidMessage: "Transaction must set TransactionExpiration::Epoch",
+      };
+    }
+
+    if (expirationEpoch < epochInfo.epoch) {
+      return {
+        isValid: false,
+        invalidReason: "invalid_exact_sui_payload_transaction_expired",
+        invalidMessage: `Transaction expired at epoch ${expirationEpoch}, current epoch is ${epochInfo.epoch}`,
+      };
+    }
+
+    const maxEpoch = getExpirationEpoch(epochInfo, requirements.maxTimeoutSeconds);
+    if (expirationEpoch > maxEpoch) {
+      return {
+        isValid: false,
+        invalidReason: "invalid_exact_sui_payload_expiration_too_far",
+        invalidMessage: `Transaction expires at epoch ${expirationEpoch}, maxTimeoutSeconds allows at most ${maxEpoch}`,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check every PTB command against the configured allowlist.
+   * MoveCalls are matched by normalized "package::module::function" target.
+   *
+   * @param txData - The decoded transaction data
+   * @returns A failed VerifyResponse, or undefined if all commands are allowed
+   */
+  private verifyCommands(txData: TransactionData): VerifyResponse | undefined {
+    const allowlist = this.options.allowlist ?? DEFAULT_PTB_ALLOWLIST;
+    const allowedMoveCalls = allowlist.moveCalls.map(target => normalizeMoveCallTarget(target));
+
+    for (const [index, command] of txData.commands.entries()) {
+      const target =
+        command.$kind === "MoveCall"
+          ? normalizeMoveCallTarget(
+              `${command.MoveCall.package}::${command.MoveCall.module}::${command.MoveCall.function}`,
+            )
+          : undefined;
+      const allowed =
+        target !== undefined
+          ? allowedMoveCalls.includes(target)
+          : allowlist.commands.includes(command.$kind);
+
+      if (!allowed) {
+        return {
+          isValid: false,
+          invalidReason: "invalid_exact_sui_payload_command_not_allowed",
+          invalidMessage: `Command ${index} (${target ? `MoveCall ${target}` : command.$kind}) is not allowed`,
+          payer: txData.sender ?? undefined,
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Determine whether a transaction asks for gas sponsorship.
+   *
+   * @param txData - The decoded transaction data
+   * @returns The gas owner address if it differs from the sender, otherwise undefined
+   */
+  private getSponsor(txData: TransactionData): string | undefined {
+    const owner = txData.gasData.owner;
+    if (!owner || owner === txData.sender) return undefined;
+    return owner;
+  }
+
+  /**
+   * Co-sign a sponsored transaction as its gas owner.
+   *
+   * @param transaction - Base64-encoded transaction bytes
+   * @param sponsor - The gas owner address
+   * @returns Base64-encoded sponsor signature
+   * @throws Error if the signer cannot co-sign
+   */
+  private signSponsored(transaction: string, sponsor: string): Promise<string> {
+    if (!this.signer.signTransaction) {
+      throw new Error("Facilitator signer cannot co-sign sponsored transactions");
+    }
+    return this.signer.signTransaction(transaction, sponsor);
+  }
+
+  /**
+   * Check the gas data of a sponsored transaction against this facilitator's limits.
+   * The sponsor must be one of our signers, the budget must be within bounds,
+   * gas payment coins must be chosen, and the PTB must not touch the gas coin
+   * (which would spend the sponsor's SUI).
+   *
+   * @param txData - The decoded transaction data
+   * @param sponsor - The gas owner address
+   * @param network - The CAIP-2 network identifier
+   * @returns A failed VerifyResponse, or undefined if sponsorship is acceptable
+   */
+  private verifySponsorship(
+    txData: TransactionData,
+    sponsor: string,
+    network: string,
+  ): VerifyResponse | undefined {
+    const signers = this.getSigners(network).map(address => normalizeSuiAddress(address));
+    if (!signers.includes(sponsor)) {
+      return {
+        isValid: false,
+        invalidReason: "invalid_exact_sui_payload_unsupported_gas_sponsor",
+        invalidMessage: `Gas owner ${sponsor} is not a signer of this facilitator`,
+        payer: txData.sender ?? undefined,
+      };
+    }
+    if (!this.signer.signTransaction) {
+      return {
+        isValid: false,
+        invalidReason: "invalid_exact_sui_payload_unsupported_gas_sponsor",
+        invalidMessage: "This facilitator's signer cannot co-sign sponsored transactions",
+        payer: txData.sender ?? undefined,
+      };
+    }
+
+    const maxBudget = this.options.maxSponsoredGasBudget ?? DEFAULT_MAX_SPONSORED_GAS_BUDGET;
+    const { budget, payment } = txData.gasData;
+    if (budget === null || BigInt(budget) > maxBudget) {
+      return {
+        isValid: false,
+        invalidReason: "invalid_exact_sui_payload_gas_budget_exceeded",
+        invalidMessage: `Gas budget ${budget ?? "unset"} exceeds sponsored maximum ${maxBudget}`,
+        payer: txData.sender ?? undefined,
+      };
+    }
+
+    if (!payment || payment.length === 0) {
+      return {
+        isValid: false,
+        invalidReason: "invalid_exact_sui_payload_gas_payment_missing",
+        payer: txData.sender ?? undefined,
+      };
+    }
+
+    const usesGasCoin = txData.commands.some(command =>
+      getCommandArguments(command).some(arg => arg.$kind === "GasCoin"),
+    );
+    if (usesGasCoin) {
+      return {
+        isValid: false,
+        invalidReason: "invalid_exact_sui_payload_sponsored_gas_coin_used",
+        invalidMessage: "Sponsored transactions must not use the gas coin as a command argument",
+        payer: txData.sender ?? undefined,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Compare dry-run balance changes against the only ones a payment may cause:
+   * payer −payment, payTo +payment (in the required asset), and gas owner −gas (in SUI).
+   *
+   * @param dryRun - The dry-run result
+   * @param txData - The decoded transaction data
+   * @param requirements - The payment requirements
+   * @param payment - The amount the recipient received
+   * @returns Descriptions of every balance change that differs from expectations
+   */
+  private findUnexpectedBalanceChanges(
+    dryRun: DryRunTransactionBlockResponse,
+    txData: TransactionData,
+    requirements: PaymentRequirements,
+    payment: bigint,
+  ): string[] {
+    const key = (owner: string, coinType: string) =>
+      `${owner ? normalizeSuiAddress(owner) : "(non-address owner)"} ${normalizeStructTag(coinType)}`;
+    const add = (map: Map<string, bigint>, k: string, amount: bigint) =>
+      map.set(k, (map.get(k) ?? 0n) + amount);
+
+    const sender = txData.sender ?? "";
+    const gasOwner = txData.gasData.owner ?? sender;
+    const gasUsed = dryRun.effects?.gasUsed;
+    const gas = gasUsed
+      ? BigInt(gasUsed.computationCost) +
+        BigInt(gasUsed.storageCost) -
+        BigInt(gasUsed.storageRebate)
+      : 0n;
+
+    const expected = new Map<string, bigint>();
+    add(expected, key(sender, requirements.asset), -payment);
+    add(expected, key(requirements.payTo, requirements.asset), payment);
+    add(expected, key(gasOwner, SUI_COIN_TYPE), -gas);
+
+    const actual = new Map<string, bigint>();
+    for (const change of dryRun.balanceChanges ?? []) {
+      add(actual, key(this.extractAddress(change.owner), change.coinType), BigInt(change.amount));
+    }
+
+    const unexpected: string[] = [];
+    for (const k of new Set([...expected.keys(), ...actual.keys()])) {
+      const want = expected.get(k) ?? 0n;
+      const got = actual.get(k) ?? 0n;
+      if (want !== got) {
+        unexpected.push(`${k} changed by ${got} (expected ${want})`);
+      }
+    }
+    return unexpected;
+  }
+
+  /**
+   * Find non-coin objects that leave the payer's control: transferred or re-owned
+   * to someone else, frozen, wrapped, or deleted. Coin movements are covered by
+   * the balance change check.
+   *
+   * @param dryRun - The dry-run result
+   * @param txData - The decoded transaction data
+   * @returns Descriptions of every unexpected object change
+   */
+  private findUnexpectedObjectChanges(
+    dryRun: DryRunTransactionBlockResponse,
+    txData: TransactionData,
+  ): string[] {
+    const sender = txData.sender ?? "";
+    const unexpected: string[] = [];
+
+    for (const change of dryRun.objectChanges ?? []) {
+      if (change.type === "published") {
+        unexpected.push(`published package ${change.packageId}`);
+        continue;
+      }
+      if (change.type === "created" || isCoinObjectType(change.objectType)) {
+        continue;
+      }
+
+      const describe = `${change.type} ${change.objectType} ${change.objectId}`;
+      if (change.type === "deleted" || change.type === "wrapped") {
+        unexpected.push(describe);
+        continue;
+      }
+
+      const owner = change.type === "transferred" ? change.recipient : change.owner;
+      const isShared = typeof owner === "object" && owner !== null && "Shared" in owner;
+      const address = this.extractAddress(owner);
+      if (!isShared && (!address || normalizeSuiAddress(address) !== sender)) {
+        unexpected.push(`${describe} to ${address || JSON.stringify(owner)}`);
+      }
+    }
+    return unexpected;
+  }
+
   /**
    * Extract the Sui address from an ObjectOwner in balance changes.
    * Only matches AddressOwner — ObjectOwner (child objects) and Shared/Immutable
@@ -275,3 +828,40 @@ export class ExactSuiScheme implements SchemeNetworkFacilitator {
     return "";
   }
 }
+
+/**
+ * Map a verification failure to a VerifyResponse.
+ * Typed errors carry their own invalidReason; anything else is reported as a simulation failure.
+ *
+ * @param error - The thrown error
+ * @returns A failed VerifyResponse with a stable invalidReason and structured invalidMessage
+ */
+function toInvalidResponse(error: unknown): VerifyResponse {
+  const verificationError =
+    error instanceof SuiVerificationError
+      ? error
+      : new SuiVerificationError(error instanceof Error ? error.message : String(error));
+
+  return {
+    isValid: false,
+    invalidReason: verificationError.reason,
+    invalidMessage: verificationError.toInvalidMessage(),
+    payer: undefined,
+  };
+}
+
+/**
+ * Check whether an execution failure leaves it unknown if the transaction landed.
+ *
+ * @param error - The error thrown while submitting the transaction
+ * @returns true for transport failures and timeouts, false for definitive failures
+ */
+function isAmbiguousFailure(error: unknown): boolean {
+  if (isTransportFailure(error) || error instanceof SuiRpcError) return true;
+  if (!(error instanceof Error)) return false;
+  return (
+    error.name === "TimeoutError" ||
+    error.name === "AbortError" ||
+    /timed? ?out|timeout/i.test(error.message)
+  );
+}
@@ -1,3 +1,4 @@
 export { ExactSuiScheme } from "./scheme";
+export type { ExactSuiServerOptions } from "./scheme";
 export { registerExactSuiScheme } from "./register";
 export type { SuiResourceServerConfig } from "./register";
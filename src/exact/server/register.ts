@@ -1,6 +1,8 @@
 import { x402ResourceServer } from "@x402/core/server";
 import type { Network } from "@x402/core/types";
+import type { SuiNetworkRegistry } from "../../networks";
 import { ExactSuiScheme } from "./scheme";
+import type { ExactSuiServerOptions } from "./scheme";
 
 /**
  * Configuration options for registering Sui schemes to an x402ResourceServer
@@ -11,6 +13,16 @@ export interface SuiResourceServerConfig {
    * If not provided, registers with "sui:*" wildcard.
    */
   networks?: Network[];
+
+  /**
+   * Optional network registry for default stablecoins (defaults to suiNetworks)
+   */
+  networkRegistry?: SuiNetworkRegistry;
+
+  /**
+   * Optional scheme settings (e.g., a price feed for charging USD prices in SUI)
+   */
+  schemeOptions?: ExactSuiServerOptions;
 }
 
 /**
@@ -26,10 +38,10 @@ export function registerExactSuiScheme(
 ): x402ResourceServer {
   if (config.networks && config.networks.length > 0) {
     config.networks.forEach(network => {
-      server.register(network, new ExactSuiScheme());
+      server.register(network, new ExactSuiScheme(config.networkRegistry, config.schemeOptions));
     });
   } else {
-    server.register("sui:*", new ExactSuiScheme());
+    server.register("sui:*", new ExactSuiScheme(config.networkRegistry, config.schemeOptions));
   }
 
   return server;
@@ -6,8 +6,61 @@ import type {
   SchemeNetworkServer,
   MoneyParser,
 } from "@x402/core/types";
-import { convertToTokenAmount, getUsdcCoinType } from "../../utils";
-import { USDC_DECIMALS } from "../../constants";
+import { SuiCoinRegistry, suiCoins } from "../../coins";
+import {
+  DEFAULT_PRICE_QUOTE_TTL_SECONDS,
+  DEFAULT_PRICE_SLIPPAGE_BPS,
+  SUI_COIN_TYPE,
+  SUI_DECIMALS,
+} from "../../constants";
+import { suiNetworks } from "../../networks";
+import type { SuiNetworkRegistry } from "../../networks";
+import type { PriceFeed } from "../../priceFeed";
+import type { SuiAmountConversionOptions, SuiOraclePriceQuote } from "../../types";
+import { convertToTokenAmount, formatTokenAmount, getDefaultStablecoin } from "../../utils";
+
+/**
+ * Optional settings for the server ExactSuiScheme. `rounding` and `rejectExcessPrecision`
+ * apply when a price is converted to the coin it is charged in (not to oracle conversion,
+ * which always rounds up).
+ */
+export interface ExactSuiServerOptions extends SuiAmountConversionOptions {
+  /**
+   * Exchange rates for charging USD prices in `priceAsset` instead of the default
+   * stablecoin. Custom money parsers still take precedence.
+   */
+  priceFeed?: PriceFeed;
+
+  /**
+   * Coin USD prices are charged in when a priceFeed is set (default SUI): a coin type or
+   * symbol resolved through the coin registry, or its type and decimals
+   */
+  priceAsset?: string | { coinType: string; decimals: number };
+
+  /**
+   * Registry prices like "2.5 DEEP" or "2.5 0x…::deep::DEEP" resolve their coin through
+   * (defaults to suiCoins, or a registry on `networkRegistry` when that is not suiNetworks)
+   */
+  coinRegistry?: SuiCoinRegistry;
+
+  /**
+   * Margin added over the oracle rate to absorb price movement, in basis points
+   * (default DEFAULT_PRICE_SLIPPAGE_BPS)
+   */
+  slippageBps?: number;
+
+  /**
+   * How long a fetched rate is reused, in seconds (default DEFAULT_PRICE_QUOTE_TTL_SECONDS).
+   * Payment requirements stay identical while the quote lasts, so payments made against
+   * them still match; afterwards clients are quoted the new rate.
+   */
+  quoteTtlSeconds?: number;
+}
+
+/**
+ * Number of decimals USD amounts and rates are scaled by for oracle conversion
+ */
+const USD_DECIMALS = 12;
 
 /**
  * Sui server implementation for the Exact payment scheme.
@@ -16,13 +69,32 @@ import { USDC_DECIMALS } from "../../constants";
 export class ExactSuiScheme implements SchemeNetworkServer {
   readonly scheme = "exact";
   private moneyParsers: MoneyParser[] = [];
+  private readonly quotes = new Map<string, Promise<{ rate: string; quotedAt: number }>>();
+  private readonly coinRegistry: SuiCoinRegistry;
+
+  /**
+   * Creates a new ExactSuiScheme server instance.
+   *
+   * @param networkRegistry - Registry to resolve each network's default stablecoin in
+   * @param options - Optional oracle pricing and coin resolution settings
+   */
+  constructor(
+    private readonly networkRegistry: SuiNetworkRegistry = suiNetworks,
+    private readonly options: ExactSuiServerOptions = {},
+  ) {
+    this.coinRegistry =
+      options.coinRegistry ??
+      (networkRegistry === suiNetworks
+        ? suiCoins
+        : new SuiCoinRegistry(undefined, { networkRegistry }));
+  }
 
   /**
    * Register a custom money parser in the parser chain.
    * Multiple parsers can be registered — they are tried in registration order.
    * Each parser receives a decimal amount (e.g., 1.50 for $1.50).
    * If a parser returns null, the next parser in the chain will be tried.
-   * The default parser (USDC) is always the final fallback.
+   * The price feed (if configured) or the default stablecoin is always the final fallback.
    *
    * @param parser - Custom function to convert amount to AssetAmount (or null to skip)
    * @returns The scheme instance for chaining
@@ -32,11 +104,25 @@ export class ExactSuiScheme implements SchemeNetworkServer {
     return this;
   }
 
+  /**
+   * Check that the network's RPC endpoints serve the chain its CAIP-2 id names.
+   * Call at startup so a misconfigured network fails before any payment is requested.
+   *
+   * @param network - The CAIP-2 network identifier
+   * @param rpcUrls - Endpoints to check (defaults to the registry's rpcUrls)
+   * @throws SuiChainMismatchError if an endpoint serves another chain
+   */
+  async verifyNetwork(network: Network, rpcUrls?: readonly string[]): Promise<void> {
+    await this.networkRegistry.verifyChainIdentifier(network, rpcUrls);
+  }
+
   /**
    * Parses a price into an asset amount.
    * If price is already an AssetAmount, returns it directly.
-   * If price is Money (string | number), parses to decimal and tries custom parsers.
-   * Falls back to USDC conversion if all custom parsers return null.
+   * Prices naming a coin by symbol or coin type ("0.5 SUI", "2.5 0x…::deep::DEEP") are
+   * charged in that coin as written, its decimals resolved through the coin registry.
+   * Other Money (string | number) is a USD price: custom parsers are tried first, then the
+   * price feed's rate for `priceAsset` if one is configured, then the default stablecoin.
    *
    * @param price - The price to parse
    * @param network - The CAIP-2 network identifier
@@ -56,16 +142,30 @@ export class ExactSuiScheme implements SchemeNetworkServer {
     }
 
     // Parse Money to decimal number
-    const amount = this.parseMoneyToDecimal(price);
+    const { amount, coin } = this.parseMoneyToDecimal(price);
+
+    // A price in a named coin needs no conversion
+    if (coin) {
+      const { coinType, decimals } = await this.coinRegistry.resolve(coin, network);
+      return {
+        amount: convertToTokenAmount(amount, decimals, this.options),
+        asset: coinType,
+        extra: {},
+      };
+    }
 
     // Try each custom money parser in order
     for (const parser of this.moneyParsers) {
-      const result = await parser(amount, network);
+      const result = await parser(Number(amount), network);
       if (result !== null) {
         return result;
       }
     }
 
+    if (this.options.priceFeed) {
+      return this.oracleMoneyConversion(amount, network, this.options.priceFeed);
+    }
+
     // All custom parsers returned null, use default USDC conversion
     return this.defaultMoneyConversion(amount, network);
   }
@@ -106,43 +206,140 @@ export class ExactSuiScheme implements SchemeNetworkServer {
   }
 
   /**
-   * Parse Money (string | number) to a decimal number.
-   * Handles formats like "$1.50", "1.50", "1.50 USDC", 1.50, etc.
+   * Parse Money (string | number) to a decimal string and the coin it names.
+   * Handles formats like "$1.50", "1.50", "1.50 USDC", 1.50 (all USD), and "0.5 SUI" or
+   * "2.5 0x…::deep::DEEP" (in that coin). The digits are kept as written so conversion
+   * is exact.
    *
    * @param money - The money value to parse
-   * @returns Decimal number
+   * @returns Decimal string, and the coin symbol or type unless it is a USD amount
    */
-  private parseMoneyToDecimal(money: string | number): number {
+  private parseMoneyToDecimal(money: string | number): { amount: string; coin?: string } {
     if (typeof money === "number") {
-      return money;
+      if (!Number.isFinite(money) || money < 0) {
+        throw new Error(`Invalid money format: ${money}`);
+      }
+      return { amount: String(money) };
     }
 
-    // Remove $ sign, currency suffixes, and whitespace
-    const cleanMoney = money
-      .replace(/^\$/, "")
-      .replace(/\s*(USDC|USD|SUI)\s*$/i, "")
-      .trim();
-    const amount = parseFloat(cleanMoney);
-
-    if (isNaN(amount)) {
+    // Split off the $ sign and any currency suffix
+    const match = /^\$?\s*((?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*(\S*)$/i.exec(money.trim());
+    if (!match) {
       throw new Error(`Invalid money format: ${money}`);
     }
 
-    return amount;
+    const [, amount, suffix] = match;
+    return /^(USDC?)?$/i.test(suffix) ? { amount } : { amount, coin: suffix };
+  }
+
+  /**
+   * Oracle money conversion — charges a USD amount in `priceAsset` at the feed's rate plus
+   * the slippage margin, rounding up, and records the quote in `extra.priceQuote`.
+   *
+   * @param amount - The decimal USD amount (e.g., "1.50")
+   * @param network - The CAIP-2 network identifier
+   * @param priceFeed - The feed to take the rate from
+   * @returns AssetAmount in the price asset
+   */
+  private async oracleMoneyConversion(
+    amount: string,
+    network: Network,
+    priceFeed: PriceFeed,
+  ): Promise<AssetAmount> {
+    const { coinType, decimals } = await this.resolvePriceAsset(network);
+    const slippageBps = this.options.slippageBps ?? DEFAULT_PRICE_SLIPPAGE_BPS;
+    const ttlMs = (this.options.quoteTtlSeconds ?? DEFAULT_PRICE_QUOTE_TTL_SECONDS) * 1000;
+    const { rate, quotedAt } = await this.getQuote(priceFeed, coinType, network, ttlMs);
+
+    const usd = BigInt(convertToTokenAmount(amount, USD_DECIMALS, { rounding: "up" }));
+    const usdPerCoin = BigInt(convertToTokenAmount(rate, USD_DECIMALS));
+    if (usdPerCoin <= 0n) {
+      throw new Error(`Price feed returned a non-positive rate for ${coinType}: ${rate}`);
+    }
+    const numerator = usd * 10n ** BigInt(decimals) * BigInt(10_000 + slippageBps);
+    const denominator = usdPerCoin * 10_000n;
+    const tokenAmount = (numerator + denominator - 1n) / denominator;
+
+    const priceQuote: SuiOraclePriceQuote = {
+      usdAmount: formatTokenAmount(usd, USD_DECIMALS),
+      rate,
+      slippageBps,
+      quotedAt,
+      expiresAt: quotedAt + ttlMs,
+    };
+    return {
+      amount: tokenAmount.toString(),
+      asset: coinType,
+      extra: { priceQuote },
+    };
+  }
+
+  /**
+   * Resolve the coin USD prices are charged in under a price feed.
+   *
+   * @param network - The CAIP-2 network identifier
+   * @returns The price asset's coin type and decimals
+   */
+  private async resolvePriceAsset(
+    network: Network,
+  ): Promise<{ coinType: string; decimals: number }> {
+    const priceAsset = this.options.priceAsset;
+    if (typeof priceAsset === "string") {
+      return this.coinRegistry.resolve(priceAsset, network);
+    }
+    return priceAsset ?? { coinType: SUI_COIN_TYPE, decimals: SUI_DECIMALS };
+  }
+
+  /**
+   * Get the feed's rate for a coin, reusing a quote until it expires so requirements built
+   * within its lifetime are identical.
+   *
+   * @param priceFeed - The feed to ask
+   * @param coinType - The coin type to price
+   * @param network - The CAIP-2 network identifier
+   * @param ttlMs - How long a quote is reused
+   * @returns The rate (USD per whole coin) and when it was fetched
+   */
+  private async getQuote(
+    priceFeed: PriceFeed,
+    coinType: string,
+    network: Network,
+    ttlMs: number,
+  ): Promise<{ rate: string; quotedAt: number }> {
+    const key = `${network}:${coinType}`;
+    const cached = this.quotes.get(key);
+    if (cached) {
+      const quote = await cached;
+      if (Date.now() < quote.quotedAt + ttlMs) return quote;
+      // Another caller may already be fetching the next quote
+      const next = this.quotes.get(key);
+      if (next && next !== cached) return next;
+    }
+
+    const quoting = priceFeed
+      .getUsdPrice(coinType, network)
+      .then(rate => ({ rate: String(rate), quotedAt: Date.now() }));
+    quoting.catch(() => {
+      // A newer quote may have replaced this one meanwhile
+      if (this.quotes.get(key) === quoting) this.quotes.delete(key);
+    });
+    this.quotes.set(key, quoting);
+    return quoting;
   }
 
   /**
-   * Default money conversion — converts to USDC on the specified Sui network.
+   * Default money conversion — converts to the network's default stablecoin (USDC on public networks).
    *
-   * @param amount - The decimal amount (e.g., 1.50)
+   * @param amount - The decimal amount (e.g., "1.50")
    * @param network - The CAIP-2 network identifier
-   * @returns AssetAmount in USDC
+   * @returns AssetAmount in the default stablecoin
    */
-  private defaultMoneyConversion(amount: number, network: Network): AssetAmount {
-    const tokenAmount = convertToTokenAmount(amount.toString(), USDC_DECIMALS);
+  private defaultMoneyConversion(amount: string, network: Network): AssetAmount {
+    const { coinType, decimals } = getDefaultStablecoin(network, this.networkRegistry);
+    const tokenAmount = convertToTokenAmount(amount, decimals, this.options);
     return {
       amount: tokenAmount,
-      asset: getUsdcCoinType(network),
+      asset: coinType,
       extra: {},
     };
   }
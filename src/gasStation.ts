@@ -0,0 +1,161 @@
+import { TransactionDataBuilder } from "@mysten/sui/transactions";
+import type { ObjectRef } from "@mysten/sui/transactions";
+import { fromBase64, normalizeSuiAddress, toBase64 } from "@mysten/sui/utils";
+import type { GasStationSponsorRequest, GasStationSponsorResponse } from "./types";
+import { decodeTransactionData, getTransactionExpirationEpoch } from "./utils";
+
+/**
+ * Ask a gas station to attach sponsored gas to a TransactionKind.
+ * POSTs a GasStationSponsorRequest as JSON to the gas station URL.
+ *
+ * @param url - The gas station URL (from PaymentRequirements.extra.gasStation)
+ * @param request - The sponsorship request
+ * @param fetchFn - Optional fetch implementation (defaults to global fetch)
+ * @returns The gas station's sponsored TransactionData
+ */
+export async function requestGasSponsorship(
+  url: string,
+  request: GasStationSponsorRequest,
+  fetchFn: typeof fetch = fetch,
+): Promise<GasStationSponsorResponse> {
+  const response = await fetchFn(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Gas station request failed (${response.status}): ${await response.text()}`);
+  }
+
+  const body = (await response.json()) as Partial<GasStationSponsorResponse>;
+  if (typeof body.transaction !== "string" || typeof body.sponsor !== "string") {
+    throw new Error("Gas station returned a malformed response");
+  }
+
+  return { transaction: body.transaction, sponsor: body.sponsor };
+}
+
+/**
+ * Check that a gas station only attached gas to the requested transaction.
+ * The sender, expiration, and TransactionKind must be unchanged and GasData.owner
+ * must be the sponsor.
+ *
+ * @param request - The request sent to the gas station
+ * @param response - The gas station's response
+ * @throws Error if the sponsored transaction differs from what was requested
+ */
+export function assertSponsoredTransaction(
+  request: GasStationSponsorRequest,
+  response: GasStationSponsorResponse,
+): void {
+  const txData = decodeTransactionData(response.transaction);
+  const sender = normalizeSuiAddress(request.sender);
+
+  if (txData.sender !== sender) {
+    throw new Error(`Gas station changed the sender: expected ${sender}, got ${txData.sender}`);
+  }
+
+  const owner = txData.gasData.owner;
+  if (!owner || owner === sender || owner !== normalizeSuiAddress(response.sponsor)) {
+    throw new Error(`Gas station returned unexpected gas owner: ${owner ?? "unset"}`);
+  }
+
+  const expirationEpoch = getTransactionExpirationEpoch(txData);
+  if (expirationEpoch !== request.expirationEpoch) {
+    throw new Error(
+      `Gas station changed the expiration: expected ${request.expirationEpoch ?? "none"}, got ${expirationEpoch ?? "none"}`,
+    );
+  }
+
+  const kind = toBase64(txData.build({ onlyTransactionKind: true }));
+  if (kind !== request.transactionKind) {
+    throw new Error("Gas station modified the transaction commands or inputs");
+  }
+}
+
+/**
+ * Configuration for an in-process gas station stub
+ */
+export interface LocalGasStationConfig {
+  /**
+   * Sponsor address set as GasData.owner
+   */
+  sponsor: string;
+
+  /**
+   * Sponsor-owned gas coins to attach as GasData.payment
+   */
+  gasPayment: ObjectRef[];
+
+  /**
+   * Gas price in MIST
+   */
+  gasPrice: bigint | number;
+
+  /**
+   * Gas budget in MIST
+   */
+  gasBudget: bigint | number;
+}
+
+/**
+ * An in-process gas station that speaks the gas station HTTP format
+ */
+export interface LocalGasStation {
+  /**
+   * Attach sponsored gas to a TransactionKind
+   *
+   * @param request - The sponsorship request
+   * @returns The sponsored TransactionData
+   */
+  sponsorTransaction(request: GasStationSponsorRequest): GasStationSponsorResponse;
+
+  /**
+   * A fetch-compatible handler, for passing to a client scheme in place of HTTP
+   */
+  fetch: typeof fetch;
+}
+
+/**
+ * Create an in-process gas station stub for tests and local development.
+ * Attaches fixed gas data without any network access; the sponsor's signature
+ * is added later by the facilitator at settlement.
+ *
+ * @param config - Sponsor address and gas data to attach
+ * @returns A LocalGasStation instance
+ */
+export function createLocalGasStation(config: LocalGasStationConfig): LocalGasStation {
+  const sponsorTransaction = (request: GasStationSponsorRequest): GasStationSponsorResponse => {
+    const builder = TransactionDataBuilder.fromKindBytes(fromBase64(request.transactionKind));
+    builder.sender = normalizeSuiAddress(request.sender);
+    if (request.expirationEpoch !== undefined) {
+      builder.expiration = { $kind: "Epoch", Epoch: request.expirationEpoch };
+    }
+    builder.gasData = {
+      owner: normalizeSuiAddress(config.sponsor),
+      payment: config.gasPayment,
+      price: config.gasPrice.toString(),
+      budget: config.gasBudget.toString(),
+    };
+
+    return {
+      transaction: toBase64(builder.build()),
+      sponsor: normalizeSuiAddress(config.sponsor),
+    };
+  };
+
+  return {
+    sponsorTransaction,
+
+    async fetch(_: string | URL | Request, init?: RequestInit): Promise<Response> {
+      try {
+        const request = JSON.parse(String(init?.body)) as GasStationSponsorRequest;
+        return Response.json(sponsorTransaction(request));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return new Response(message, { status: 400 });
+      }
+    },
+  };
+}
@@ -0,0 +1,547 @@
+import type { DryRunTransactionBlockResponse, ObjectOwner } from "@mysten/sui/client";
+import { SuiGraphQLClient } from "@mysten/sui/graphql";
+import type { Signer } from "@mysten/sui/cryptography";
+import { fromBase64 } from "@mysten/sui/utils";
+import {
+  classifyRpcError,
+  isTransportFailure,
+  parseTransactionRejection,
+  SuiChainMismatchError,
+} from "./errors";
+import { suiNetworks } from "./networks";
+import type { SuiNetworkRegistry } from "./networks";
+import { recoverSigner } from "./signer";
+import type { FacilitatorSuiSigner } from "./signer";
+import type { SuiEpochInfo, SuiTransactionStatus } from "./types";
+import { decodeTransactionData, isEpochOver } from "./utils";
+import { createGraphQLZkLoginProvider } from "./zklogin";
+import type { ZkLoginProvider } from "./zklogin";
+
+/**
+ * Configuration for the GraphQL facilitator signer
+ */
+export interface GraphQLFacilitatorSuiSignerConfig {
+  /**
+   * Optional per-network GraphQL URL mapping (defaults to the registry's graphqlUrl)
+   */
+  graphqlUrls?: Record<string, string>;
+
+  /**
+   * Optional network registry for default GraphQL URLs and expected chain identifiers
+   * (defaults to suiNetworks)
+   */
+  networkRegistry?: SuiNetworkRegistry;
+
+  /**
+   * Optional zkLogin provider (defaults to GraphQL on the same endpoints)
+   */
+  zkLoginProvider?: ZkLoginProvider;
+
+  /**
+   * How long waitForTransaction polls before giving up, in milliseconds (default 60s)
+   */
+  waitTimeoutMs?: number;
+
+  /**
+   * Delay between waitForTransaction polls, in milliseconds (default 1s)
+   */
+  pollIntervalMs?: number;
+}
+
+const OBJECT_STATE_FRAGMENT = `
+fragment OBJECT_STATE on Object {
+  version
+  digest
+  owner {
+    __typename
+    ... on AddressOwner { address { address } }
+    ... on ObjectOwner { address { address } }
+    ... on ConsensusAddressOwner { address { address } startVersion }
+    ... on Shared { initialSharedVersion }
+  }
+  asMoveObject { contents { type { repr } } }
+  asMovePackage { address }
+}`;
+
+const SIMULATE_TRANSACTION_QUERY = `
+query simulateTransaction($transaction: JSON!) {
+  simulateTransaction(transaction: $transaction) {
+    error
+    effects {
+      digest
+      status
+      executionError { message }
+      gasEffects {
+        gasSummary { computationCost storageCost storageRebate nonRefundableStorageFee }
+      }
+      balanceChanges(first: 50) {
+        pageInfo { hasNextPage }
+        nodes { owner { address } coinType { repr } amount }
+      }
+      objectChanges(first: 50) {
+        pageInfo { hasNextPage }
+        nodes {
+          address
+          idCreated
+          idDeleted
+          inputState { ...OBJECT_STATE }
+          outputState { ...OBJECT_STATE }
+        }
+      }
+    }
+  }
+}
+${OBJECT_STATE_FRAGMENT}`;
+
+const EXECUTE_TRANSACTION_MUTATION = `
+mutation executeTransaction($transactionDataBcs: Base64!, $signatures: [Base64!]!) {
+  executeTransaction(transactionDataBcs: $transactionDataBcs, signatures: $signatures) {
+    errors
+    effects {
+      digest
+      status
+      executionError { message }
+    }
+  }
+}`;
+
+const GET_TRANSACTION_QUERY = `
+query getTransaction($digest: String!) {
+  transaction(digest: $digest) {
+    effects {
+      status
+      executionError { message }
+    }
+  }
+}`;
+
+const GET_EPOCH_QUERY = `
+query getEpoch {
+  epoch {
+    epochId
+    startTimestamp
+    systemParameters { durationMs }
+  }
+}`;
+
+const GET_CHAIN_IDENTIFIER_QUERY = `
+query getChainIdentifier {
+  chainIdentifier
+}`;
+
+type GraphQLExecutionStatus = "SUCCESS" | "FAILURE";
+
+type GraphQLOwner =
+  | { __typename: "AddressOwner" | "ObjectOwner"; address: { address: string } | null }
+  | {
+      __typename: "ConsensusAddressOwner";
+      address: { address: string } | null;
+      startVersion: number;
+    }
+  | { __typename: "Shared"; initialSharedVersion: number }
+  | { __typename: "Immutable" };
+
+type GraphQLObjectState = {
+  version: number;
+  digest: string | null;
+  owner: GraphQLOwner | null;
+  asMoveObject: { contents: { type: { repr: string } } | null } | null;
+  asMovePackage: { address: string } | null;
+};
+
+type GraphQLObjectChange = {
+  address: string;
+  idCreated: boolean | null;
+  idDeleted: boolean | null;
+  inputState: GraphQLObjectState | null;
+  outputState: GraphQLObjectState | null;
+};
+
+type GraphQLSimulatedEffects = {
+  digest: string;
+  status: GraphQLExecutionStatus | null;
+  executionError: { message: string } | null;
+  gasEffects: {
+    gasSummary: {
+      computationCost: number;
+      storageCost: number;
+      storageRebate: number;
+      nonRefundableStorageFee: number;
+    } | null;
+  } | null;
+  balanceChanges: {
+    pageInfo: { hasNextPage: boolean };
+    nodes: Array<{
+      owner: { address: string } | null;
+      coinType: { repr: string } | null;
+      amount: string | null;
+    }>;
+  } | null;
+  objectChanges: {
+    pageInfo: { hasNextPage: boolean };
+    nodes: GraphQLObjectChange[];
+  } | null;
+};
+
+/**
+ * Default time waitForTransaction polls before giving up
+ */
+const DEFAULT_WAIT_TIMEOUT_MS = 60_000;
+
+/**
+ * Default delay between waitForTransaction polls
+ */
+const DEFAULT_POLL_INTERVAL_MS = 1_000;
+
+/**
+ * Create a FacilitatorSuiSigner that talks to Sui GraphQL instead of JSON-RPC.
+ * Simulation results are normalized to the DryRunTransactionBlockResponse shape
+ * the exact scheme consumes, so it is a drop-in replacement for toFacilitatorSuiSigner.
+ * Each network's chain identifier is checked against the registry before first use.
+ *
+ * @param config - Optional configuration (custom GraphQL URLs, zkLogin provider, polling)
+ * @param keypair - Optional keypair for gas sponsorship signing
+ * @returns A FacilitatorSuiSigner instance
+ */
+export function toGraphQLFacilitatorSuiSigner(
+  config?: GraphQLFacilitatorSuiSignerConfig,
+  keypair?: Signer,
+): FacilitatorSuiSigner {
+  const registry = config?.networkRegistry ?? suiNetworks;
+  const clientCache = new Map<string, { url: string; client: SuiGraphQLClient }>();
+  const chainChecks = new Map<string, Promise<void>>();
+  const epochCache = new Map<string, SuiEpochInfo>();
+
+  const getEndpoint = (network: string): { url: string; client: SuiGraphQLClient } => {
+    const cached = clientCache.get(network);
+    if (cached) return cached;
+
+    const url = config?.graphqlUrls?.[network] ?? registry.resolve(network).graphqlUrl;
+    if (!url) {
+      throw new Error(`No GraphQL URL configured for network: ${network}`);
+    }
+
+    const endpoint = { url, client: new SuiGraphQLClient({ url }) };
+    clientCache.set(network, endpoint);
+    return endpoint;
+  };
+
+  const verifyNetwork = (network: string): Promise<void> => {
+    const expected = registry.get(network)?.chainIdentifier;
+    if (!expected) return Promise.resolve();
+
+    let check = chainChecks.get(network);
+    if (!check) {
+      const { url, client } = getEndpoint(network);
+      check = query<{ chainIdentifier: string }>(client, GET_CHAIN_IDENTIFIER_QUERY).then(
+        ({ chainIdentifier }) => {
+          if (chainIdentifier !== expected) {
+            throw new SuiChainMismatchError(network, url, expected, chainIdentifier);
+          }
+        },
+      );
+      // A node that could not be reached is checked again on the next request
+      check.catch(error => {
+        if (isTransportFailure(error)) chainChecks.delete(network);
+      });
+      chainChecks.set(network, check);
+    }
+    return check;
+  };
+
+  const request = async <T>(
+    network: string,
+    document: string,
+    variables: Record<string, unknown> = {},
+  ): Promise<T> => {
+    await verifyNetwork(network);
+    return query<T>(getEndpoint(network).client, document, variables);
+  };
+
+  const zkLoginProvider =
+    config?.zkLoginProvider ?? createGraphQLZkLoginProvider(config?.graphqlUrls, registry);
+
+  const getTransactionStatus = async (
+    digest: string,
+    network: string,
+  ): Promise<SuiTransactionStatus> => {
+    const { transaction } = await request<{
+      transaction: {
+        effects: {
+          status: GraphQLExecutionStatus | null;
+          executionError: { message: string } | null;
+        } | null;
+      } | null;
+    }>(network, GET_TRANSACTION_QUERY, { digest });
+
+    const status = transaction?.effects?.status;
+    if (!status) return { status: "not_found" };
+    return status === "SUCCESS"
+      ? { status: "success" }
+      : { status: "failure", error: transaction.effects?.executionError?.message };
+  };
+
+  return {
+    getAddresses(): readonly string[] {
+      if (!keypair) return [];
+      return [keypair.toSuiAddress()];
+    },
+
+    async verifySignature(
+      transactionBytes: string,
+      signature: string,
+      network: string,
+    ): Promise<string> {
+      return recoverSigner(transactionBytes, signature, network, zkLoginProvider);
+    },
+
+    async simulateTransaction(
+      transactionBytes: string,
+      network: string,
+    ): Promise<DryRunTransactionBlockResponse> {
+      let result;
+      try {
+        ({ simulateTransaction: result } = await request<{
+          simulateTransaction: { error: string | null; effects: GraphQLSimulatedEffects | null };
+        }>(network, SIMULATE_TRANSACTION_QUERY, {
+          transaction: { bcs: { value: transactionBytes } },
+        }));
+      } catch (error) {
+        throw classifyRpcError(error);
+      }
+
+      if (result.error || !result.effects) {
+        throw parseTransactionRejection(result.error ?? "Simulation returned no effects");
+      }
+
+      const sender = decodeTransactionData(transactionBytes).sender ?? "";
+      return toDryRunResponse(result.effects, sender);
+    },
+
+    async getEpochInfo(network: string): Promise<SuiEpochInfo> {
+      const cached = epochCache.get(network);
+      if (cached && !isEpochOver(cached)) return cached;
+
+      const { epoch } = await request<{
+        epoch: {
+          epochId: number;
+          startTimestamp: string;
+          systemParameters: { durationMs: string } | null;
+        } | null;
+      }>(network, GET_EPOCH_QUERY).catch(error => {
+        throw classifyRpcError(error);
+      });
+      if (!epoch?.systemParameters) {
+        throw classifyRpcError(new Error("Epoch information is not available"));
+      }
+
+      const epochInfo = {
+        epoch: Number(epoch.epochId),
+        epochStartTimestampMs: Date.parse(epoch.startTimestamp),
+        epochDurationMs: Number(epoch.systemParameters.durationMs),
+      };
+      epochCache.set(network, epochInfo);
+      return epochInfo;
+    },
+
+    async signTransaction(transactionBytes: string, address: string): Promise<string> {
+      if (!keypair || keypair.toSuiAddress() !== address) {
+        throw new Error(`No sponsor keypair available for address: ${address}`);
+      }
+      const { signature } = await keypair.signTransaction(fromBase64(transactionBytes));
+      return signature;
+    },
+
+    async executeTransaction(
+      transaction: string,
+      signature: string | string[],
+      network: string,
+    ): Promise<string> {
+      const { executeTransaction: result } = await request<{
+        executeTransaction: {
+          errors: string[] | null;
+          effects: {
+            digest: string;
+            status: GraphQLExecutionStatus | null;
+            executionError: { message: string } | null;
+          } | null;
+        };
+      }>(network, EXECUTE_TRANSACTION_MUTATION, {
+        transactionDataBcs: transaction,
+        signatures: [signature].flat(),
+      });
+
+      if (result.errors?.length || result.effects?.status !== "SUCCESS") {
+        throw new Error(
+          `Transaction execution failed: ${
+            result.errors?.join("; ") || result.effects?.executionError?.message || "unknown error"
+          }`,
+        );
+      }
+
+      return result.effects.digest;
+    },
+
+    async waitForTransaction(digest: string, network: string): Promise<void> {
+      const deadline = Date.now() + (config?.waitTimeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS);
+      while ((await getTransactionStatus(digest, network)).status === "not_found") {
+        if (Date.now() >= deadline) {
+          throw new Error(`Timed out waiting for transaction ${digest}`);
+        }
+        await new Promise(resolve =>
+          setTimeout(resolve, config?.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS),
+        );
+      }
+    },
+
+    getTransactionStatus,
+
+    verifyNetwork,
+  };
+}
+
+/**
+ * Run a GraphQL query, failing on GraphQL errors or a missing result.
+ *
+ * @param client - The GraphQL client
+ * @param document - The query or mutation
+ * @param variables - Query variables
+ * @returns The response data
+ */
+async function query<T>(
+  client: SuiGraphQLClient,
+  document: string,
+  variables: Record<string, unknown> = {},
+): Promise<T> {
+  const { data, errors } = await client.query<T>({ query: document, variables });
+  if (errors?.length) {
+    throw new Error(errors.map(error => error.message).join("; "));
+  }
+  if (!data) {
+    throw new Error("GraphQL response contained no data");
+  }
+  return data;
+}
+
+/**
+ * Normalize simulated GraphQL effects to the JSON-RPC dry-run shape.
+ * Only the fields the exact scheme reads are filled in: effects.status,
+ * effects.gasUsed, balanceChanges, and objectChanges.
+ *
+ * @param effects - The simulated transaction effects
+ * @param sender - The transaction sender
+ * @returns The equivalent DryRunTransactionBlockResponse
+ */
+function toDryRunResponse(
+  effects: GraphQLSimulatedEffects,
+  sender: string,
+): DryRunTransactionBlockResponse {
+  if (effects.balanceChanges?.pageInfo.hasNextPage || effects.objectChanges?.pageInfo.hasNextPage) {
+    throw new Error("Simulation reported more balance or object changes than one page holds");
+  }
+
+  const gasSummary = effects.gasEffects?.gasSummary;
+  return {
+    effects: {
+      transactionDigest: effects.digest,
+      status:
+        effects.status === "SUCCESS"
+          ? { status: "success" }
+          : { status: "failure", error: effects.executionError?.message ?? "unknown error" },
+      gasUsed: gasSummary && {
+        computationCost: String(gasSummary.computationCost),
+        storageCost: String(gasSummary.storageCost),
+        storageRebate: String(gasSummary.storageRebate),
+        nonRefundableStorageFee: String(gasSummary.nonRefundableStorageFee),
+      },
+    },
+    balanceChanges: (effects.balanceChanges?.nodes ?? []).map(change => ({
+      owner: change.owner ? { AddressOwner: change.owner.address } : "Immutable",
+      coinType: change.coinType?.repr ?? "",
+      amount: change.amount ?? "0",
+    })),
+    objectChanges: (effects.objectChanges?.nodes ?? []).map(change =>
+      toObjectChange(change, sender),
+    ),
+    events: [],
+  } as unknown as DryRunTransactionBlockResponse;
+}
+
+/**
+ * Normalize a GraphQL object change to the JSON-RPC SuiObjectChange shape.
+ *
+ * @param change - The object change
+ * @param sender - The transaction sender
+ * @returns The equivalent SuiObjectChange
+ */
+function toObjectChange(
+  change: GraphQLObjectChange,
+  sender: string,
+): NonNullable<DryRunTransactionBlockResponse["objectChanges"]>[number] {
+  const { inputState: input, outputState: output } = change;
+  const state = output ?? input;
+  const base = {
+    sender,
+    objectId: change.address,
+    objectType: state?.asMoveObject?.contents?.type.repr ?? "",
+    version: String(state?.version ?? 0),
+    digest: state?.digest ?? "",
+  };
+
+  if (!input && output?.asMovePackage) {
+    return {
+      type: "published",
+      packageId: change.address,
+      version: base.version,
+      digest: base.digest,
+      modules: [],
+    };
+  }
+  if (change.idCreated || !input) {
+    return { ...base, type: "created", owner: toObjectOwner(output?.owner) };
+  }
+  if (change.idDeleted || !output) {
+    return { ...base, type: change.idDeleted ? "deleted" : "wrapped" };
+  }
+
+  const owner = toObjectOwner(output.owner);
+  const previousOwner = toObjectOwner(input.owner);
+  const isTransfer =
+    typeof owner === "object" &&
+    "AddressOwner" in owner &&
+    JSON.stringify(owner) !== JSON.stringify(previousOwner);
+  return isTransfer
+    ? { ...base, type: "transferred", recipient: owner }
+    : {
+        ...base,
+        type: "mutated",
+        owner,
+        previousVersion: String(input.version),
+      };
+}
+
+/**
+ * Normalize a GraphQL owner to the JSON-RPC ObjectOwner shape.
+ *
+ * @param owner - The GraphQL owner
+ * @returns The equivalent ObjectOwner
+ */
+function toObjectOwner(owner: GraphQLOwner | null | undefined): ObjectOwner {
+  switch (owner?.__typename) {
+    case "AddressOwner":
+      return { AddressOwner: owner.address?.address ?? "" };
+    case "ObjectOwner":
+      return { ObjectOwner: owner.address?.address ?? "" };
+    case "ConsensusAddressOwner":
+      return {
+        ConsensusAddressOwner: {
+          owner: owner.address?.address ?? "",
+          start_version: String(owner.startVersion),
+        },
+      };
+    case "Shared":
+      return { Shared: { initial_shared_version: String(owner.initialSharedVersion) } };
+    default:
+      return "Immutable";
+  }
+}
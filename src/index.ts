@@ -9,11 +9,106 @@
 export { ExactSuiScheme } from "./exact";
 
 // Export signer utilities and types
-export { toClientSuiSigner, toFacilitatorSuiSigner } from "./signer";
+export { toClientSuiSigner, toMultiSigClientSuiSigner, toFacilitatorSuiSigner } from "./signer";
 export type { ClientSuiSigner, FacilitatorSuiSigner, FacilitatorSuiSignerConfig } from "./signer";
+export { toGraphQLFacilitatorSuiSigner } from "./graphql";
+export type { GraphQLFacilitatorSuiSignerConfig } from "./graphql";
+
+// Export gas station helpers
+export {
+  requestGasSponsorship,
+  assertSponsoredTransaction,
+  createLocalGasStation,
+} from "./gasStation";
+export type { LocalGasStation, LocalGasStationConfig } from "./gasStation";
+
+// Export MultiSig helpers
+export {
+  collectMultiSigSignature,
+  isMultiSigSignature,
+  verifyMultiSigTransactionSignature,
+} from "./multisig";
+export type { MultiSigPartialSigner } from "./multisig";
+
+// Export zkLogin verification
+export {
+  createGraphQLZkLoginProvider,
+  createRpcZkLoginProvider,
+  isZkLoginSignature,
+  verifyZkLoginTransactionSignature,
+} from "./zklogin";
+export type {
+  ZkLoginProvider,
+  ZkLoginVerificationRequest,
+  ZkLoginVerificationResult,
+} from "./zklogin";
+
+// Export verification errors
+export {
+  SuiVerificationError,
+  SuiSignatureError,
+  SuiRpcError,
+  SuiChainMismatchError,
+  SuiDecodeError,
+  SuiExecutionError,
+  SuiMoveAbortError,
+  SuiInsufficientBalanceError,
+  SuiObjectVersionError,
+  SuiGasPriceError,
+  SuiTransactionExpiredError,
+  InsufficientFundsError,
+  SuiPolicyRejectedError,
+  parseExecutionError,
+  parseTransactionRejection,
+  classifyRpcError,
+  classifySignatureError,
+  isTransportFailure,
+} from "./errors";
+export type { SuiFundsShortfall, SuiPolicyRejection } from "./errors";
+
+// Export network registry
+export { SuiNetworkRegistry, DEFAULT_SUI_NETWORKS, suiNetworks } from "./networks";
+export type { SuiNetworkConfig } from "./networks";
+
+// Export coin registry
+export { SuiCoinRegistry, DEFAULT_SUI_COINS, suiCoins } from "./coins";
+export type {
+  SuiCoinMetadata,
+  SuiCoinMetadataFetcher,
+  SuiCoinRegistration,
+  SuiCoinRegistryOptions,
+} from "./coins";
+
+// Export RPC failover pool
+export { SuiRpcPool } from "./rpcPool";
+export type { SuiRpcEndpointStatus, SuiRpcPoolOptions } from "./rpcPool";
+
+// Export client coin reservation
+export { SuiCoinManager } from "./coinManager";
+export type { SuiCoinManagerOptions, SuiCoinReservation } from "./coinManager";
+
+// Export price feeds
+export { StaticPriceFeed } from "./priceFeed";
+export type { PriceFeed } from "./priceFeed";
+
+// Export settlement store
+export { InMemorySettlementStore } from "./settlement";
+export type { SettlementRecord, SettlementStore } from "./settlement";
 
 // Export payload types
-export type { ExactSuiPayload } from "./types";
+export type {
+  ExactSuiPayload,
+  GasStationSponsorRequest,
+  GasStationSponsorResponse,
+  PtbCommandAllowlist,
+  SuiAmountConversionOptions,
+  SuiEpochInfo,
+  SuiOfflinePayment,
+  SuiOraclePriceQuote,
+  SuiPaymentQuote,
+  SuiRoundingMode,
+  SuiTransactionStatus,
+} from "./types";
 
 // Export constants
 export * from "./constants";
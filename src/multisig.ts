@@ -0,0 +1,132 @@
+import { parseSerializedSignature, SIGNATURE_SCHEME_TO_FLAG } from "@mysten/sui/cryptography";
+import type { Signer } from "@mysten/sui/cryptography";
+import { MultiSigPublicKey, parsePartialSignatures } from "@mysten/sui/multisig";
+import { fromBase64 } from "@mysten/sui/utils";
+
+/**
+ * One member of a MultiSig account: a local Signer, or an external callback
+ * (hardware wallet, remote co-signer) that signs transaction bytes and returns
+ * a base64-encoded serialized signature.
+ */
+export type MultiSigPartialSigner = Signer | ((transactionBytes: Uint8Array) => Promise<string>);
+
+/**
+ * Check whether a serialized signature uses the MultiSig scheme.
+ *
+ * @param signature - Base64-encoded serialized signature
+ * @returns true if the signature's scheme flag is MultiSig
+ */
+export function isMultiSigSignature(signature: string): boolean {
+  try {
+    return fromBase64(signature)[0] === SIGNATURE_SCHEME_TO_FLAG.MultiSig;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Collect partial signatures in order until the threshold weight is reached,
+ * then combine them into a MultiSig signature. Later signers are not asked to
+ * sign once the threshold is met. A member that signs more than once counts once.
+ *
+ * @param publicKey - The MultiSig public key (members, weights, threshold)
+ * @param signers - Members to ask for partial signatures, in order
+ * @param transactionBytes - BCS-encoded TransactionData to sign
+ * @returns Base64-encoded serialized MultiSig signature
+ */
+export async function collectMultiSigSignature(
+  publicKey: MultiSigPublicKey,
+  signers: readonly MultiSigPartialSigner[],
+  transactionBytes: Uint8Array,
+): Promise<string> {
+  const threshold = publicKey.getThreshold();
+  const members = publicKey.getPublicKeys();
+  const signatures: Array<{ index: number; signature: string }> = [];
+  let weight = 0;
+
+  for (const signer of signers) {
+    if (weight >= threshold) break;
+
+    const signature =
+      typeof signer === "function"
+        ? await signer(transactionBytes)
+        : (await signer.signTransaction(transactionBytes)).signature;
+
+    const parsed = parseSerializedSignature(signature);
+    if (parsed.signatureScheme === "MultiSig" || !parsed.publicKey) {
+      throw new Error(`Unsupported partial signature scheme: ${parsed.signatureScheme}`);
+    }
+
+    const index = members.findIndex(({ publicKey: key }) =>
+      bytesEqual(key.toRawBytes(), parsed.publicKey),
+    );
+    if (index === -1) {
+      throw new Error("Partial signature is from a key outside the MultiSig");
+    }
+    if (signatures.some(collected => collected.index === index)) continue;
+
+    signatures.push({ index, signature });
+    weight += members[index].weight;
+  }
+
+  if (weight < threshold) {
+    throw new Error(`MultiSig threshold not met: collected weight ${weight} of ${threshold}`);
+  }
+
+  // Signatures must follow the members' order in the public key, which is how the bitmap is read
+  return publicKey.combinePartialSignatures(
+    signatures.sort((a, b) => a.index - b.index).map(({ signature }) => signature),
+  );
+}
+
+/**
+ * Verify a MultiSig transaction signature and recover the MultiSig address.
+ * Every partial signature must be valid, and their combined weight must meet the threshold.
+ *
+ * @param transactionBytes - Base64-encoded transaction bytes
+ * @param signature - Base64-encoded serialized MultiSig signature
+ * @returns The MultiSig address
+ */
+export async function verifyMultiSigTransactionSignature(
+  transactionBytes: string,
+  signature: string,
+): Promise<string> {
+  const parsed = parseSerializedSignature(signature);
+  if (parsed.signatureScheme !== "MultiSig") {
+    throw new Error("Invalid signature: not a MultiSig signature");
+  }
+
+  const publicKey = new MultiSigPublicKey(parsed.multisig.multisig_pk);
+  const threshold = publicKey.getThreshold();
+  const txBytes = fromBase64(transactionBytes);
+
+  let weight = 0;
+  for (const partial of parsePartialSignatures(parsed.multisig)) {
+    if (partial.signatureScheme === "ZkLogin" || partial.signatureScheme === "Passkey") {
+      throw new Error(
+        `Invalid signature: ${partial.signatureScheme} members of a MultiSig are not supported`,
+      );
+    }
+    if (!(await partial.publicKey.verifyTransaction(txBytes, partial.signature))) {
+      throw new Error("Invalid signature: MultiSig partial signature is not valid");
+    }
+    weight += partial.weight;
+  }
+
+  if (weight < threshold) {
+    throw new Error(`Invalid signature: MultiSig weight ${weight} is below threshold ${threshold}`);
+  }
+
+  return publicKey.toSuiAddress();
+}
+
+/**
+ * Compare two byte arrays.
+ *
+ * @param a - First byte array
+ * @param b - Second byte array
+ * @returns true if both arrays hold the same bytes
+ */
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
@@ -0,0 +1,180 @@
+import { SuiClient } from "@mysten/sui/client";
+import {
+  DEVNET_GRAPHQL_URL,
+  DEVNET_RPC_URL,
+  LOCALNET_GRAPHQL_URL,
+  LOCALNET_RPC_URL,
+  MAINNET_CHAIN_IDENTIFIER,
+  MAINNET_GRAPHQL_URL,
+  MAINNET_RPC_URL,
+  SUI_DEVNET_CAIP2,
+  SUI_LOCALNET_CAIP2,
+  SUI_MAINNET_CAIP2,
+  SUI_TESTNET_CAIP2,
+  TESTNET_CHAIN_IDENTIFIER,
+  TESTNET_GRAPHQL_URL,
+  TESTNET_RPC_URL,
+  USDC_DECIMALS,
+  USDC_MAINNET,
+  USDC_TESTNET,
+} from "./constants";
+import { SuiChainMismatchError } from "./errors";
+
+/**
+ * Everything the package needs to know about one Sui network.
+ */
+export type SuiNetworkConfig = {
+  /**
+   * CAIP-2 network identifier (e.g., "sui:mainnet")
+   */
+  caip2: string;
+
+  /**
+   * Fullnode JSON-RPC URLs; more than one enables failover
+   */
+  rpcUrls: string[];
+
+  /**
+   * GraphQL URL (used for zkLogin verification), if the network has one
+   */
+  graphqlUrl?: string;
+
+  /**
+   * Expected chain identifier (first 4 bytes of the genesis checkpoint digest, hex).
+   * Omit for networks that are regularly wiped, like devnet and localnet.
+   */
+  chainIdentifier?: string;
+
+  /**
+   * Default stablecoin that Money prices ("$1.50") are converted to
+   */
+  stablecoin?: {
+    coinType: string;
+    decimals: number;
+  };
+};
+
+/**
+ * Built-in networks: mainnet, testnet, devnet, and localnet
+ */
+export const DEFAULT_SUI_NETWORKS: readonly SuiNetworkConfig[] = [
+  {
+    caip2: SUI_MAINNET_CAIP2,
+    rpcUrls: [MAINNET_RPC_URL],
+    graphqlUrl: MAINNET_GRAPHQL_URL,
+    chainIdentifier: MAINNET_CHAIN_IDENTIFIER,
+    stablecoin: { coinType: USDC_MAINNET, decimals: USDC_DECIMALS },
+  },
+  {
+    caip2: SUI_TESTNET_CAIP2,
+    rpcUrls: [TESTNET_RPC_URL],
+    graphqlUrl: TESTNET_GRAPHQL_URL,
+    chainIdentifier: TESTNET_CHAIN_IDENTIFIER,
+    stablecoin: { coinType: USDC_TESTNET, decimals: USDC_DECIMALS },
+  },
+  {
+    caip2: SUI_DEVNET_CAIP2,
+    rpcUrls: [DEVNET_RPC_URL],
+    graphqlUrl: DEVNET_GRAPHQL_URL,
+    stablecoin: { coinType: USDC_TESTNET, decimals: USDC_DECIMALS },
+  },
+  {
+    caip2: SUI_LOCALNET_CAIP2,
+    rpcUrls: [LOCALNET_RPC_URL],
+    graphqlUrl: LOCALNET_GRAPHQL_URL,
+  },
+];
+
+/**
+ * Registry of Sui networks keyed by CAIP-2 id.
+ * Register localnets and private forks here so clients, servers, and
+ * facilitators can resolve them like the built-in networks.
+ */
+export class SuiNetworkRegistry {
+  private readonly networks = new Map<string, SuiNetworkConfig>();
+
+  /**
+   * Creates a new SuiNetworkRegistry.
+   *
+   * @param networks - Initial networks (defaults to DEFAULT_SUI_NETWORKS)
+   */
+  constructor(networks: readonly SuiNetworkConfig[] = DEFAULT_SUI_NETWORKS) {
+    networks.forEach(network => this.register(network));
+  }
+
+  /**
+   * Add a network, replacing any existing entry with the same CAIP-2 id.
+   *
+   * @param network - The network configuration
+   * @returns The registry for chaining
+   */
+  register(network: SuiNetworkConfig): SuiNetworkRegistry {
+    if (!network.caip2.startsWith("sui:")) {
+      throw new Error(`Sui network ids must start with "sui:": ${network.caip2}`);
+    }
+    if (network.rpcUrls.length === 0) {
+      throw new Error(`Sui network ${network.caip2} needs at least one RPC URL`);
+    }
+    this.networks.set(network.caip2, { ...network, rpcUrls: [...network.rpcUrls] });
+    return this;
+  }
+
+  /**
+   * Look up a network.
+   *
+   * @param network - CAIP-2 network identifier
+   * @returns The network configuration, or undefined if unknown
+   */
+  get(network: string): SuiNetworkConfig | undefined {
+    return this.networks.get(network);
+  }
+
+  /**
+   * Look up a network that must exist.
+   *
+   * @param network - CAIP-2 network identifier
+   * @returns The network configuration
+   * @throws Error if the network is not registered
+   */
+  resolve(network: string): SuiNetworkConfig {
+    const config = this.networks.get(network);
+    if (!config) {
+      throw new Error(`Unsupported Sui network: ${network}`);
+    }
+    return config;
+  }
+
+  /**
+   * List every registered network.
+   *
+   * @returns Network configurations in registration order
+   */
+  list(): SuiNetworkConfig[] {
+    return [...this.networks.values()];
+  }
+
+  /**
+   * Check that RPC endpoints serve the chain a network's CAIP-2 id names.
+   * Networks without an expected chain identifier (devnet, localnet) are not checked.
+   *
+   * @param network - CAIP-2 network identifier
+   * @param rpcUrls - Endpoints to check (defaults to the network's rpcUrls)
+   * @throws SuiChainMismatchError if an endpoint serves another chain
+   */
+  async verifyChainIdentifier(network: string, rpcUrls?: readonly string[]): Promise<void> {
+    const expected = this.get(network)?.chainIdentifier;
+    if (!expected) return;
+
+    for (const url of rpcUrls ?? this.resolve(network).rpcUrls) {
+      const actual = await new SuiClient({ url }).getChainIdentifier();
+      if (actual !== expected) {
+        throw new SuiChainMismatchError(network, url, expected, actual);
+      }
+    }
+  }
+}
+
+/**
+ * Process-wide default registry, used wherever no registry is passed explicitly
+ */
+export const suiNetworks = new SuiNetworkRegistry();
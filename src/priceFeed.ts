@@ -0,0 +1,64 @@
+import type { Network } from "@x402/core/types";
+import { normalizeStructTag } from "@mysten/sui/utils";
+
+/**
+ * Source of USD exchange rates for coins the server charges in.
+ * Back it with an oracle (Pyth, Switchboard) or an exchange API.
+ */
+export interface PriceFeed {
+  /**
+   * Get the USD price of one whole coin (e.g. 3.21 for 1 SUI).
+   *
+   * @param coinType - The coin type to price
+   * @param network - The CAIP-2 network the payment is on
+   * @returns The USD price as a decimal number or string
+   * @throws Error if the coin cannot be priced
+   */
+  getUsdPrice(coinType: string, network: Network): Promise<number | string>;
+}
+
+/**
+ * PriceFeed with fixed, locally configured prices. For tests, local development, and
+ * servers that set their own exchange rates.
+ */
+export class StaticPriceFeed implements PriceFeed {
+  private readonly prices = new Map<string, number | string>();
+
+  /**
+   * Creates a new StaticPriceFeed.
+   *
+   * @param prices - USD price of one whole coin, keyed by coin type
+   */
+  constructor(prices: Record<string, number | string> = {}) {
+    for (const [coinType, price] of Object.entries(prices)) {
+      this.setPrice(coinType, price);
+    }
+  }
+
+  /**
+   * Set or replace a coin's USD price.
+   *
+   * @param coinType - The coin type
+   * @param price - USD price of one whole coin
+   * @returns The feed instance for chaining
+   */
+  setPrice(coinType: string, price: number | string): StaticPriceFeed {
+    this.prices.set(normalizeStructTag(coinType), price);
+    return this;
+  }
+
+  /**
+   * Get the configured USD price of one whole coin.
+   *
+   * @param coinType - The coin type to price
+   * @returns The USD price
+   * @throws Error if no price is configured for the coin type
+   */
+  async getUsdPrice(coinType: string): Promise<number | string> {
+    const price = this.prices.get(normalizeStructTag(coinType));
+    if (price === undefined) {
+      throw new Error(`No USD price configured for ${coinType}`);
+    }
+    return price;
+  }
+}
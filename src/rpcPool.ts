@@ -0,0 +1,358 @@
+import { SuiClient } from "@mysten/sui/client";
+import { isTransportFailure, SuiChainMismatchError } from "./errors";
+
+/**
+ * Tuning for a SuiRpcPool
+ */
+export interface SuiRpcPoolOptions {
+  /**
+   * Consecutive failures before an endpoint's circuit opens (default 3)
+   */
+  failureThreshold?: number;
+
+  /**
+   * How long an open circuit keeps an endpoint out of rotation, in milliseconds (default 30s)
+   */
+  cooldownMs?: number;
+
+  /**
+   * Maximum endpoints tried for one idempotent read (default: all of them)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Run health checks in the background at this interval, in milliseconds.
+   * Off by default; call checkHealth() yourself or set this.
+   */
+  healthCheckIntervalMs?: number;
+
+  /**
+   * Random source for latency-weighted selection (default Math.random)
+   */
+  random?: () => number;
+
+  /**
+   * Chain every endpoint must serve. Each endpoint's chain identifier is checked
+   * before its first request, and endpoints on another chain are refused.
+   */
+  expectedChain?: {
+    network: string;
+    chainIdentifier: string;
+  };
+}
+
+/**
+ * Snapshot of one endpoint's health
+ */
+export type SuiRpcEndpointStatus = {
+  url: string;
+  /**
+   * false while the endpoint's circuit is open
+   */
+  healthy: boolean;
+  /**
+   * Smoothed request latency in milliseconds (undefined until measured)
+   */
+  latencyMs?: number;
+  consecutiveFailures: number;
+};
+
+type Endpoint = {
+  url: string;
+  client: SuiClient;
+  latencyMs?: number;
+  consecutiveFailures: number;
+  openUntil: number;
+  chainIdentifier?: string;
+  /**
+   * Set once the endpoint is found serving another chain; it is never used again
+   */
+  chainMismatch?: SuiChainMismatchError;
+};
+
+/**
+ * Weight of each new latency sample in the smoothed latency
+ */
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * A set of interchangeable fullnodes for one network.
+ * Requests go to a healthy endpoint chosen with probability inversely
+ * proportional to its latency. Endpoints that fail repeatedly are taken out of
+ * rotation (circuit open) for a cooldown, then given one trial request.
+ * Idempotent reads are retried on another endpoint after transport failures.
+ * Endpoints serving another chain than `expectedChain` are excluded for good, and
+ * requests fail over to the rest.
+ */
+export class SuiRpcPool {
+  private readonly endpoints: Endpoint[];
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly maxAttempts: number;
+  private readonly random: () => number;
+  private readonly expectedChain?: SuiRpcPoolOptions["expectedChain"];
+  private healthTimer?: ReturnType<typeof setInterval>;
+
+  /**
+   * Creates a new SuiRpcPool.
+   *
+   * @param urls - Fullnode JSON-RPC URLs (at least one)
+   * @param options - Optional pool tuning
+   */
+  constructor(urls: readonly string[], options: SuiRpcPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error("SuiRpcPool requires at least one RPC URL");
+    }
+
+    this.endpoints = urls.map(url => ({
+      url,
+      client: new SuiClient({ url }),
+      consecutiveFailures: 0,
+      openUntil: 0,
+    }));
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 30_000;
+    this.maxAttempts = options.maxAttempts ?? urls.length;
+    this.random = options.random ?? Math.random;
+    this.expectedChain = options.expectedChain;
+
+    if (options.healthCheckIntervalMs) {
+      this.healthTimer = setInterval(() => void this.checkHealth(), options.healthCheckIntervalMs);
+      // Never keep the process alive just for health checks
+      (this.healthTimer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  /**
+   * Get the client of the endpoint the next request would use.
+   * The endpoint's chain identifier is not checked; use read() or write() when the pool
+   * has an `expectedChain`.
+   *
+   * @returns A SuiClient for a healthy endpoint
+   */
+  getClient(): SuiClient {
+    return this.select(new Set()).client;
+  }
+
+  /**
+   * Run an idempotent read, retrying on other endpoints after transport failures.
+   * Errors from a node that answered (e.g. rejecting the transaction) are not retried.
+   *
+   * @param request - The read to run against a client
+   * @returns The read's result
+   */
+  async read<T>(request: (client: SuiClient) => Promise<T>): Promise<T> {
+    const tried = new Set<Endpoint>();
+    let lastError: unknown;
+
+    while (tried.size < Math.min(this.maxAttempts, this.endpoints.length)) {
+      const endpoint = this.select(tried, lastError);
+      tried.add(endpoint);
+
+      try {
+        return await this.run(endpoint, request);
+      } catch (error) {
+        if (!isTransportFailure(error) && !(error instanceof SuiChainMismatchError)) throw error;
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Run a non-idempotent request (e.g. executeTransactionBlock) on one endpoint.
+   * Only endpoints found serving another chain are skipped, since the request was never
+   * sent to them.
+   *
+   * @param request - The request to run against a client
+   * @returns The request's result
+   */
+  async write<T>(request: (client: SuiClient) => Promise<T>): Promise<T> {
+    const tried = new Set<Endpoint>();
+    let lastError: unknown;
+
+    for (;;) {
+      const endpoint = this.select(tried, lastError);
+      tried.add(endpoint);
+
+      try {
+        return await this.run(endpoint, request);
+      } catch (error) {
+        if (!(error instanceof SuiChainMismatchError)) throw error;
+        lastError = error;
+      }
+    }
+  }
+
+  /**
+   * Probe every endpoint with a cheap read, updating latency and circuit state.
+   *
+   * @returns The status of every endpoint after the probe
+   */
+  async checkHealth(): Promise<SuiRpcEndpointStatus[]> {
+    await Promise.all(
+      this.endpoints.map(endpoint =>
+        this.run(endpoint, client => client.getLatestCheckpointSequenceNumber()).catch(() => {}),
+      ),
+    );
+    return this.getStatus();
+  }
+
+  /**
+   * Check every endpoint's chain identifier now rather than on first use.
+   * Endpoints that cannot be reached are checked before their first request instead.
+   *
+   * @throws SuiChainMismatchError if any endpoint serves another chain, or the
+   * transport error if no endpoint could be reached
+   */
+  async verifyChainIdentifier(): Promise<void> {
+    if (!this.expectedChain) return;
+
+    const results = await Promise.allSettled(
+      this.endpoints.map(endpoint => this.run(endpoint, async () => undefined)),
+    );
+    const failures = results.flatMap(result =>
+      result.status === "rejected" ? [result.reason as unknown] : [],
+    );
+
+    const mismatch = failures.find(error => error instanceof SuiChainMismatchError);
+    if (mismatch) throw mismatch;
+    if (failures.length === results.length) throw failures[0];
+  }
+
+  /**
+   * Get the current status of every endpoint.
+   *
+   * @returns One status per endpoint, in configuration order
+   */
+  getStatus(): SuiRpcEndpointStatus[] {
+    const now = Date.now();
+    return this.endpoints.map(endpoint => ({
+      url: endpoint.url,
+      healthy: endpoint.openUntil <= now,
+      latencyMs: endpoint.latencyMs,
+      consecutiveFailures: endpoint.consecutiveFailures,
+    }));
+  }
+
+  /**
+   * Stop background health checks.
+   */
+  close(): void {
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    this.healthTimer = undefined;
+  }
+
+  /**
+   * Run a request on an endpoint, recording latency and failures.
+   *
+   * @param endpoint - The endpoint to use
+   * @param request - The request to run
+   * @returns The request's result
+   */
+  private async run<T>(endpoint: Endpoint, request: (client: SuiClient) => Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+      await this.checkChain(endpoint);
+      const result = await request(endpoint.client);
+      this.recordSuccess(endpoint, Date.now() - start);
+      return result;
+    } catch (error) {
+      if (isTransportFailure(error)) {
+        this.recordFailure(endpoint);
+      } else if (!(error instanceof SuiChainMismatchError)) {
+        // The node answered; the request itself was rejected. A node on another chain
+        // is excluded by checkChain instead, never recorded as a success.
+        this.recordSuccess(endpoint, Date.now() - start);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Make sure an endpoint serves the expected chain, fetching its identifier on first use.
+   * An endpoint on another chain is excluded from selection permanently.
+   *
+   * @param endpoint - The endpoint about to be used
+   * @throws SuiChainMismatchError if the endpoint serves another chain
+   */
+  private async checkChain(endpoint: Endpoint): Promise<void> {
+    if (!this.expectedChain) return;
+    if (endpoint.chainMismatch) throw endpoint.chainMismatch;
+
+    endpoint.chainIdentifier ??= await endpoint.client.getChainIdentifier();
+    if (endpoint.chainIdentifier !== this.expectedChain.chainIdentifier) {
+      endpoint.chainMismatch = new SuiChainMismatchError(
+        this.expectedChain.network,
+        endpoint.url,
+        this.expectedChain.chainIdentifier,
+        endpoint.chainIdentifier,
+      );
+      throw endpoint.chainMismatch;
+    }
+  }
+
+  /**
+   * Pick an endpoint: latency-weighted among those with a closed circuit, or
+   * the one whose cooldown ends first when every circuit is open.
+   * Endpoints serving another chain are never chosen.
+   *
+   * @param exclude - Endpoints already tried for this request
+   * @param lastError - The error to rethrow when no endpoint is left
+   * @returns The chosen endpoint
+   * @throws lastError, or the first chain mismatch, if every endpoint is excluded
+   */
+  private select(exclude: Set<Endpoint>, lastError?: unknown): Endpoint {
+    const now = Date.now();
+    const candidates = this.endpoints.filter(
+      endpoint => !exclude.has(endpoint) && !endpoint.chainMismatch,
+    );
+    if (candidates.length === 0) {
+      throw lastError ?? this.endpoints.find(endpoint => endpoint.chainMismatch)?.chainMismatch;
+    }
+    const available = candidates.filter(endpoint => endpoint.openUntil <= now);
+
+    if (available.length === 0) {
+      return candidates.reduce((best, endpoint) =>
+        endpoint.openUntil < best.openUntil ? endpoint : best,
+      );
+    }
+
+    const weights = available.map(endpoint => 1 / Math.max(endpoint.latencyMs ?? 1, 1));
+    let target = this.random() * weights.reduce((sum, weight) => sum + weight, 0);
+    for (let i = 0; i < available.length; i++) {
+      target -= weights[i];
+      if (target < 0) return available[i];
+    }
+    return available[available.length - 1];
+  }
+
+  /**
+   * Record a successful request: close the circuit and update latency.
+   *
+   * @param endpoint - The endpoint that answered
+   * @param latencyMs - How long the request took
+   */
+  private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+    endpoint.consecutiveFailures = 0;
+    endpoint.openUntil = 0;
+    endpoint.latencyMs =
+      endpoint.latencyMs === undefined
+        ? latencyMs
+        : endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+  }
+
+  /**
+   * Record a transport failure, opening the circuit at the threshold.
+   * A failed trial request after a cooldown reopens it immediately.
+   *
+   * @param endpoint - The endpoint that failed
+   */
+  private recordFailure(endpoint: Endpoint): void {
+    endpoint.consecutiveFailures++;
+    if (endpoint.consecutiveFailures >= this.failureThreshold) {
+      endpoint.openUntil = Date.now() + this.cooldownMs;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import type { PaymentRequirements, SettleResponse } from "@x402/core/types";
+
+/**
+ * State of a settlement, keyed by transaction digest.
+ */
+export type SettlementRecord =
+  | {
+      /**
+       * A facilitator has claimed this digest and is broadcasting it
+       */
+      status: "pending";
+      requirements: PaymentRequirements;
+    }
+  | {
+      /**
+       * The transaction executed; `response` is what the first settle returned
+       */
+      status: "settled";
+      requirements: PaymentRequirements;
+      response: SettleResponse;
+    };
+
+/**
+ * Shared record of in-flight and completed settlements.
+ * Lets repeated or concurrent settle calls for the same transaction digest
+ * return the original result instead of broadcasting twice. Back it with a
+ * shared database to deduplicate across facilitator instances.
+ */
+export interface SettlementStore {
+  /**
+   * Atomically mark a digest as pending if it has no record yet.
+   *
+   * @param digest - Transaction digest computed from the payload bytes
+   * @param requirements - The payment requirements being settled
+   * @returns The existing record, or undefined if this caller now owns the settlement
+   */
+  claim(digest: string, requirements: PaymentRequirements): Promise<SettlementRecord | undefined>;
+
+  /**
+   * Record a successful settlement for a claimed digest.
+   *
+   * @param digest - Transaction digest
+   * @param response - The settle response to return for repeated settles
+   */
+  complete(digest: string, response: SettleResponse): Promise<void>;
+
+  /**
+   * Drop the claim on a digest whose settlement failed, so it can be retried.
+   *
+   * @param digest - Transaction digest
+   */
+  release(digest: string): Promise<void>;
+}
+
+/**
+ * Process-local SettlementStore.
+ * Evicts the oldest settled records once `maxEntries` is reached; pending claims are
+ * never evicted, so an in-flight settlement cannot be claimed twice.
+ */
+export class InMemorySettlementStore implements SettlementStore {
+  private readonly records = new Map<string, SettlementRecord>();
+
+  /**
+   * Creates a new InMemorySettlementStore.
+   *
+   * @param maxEntries - Maximum number of records to keep
+   */
+  constructor(private readonly maxEntries = 10_000) {}
+
+  /**
+   * Atomically mark a digest as pending if it has no record yet.
+   *
+   * @param digest - Transaction digest
+   * @param requirements - The payment requirements being settled
+   * @returns The existing record, or undefined if the claim succeeded
+   */
+  async claim(
+    digest: string,
+    requirements: PaymentRequirements,
+  ): Promise<SettlementRecord | undefined> {
+    const existing = this.records.get(digest);
+    if (existing) return existing;
+
+    this.records.set(digest, { status: "pending", requirements });
+    this.evict();
+    return undefined;
+  }
+
+  /**
+   * Record a successful settlement.
+   *
+   * @param digest - Transaction digest
+   * @param response - The settle response
+   */
+  async complete(digest: string, response: SettleResponse): Promise<void> {
+    const existing = this.records.get(digest);
+    if (!existing) return;
+    this.records.set(digest, { status: "settled", requirements: existing.requirements, response });
+  }
+
+  /**
+   * Drop a pending claim.
+   *
+   * @param digest - Transaction digest
+   */
+  async release(digest: string): Promise<void> {
+    if (this.records.get(digest)?.status === "pending") {
+      this.records.delete(digest);
+    }
+  }
+
+  /**
+   * Remove the oldest settled records beyond maxEntries.
+   */
+  private evict(): void {
+    for (const [digest, record] of this.records) {
+      if (this.records.size <= this.maxEntries) return;
+      if (record.status !== "pending") this.records.delete(digest);
+    }
+  }
+}
@@ -1,10 +1,28 @@
 import type { SuiClient, DryRunTransactionBlockResponse } from "@mysten/sui/client";
 import type { Signer } from "@mysten/sui/cryptography";
-import type { Transaction } from "@mysten/sui/transactions";
+import type { MultiSigPublicKey } from "@mysten/sui/multisig";
+import type { ObjectRef, Transaction } from "@mysten/sui/transactions";
 import { fromBase64, toBase64 } from "@mysten/sui/utils";
 import { verifyTransactionSignature } from "@mysten/sui/verify";
-import type { Network } from "@x402/core/types";
-import { createSuiClient } from "./utils";
+import type { SuiEpochInfo, SuiTransactionStatus } from "./types";
+import { classifyRpcError, classifySignatureError } from "./errors";
+import {
+  collectMultiSigSignature,
+  isMultiSigSignature,
+  verifyMultiSigTransactionSignature,
+} from "./multisig";
+import type { MultiSigPartialSigner } from "./multisig";
+import { SuiRpcPool } from "./rpcPool";
+import type { SuiRpcPoolOptions } from "./rpcPool";
+import { suiNetworks } from "./networks";
+import type { SuiNetworkRegistry } from "./networks";
+import { fetchEpochInfo, isEpochOver } from "./utils";
+import {
+  createRpcZkLoginProvider,
+  isZkLoginSignature,
+  verifyZkLoginTransactionSignature,
+} from "./zklogin";
+import type { ZkLoginProvider } from "./zklogin";
 
 /**
  * Client-side signer for creating and signing Sui transactions.
@@ -23,6 +41,61 @@ export interface ClientSuiSigner {
    * @returns Signature and serialized transaction bytes (both base64-encoded)
    */
   signTransaction(transaction: Transaction): Promise<{ signature: string; bytes: string }>;
+
+  /**
+   * Build only the TransactionKind (commands + inputs) without gas data.
+   * Needed to request sponsored gas from a gas station; signers without it
+   * always pay their own gas.
+   *
+   * @param transaction - The Transaction to build
+   * @returns Base64-encoded BCS TransactionKind bytes
+   */
+  buildTransactionKind?(transaction: Transaction): Promise<string>;
+
+  /**
+   * Get the current epoch timing, used to set TransactionExpiration::Epoch.
+   * Required unless every payment is built offline with `epochInfo`: the client
+   * scheme refuses to sign transactions that never expire, which facilitators reject.
+   *
+   * @param refresh - Skip cached timing, e.g. after a facilitator reported the epoch over
+   * @returns The current epoch timing
+   */
+  getEpochInfo?(refresh?: boolean): Promise<SuiEpochInfo>;
+
+  /**
+   * Look up the current refs of objects, to tell whether a signed transaction's
+   * inputs are still unspent.
+   *
+   * @param objectIds - Object IDs to look up
+   * @returns Each object's current ref, or undefined if it no longer exists
+   */
+  getObjectRefs?(objectIds: string[]): Promise<(ObjectRef | undefined)[]>;
+
+  /**
+   * Look up whether a transaction has executed, to tell a rejected payment that already
+   * landed from one that never will.
+   *
+   * @param digest - The transaction digest
+   * @returns The transaction's on-chain status, or not_found
+   */
+  getTransactionStatus?(digest: string): Promise<SuiTransactionStatus>;
+
+  /**
+   * Build a transaction and dry-run it as this signer, without signing.
+   * Lets the client catch payments that would fail before asking for a signature.
+   *
+   * @param transaction - The Transaction to build and dry-run
+   * @returns The node's dry-run result
+   */
+  dryRunTransaction?(transaction: Transaction): Promise<DryRunTransactionBlockResponse>;
+
+  /**
+   * Get the signer's total balance of a coin type.
+   *
+   * @param coinType - The coin type
+   * @returns The balance in the coin's smallest unit
+   */
+  getBalance?(coinType: string): Promise<bigint>;
 }
 
 /**
@@ -39,13 +112,15 @@ export interface FacilitatorSuiSigner {
 
   /**
    * Verify a signature over transaction bytes and recover the signer's address.
-   * Supports Ed25519 and Secp256k1 signatures.
-   * Note: zkLogin verification requires a SuiGraphQLClient, which is not yet supported.
+   * Supports Ed25519, Secp256k1, zkLogin, and MultiSig signatures.
+   * zkLogin signatures are checked against the current epoch and the issuer's active JWKs.
+   * MultiSig signatures must meet their threshold; the MultiSig address is returned.
    *
    * @param transactionBytes - Base64-encoded transaction bytes
    * @param signature - Base64-encoded signature
    * @param network - CAIP-2 network identifier
    * @returns The recovered signer's Sui address
+   * @throws SuiSignatureError if the signature does not verify, SuiRpcError if a lookup failed
    */
   verifySignature(transactionBytes: string, signature: string, network: string): Promise<string>;
 
@@ -56,12 +131,34 @@ export interface FacilitatorSuiSigner {
    * @param transactionBytes - Base64-encoded transaction bytes
    * @param network - CAIP-2 network identifier
    * @returns Dry-run result with balance changes, effects, and events
+   * @throws SuiRpcError if the node is unreachable, SuiExecutionError (or a subclass) if it rejects the transaction
    */
   simulateTransaction(
     transactionBytes: string,
     network: string,
   ): Promise<DryRunTransactionBlockResponse>;
 
+  /**
+   * Get the current epoch timing for a network.
+   * Cached until the epoch is expected to end.
+   *
+   * @param network - CAIP-2 network identifier
+   * @returns The current epoch timing
+   * @throws SuiRpcError if the node is unreachable
+   */
+  getEpochInfo(network: string): Promise<SuiEpochInfo>;
+
+  /**
+   * Co-sign a sponsored transaction as its gas owner.
+   * Only succeeds for addresses returned by getAddresses(). Signers without it sponsor
+   * no gas: sponsored payloads fail verification.
+   *
+   * @param transactionBytes - Base64-encoded transaction bytes
+   * @param address - The sponsor address named as GasData.owner in the transaction
+   * @returns Base64-encoded sponsor signature
+   */
+  signTransaction?(transactionBytes: string, address: string): Promise<string>;
+
   /**
    * Execute a signed transaction on-chain.
    * For standard payments, uses the client's signature directly (single string).
@@ -81,6 +178,26 @@ export interface FacilitatorSuiSigner {
    * @param network - CAIP-2 network identifier
    */
   waitForTransaction(digest: string, network: string): Promise<void>;
+
+  /**
+   * Look up a transaction's on-chain outcome by digest.
+   * Used to recover the real result when execution fails ambiguously (timeouts, dropped connections);
+   * without it, such settlements are reported as failed.
+   *
+   * @param digest - Transaction digest to look up
+   * @param network - CAIP-2 network identifier
+   * @returns The transaction's status, or "not_found" if the node has no record of it
+   */
+  getTransactionStatus?(digest: string, network: string): Promise<SuiTransactionStatus>;
+
+  /**
+   * Check that every RPC endpoint for a network serves the chain its CAIP-2 id names.
+   * Endpoints are also checked on first use; call this at startup to fail fast.
+   *
+   * @param network - CAIP-2 network identifier
+   * @throws SuiChainMismatchError if an endpoint serves another chain
+   */
+  verifyNetwork?(network: string): Promise<void>;
 }
 
 /**
@@ -88,21 +205,42 @@ export interface FacilitatorSuiSigner {
  */
 export interface FacilitatorSuiSignerConfig {
   /**
-   * Optional custom RPC URL
+   * Optional custom RPC URL, or several interchangeable URLs to fail over between
+   */
+  rpcUrl?: string | string[];
+
+  /**
+   * Optional per-network RPC URL mapping (one URL or a failover list per network)
+   */
+  rpcUrls?: Record<string, string | string[]>;
+
+  /**
+   * Optional failover tuning (circuit breaking, health checks) for every network's pool
+   */
+  rpcPool?: SuiRpcPoolOptions;
+
+  /**
+   * Optional network registry for default RPC URLs and expected chain identifiers
+   * (defaults to suiNetworks)
    */
-  rpcUrl?: string;
+  networkRegistry?: SuiNetworkRegistry;
 
   /**
-   * Optional per-network RPC URL mapping
+   * Optional zkLogin provider (defaults to JSON-RPC on the same endpoints).
+   * Use createGraphQLZkLoginProvider() for GraphQL or createStubZkLoginProvider() from @x402/sui/testing offline.
    */
-  rpcUrls?: Record<string, string>;
+  zkLoginProvider?: ZkLoginProvider;
 }
 
 /**
  * Create a FacilitatorSuiSigner from a SuiClient and optional keypair.
  * The keypair is only needed if this facilitator provides gas sponsorship.
+ * With several RPC URLs per network, requests go through a SuiRpcPool:
+ * reads fail over between nodes, and failing nodes are circuit-broken.
+ * Every node's chain identifier is checked against the registry before its
+ * first request, so a testnet URL configured under sui:mainnet is refused.
  *
- * @param config - Optional configuration (custom RPC URLs)
+ * @param config - Optional configuration (custom RPC URLs, failover tuning)
  * @param keypair - Optional keypair for gas sponsorship signing
  * @returns A FacilitatorSuiSigner instance
  */
@@ -110,38 +248,75 @@ export function toFacilitatorSuiSigner(
   config?: FacilitatorSuiSignerConfig,
   keypair?: Signer,
 ): FacilitatorSuiSigner {
-  const clientCache = new Map<string, SuiClient>();
+  const poolCache = new Map<string, SuiRpcPool>();
+  const epochCache = new Map<string, SuiEpochInfo>();
 
-  const getClient = (network: string): SuiClient => {
-    const cached = clientCache.get(network);
+  const getPool = (network: string): SuiRpcPool => {
+    const cached = poolCache.get(network);
     if (cached) return cached;
 
-    const rpcUrl = config?.rpcUrls?.[network] ?? config?.rpcUrl;
-    const client = createSuiClient(network as Network, rpcUrl);
-    clientCache.set(network, client);
-    return client;
+    const registry = config?.networkRegistry ?? suiNetworks;
+    const rpcUrls =
+      config?.rpcUrls?.[network] ?? config?.rpcUrl ?? registry.resolve(network).rpcUrls;
+    const chainIdentifier = registry.get(network)?.chainIdentifier;
+    const pool = new SuiRpcPool([rpcUrls].flat(), {
+      ...config?.rpcPool,
+      expectedChain: chainIdentifier ? { network, chainIdentifier } : undefined,
+    });
+    poolCache.set(network, pool);
+    return pool;
   };
 
+  const zkLoginProvider = config?.zkLoginProvider ?? createRpcZkLoginProvider(getPool);
+
   return {
     getAddresses(): readonly string[] {
       if (!keypair) return [];
       return [keypair.toSuiAddress()];
     },
 
-    async verifySignature(transactionBytes: string, signature: string, _: string): Promise<string> {
-      const txBytes = fromBase64(transactionBytes);
-      const publicKey = await verifyTransactionSignature(txBytes, signature);
-      return publicKey.toSuiAddress();
+    async verifySignature(
+      transactionBytes: string,
+      signature: string,
+      network: string,
+    ): Promise<string> {
+      return recoverSigner(transactionBytes, signature, network, zkLoginProvider);
     },
 
     async simulateTransaction(
       transactionBytes: string,
       network: string,
     ): Promise<DryRunTransactionBlockResponse> {
-      const client = getClient(network);
-      return await client.dryRunTransactionBlock({
-        transactionBlock: transactionBytes,
-      });
+      try {
+        return await getPool(network).read(client =>
+          client.dryRunTransactionBlock({
+            transactionBlock: transactionBytes,
+          }),
+        );
+      } catch (error) {
+        throw classifyRpcError(error);
+      }
+    },
+
+    async getEpochInfo(network: string): Promise<SuiEpochInfo> {
+      const cached = epochCache.get(network);
+      if (cached && !isEpochOver(cached)) return cached;
+
+      const epochInfo = await getPool(network)
+        .read(fetchEpochInfo)
+        .catch(error => {
+          throw classifyRpcError(error);
+        });
+      epochCache.set(network, epochInfo);
+      return epochInfo;
+    },
+
+    async signTransaction(transactionBytes: string, address: string): Promise<string> {
+      if (!keypair || keypair.toSuiAddress() !== address) {
+        throw new Error(`No sponsor keypair available for address: ${address}`);
+      }
+      const { signature } = await keypair.signTransaction(fromBase64(transactionBytes));
+      return signature;
     },
 
     async executeTransaction(
@@ -149,15 +324,16 @@ export function toFacilitatorSuiSigner(
       signature: string | string[],
       network: string,
     ): Promise<string> {
-      const client = getClient(network);
-
-      const result = await client.executeTransactionBlock({
-        transactionBlock: transaction,
-        signature,
-        options: {
-          showEffects: true,
-        },
-      });
+      // Not retried on another node: a timed-out execute may still land, and settle recovers by digest
+      const result = await getPool(network).write(client =>
+        client.executeTransactionBlock({
+          transactionBlock: transaction,
+          signature,
+          options: {
+            showEffects: true,
+          },
+        }),
+      );
 
       if (result.effects?.status?.status !== "success") {
         throw new Error(
@@ -169,32 +345,206 @@ export function toFacilitatorSuiSigner(
     },
 
     async waitForTransaction(digest: string, network: string): Promise<void> {
-      const client = getClient(network);
-      await client.waitForTransaction({
-        digest,
-        options: { showEffects: true },
-      });
+      await getPool(network).read(client =>
+        client.waitForTransaction({
+          digest,
+          options: { showEffects: true },
+        }),
+      );
+    },
+
+    async getTransactionStatus(digest: string, network: string): Promise<SuiTransactionStatus> {
+      let result;
+      try {
+        result = await getPool(network).read(client =>
+          client.getTransactionBlock({
+            digest,
+            options: { showEffects: true },
+          }),
+        );
+      } catch (error) {
+        if (error instanceof Error && /could not find/i.test(error.message)) {
+          return { status: "not_found" };
+        }
+        throw error;
+      }
+
+      const status = result.effects?.status;
+      if (!status) return { status: "not_found" };
+      return status.status === "success"
+        ? { status: "success" }
+        : { status: "failure", error: status.error };
+    },
+
+    async verifyNetwork(network: string): Promise<void> {
+      await getPool(network).verifyChainIdentifier();
     },
   };
 }
 
+/**
+ * Verify a transaction signature of any supported scheme and recover the signer's address.
+ * Shared by the JSON-RPC and GraphQL facilitator signers.
+ *
+ * @param transactionBytes - Base64-encoded transaction bytes
+ * @param signature - Base64-encoded serialized signature
+ * @param network - CAIP-2 network identifier
+ * @param zkLoginProvider - Source of the current epoch and proof verification for zkLogin
+ * @returns The recovered signer's Sui address
+ * @throws SuiSignatureError if the signature does not verify, SuiRpcError if a lookup failed
+ */
+export async function recoverSigner(
+  transactionBytes: string,
+  signature: string,
+  network: string,
+  zkLoginProvider: ZkLoginProvider,
+): Promise<string> {
+  try {
+    if (isMultiSigSignature(signature)) {
+      return await verifyMultiSigTransactionSignature(transactionBytes, signature);
+    }
+
+    if (isZkLoginSignature(signature)) {
+      return await verifyZkLoginTransactionSignature(
+        transactionBytes,
+        signature,
+        network,
+        zkLoginProvider,
+      );
+    }
+
+    const txBytes = fromBase64(transactionBytes);
+    const publicKey = await verifyTransactionSignature(txBytes, signature);
+    return publicKey.toSuiAddress();
+  } catch (error) {
+    throw classifySignatureError(error);
+  }
+}
+
 /**
  * Convert any Sui keypair to a ClientSuiSigner.
  * Works with Ed25519Keypair, Secp256k1Keypair, etc.
  *
  * @param keypair - Any Sui cryptographic keypair
- * @param client - SuiClient for building transactions
+ * @param client - SuiClient for building transactions (omit to sign only fully resolved transactions, offline)
  * @returns A ClientSuiSigner instance
  */
-export function toClientSuiSigner(keypair: Signer, client: SuiClient): ClientSuiSigner {
+export function toClientSuiSigner(keypair: Signer, client?: SuiClient): ClientSuiSigner {
+  return createClientSuiSigner(
+    keypair.toSuiAddress(),
+    async txBytes => (await keypair.signTransaction(txBytes)).signature,
+    client,
+  );
+}
+
+/**
+ * Create a ClientSuiSigner for a MultiSig account.
+ * Partial signatures are collected from the members in order until the
+ * threshold is met, then combined into one MultiSig signature.
+ *
+ * @param publicKey - The MultiSig public key (members, weights, threshold)
+ * @param signers - Members as Signers or external signing callbacks, in the order to ask them
+ * @param client - SuiClient for building transactions (omit to sign only fully resolved transactions, offline)
+ * @returns A ClientSuiSigner whose address is the MultiSig address
+ */
+export function toMultiSigClientSuiSigner(
+  publicKey: MultiSigPublicKey,
+  signers: readonly MultiSigPartialSigner[],
+  client?: SuiClient,
+): ClientSuiSigner {
+  return createClientSuiSigner(
+    publicKey.toSuiAddress(),
+    txBytes => collectMultiSigSignature(publicKey, signers, txBytes),
+    client,
+  );
+}
+
+/**
+ * Build a ClientSuiSigner around a signing function.
+ *
+ * @param address - The sender's Sui address
+ * @param sign - Signs BCS transaction bytes, returning a serialized signature
+ * @param client - SuiClient for building transactions; without one, only signing is available
+ * @returns A ClientSuiSigner instance
+ */
+function createClientSuiSigner(
+  address: string,
+  sign: (txBytes: Uint8Array) => Promise<string>,
+  client?: SuiClient,
+): ClientSuiSigner {
+  let epochCache: SuiEpochInfo | undefined;
+
   return {
-    address: keypair.toSuiAddress(),
+    address,
 
     async signTransaction(transaction: Transaction): Promise<{ signature: string; bytes: string }> {
       const txBytes = await transaction.build({ client });
-      const { signature } = await keypair.signTransaction(txBytes);
+      const signature = await sign(txBytes);
       const bytes = toBase64(txBytes);
       return { signature, bytes };
     },
+
+    async buildTransactionKind(transaction: Transaction): Promise<string> {
+      const kindBytes = await transaction.build({ client, onlyTransactionKind: true });
+      return toBase64(kindBytes);
+    },
+
+    getEpochInfo: client
+      ? async (refresh = false): Promise<SuiEpochInfo> => {
+          if (refresh || !epochCache || isEpochOver(epochCache)) {
+            epochCache = await fetchEpochInfo(client);
+          }
+          return epochCache;
+        }
+      : undefined,
+
+    getObjectRefs: client
+      ? async (objectIds: string[]): Promise<(ObjectRef | undefined)[]> => {
+          const objects = await client.multiGetObjects({ ids: objectIds });
+          return objects.map(object =>
+            object.data
+              ? {
+                  objectId: object.data.objectId,
+                  version: object.data.version,
+                  digest: object.data.digest,
+                }
+              : undefined,
+          );
+        }
+      : undefined,
+
+    getTransactionStatus: client
+      ? async (digest: string): Promise<SuiTransactionStatus> => {
+          let result;
+          try {
+            result = await client.getTransactionBlock({ digest, options: { showEffects: true } });
+          } catch (error) {
+            if (error instanceof Error && /could not find/i.test(error.message)) {
+              return { status: "not_found" };
+            }
+            throw error;
+          }
+
+          const status = result.effects?.status;
+          if (!status) return { status: "not_found" };
+          return status.status === "success"
+            ? { status: "success" }
+            : { status: "failure", error: status.error };
+        }
+      : undefined,
+
+    dryRunTransaction: client
+      ? async (transaction: Transaction): Promise<DryRunTransactionBlockResponse> => {
+          const txBytes = await transaction.build({ client });
+          return client.dryRunTransactionBlock({ transactionBlock: txBytes });
+        }
+      : undefined,
+
+    getBalance: client
+      ? async (coinType: string): Promise<bigint> => {
+          const { totalBalance } = await client.getBalance({ owner: address, coinType });
+          return BigInt(totalBalance);
+        }
+      : undefined,
   };
 }
@@ -0,0 +1,236 @@
+import { JsonRpcError } from "@mysten/sui/client";
+import type {
+  DryRunTransactionBlockResponse,
+  SuiClient,
+  SuiTransactionBlockResponse,
+} from "@mysten/sui/client";
+import type { Signer } from "@mysten/sui/cryptography";
+import { fromBase64, normalizeStructTag } from "@mysten/sui/utils";
+import { SUI_COIN_TYPE } from "../constants";
+import { classifyRpcError } from "../errors";
+import { recoverSigner } from "../signer";
+import type { FacilitatorSuiSigner } from "../signer";
+import type { SuiEpochInfo, SuiTransactionStatus } from "../types";
+import type { FakeSuiLedger, FakeTransactionEffects } from "./ledger";
+import { createStubZkLoginProvider } from "./zklogin";
+
+/**
+ * Create a SuiClient stand-in backed by a FakeSuiLedger.
+ * It implements what transaction building, coinWithBalance, and the package's
+ * client signers call; anything else is undefined.
+ *
+ * @param ledger - The ledger to read and write
+ * @returns A SuiClient for toClientSuiSigner and friends
+ */
+export function createFakeSuiClient(ledger: FakeSuiLedger): SuiClient {
+  const getTransaction = async ({ digest }: { digest: string }) => {
+    const effects = ledger.getTransaction(digest);
+    if (!effects) {
+      throw new JsonRpcError(
+        `Could not find the referenced transaction [TransactionDigest(${digest})]`,
+        -32602,
+      );
+    }
+    return toTransactionResponse(effects);
+  };
+
+  return {
+    jsonRpc: {},
+    getCoins: async ({ owner, coinType }: { owner: string; coinType?: string | null }) => ({
+      data: ledger.getCoins(owner, coinType ?? SUI_COIN_TYPE).map(coin => ({
+        coinObjectId: coin.objectId,
+        version: coin.version,
+        digest: coin.digest,
+        balance: String(coin.balance),
+        coinType: coin.coinType,
+        previousTransaction: "",
+      })),
+      hasNextPage: false,
+      nextCursor: null,
+    }),
+    getBalance: async ({ owner, coinType }: { owner: string; coinType?: string | null }) => {
+      const type = coinType ?? SUI_COIN_TYPE;
+      return {
+        coinType: normalizeStructTag(type),
+        coinObjectCount: ledger.getCoins(owner, type).length,
+        totalBalance: String(ledger.getBalance(owner, type)),
+        lockedBalance: {},
+      };
+    },
+    multiGetObjects: async ({ ids }: { ids: string[] }) =>
+      ids.map(id => {
+        const coin = ledger.getCoin(id);
+        if (!coin) return { error: { code: "notExists", object_id: id } };
+        return {
+          data: {
+            objectId: coin.objectId,
+            version: coin.version,
+            digest: coin.digest,
+            type: `0x2::coin::Coin<${coin.coinType}>`,
+            owner: { AddressOwner: coin.owner },
+          },
+        };
+      }),
+    getReferenceGasPrice: async () => ledger.getReferenceGasPrice(),
+    getLatestSuiSystemState: async () => {
+      const { epoch, epochStartTimestampMs, epochDurationMs } = ledger.getEpochInfo();
+      return {
+        epoch: String(epoch),
+        epochStartTimestampMs: String(epochStartTimestampMs),
+        epochDurationMs: String(epochDurationMs),
+        referenceGasPrice: String(ledger.getReferenceGasPrice()),
+      };
+    },
+    getChainIdentifier: async () => ledger.chainIdentifier,
+    dryRunTransactionBlock: async ({
+      transactionBlock,
+    }: {
+      transactionBlock: Uint8Array | string;
+    }) => toDryRunResponse(ledger.dryRun(transactionBlock)),
+    executeTransactionBlock: async ({
+      transactionBlock,
+      signature,
+    }: {
+      transactionBlock: Uint8Array | string;
+      signature: string | string[];
+    }) => toTransactionResponse(await ledger.execute(transactionBlock, signature)),
+    getTransactionBlock: getTransaction,
+    waitForTransaction: getTransaction,
+  } as unknown as SuiClient;
+}
+
+/**
+ * Create a FacilitatorSuiSigner backed by a FakeSuiLedger.
+ * Signatures are verified for real; zkLogin proofs are accepted as with the stub provider.
+ *
+ * @param ledger - The ledger to simulate and execute against
+ * @param keypair - Optional keypair for gas sponsorship signing
+ * @returns A FacilitatorSuiSigner for the ledger's network
+ */
+export function toFakeFacilitatorSuiSigner(
+  ledger: FakeSuiLedger,
+  keypair?: Signer,
+): FacilitatorSuiSigner {
+  const checkNetwork = (network: string): void => {
+    if (network !== ledger.network) {
+      throw new Error(`FakeSuiLedger serves ${ledger.network}, not ${network}`);
+    }
+  };
+
+  const getTransactionStatus = async (
+    digest: string,
+    network: string,
+  ): Promise<SuiTransactionStatus> => {
+    checkNetwork(network);
+    const effects = ledger.getTransaction(digest);
+    if (!effects) return { status: "not_found" };
+    return effects.status.status === "success"
+      ? { status: "success" }
+      : { status: "failure", error: effects.status.error };
+  };
+
+  return {
+    getAddresses(): readonly string[] {
+      if (!keypair) return [];
+      return [keypair.toSuiAddress()];
+    },
+
+    async verifySignature(
+      transactionBytes: string,
+      signature: string,
+      network: string,
+    ): Promise<string> {
+      checkNetwork(network);
+      const zkLoginProvider = createStubZkLoginProvider({ epoch: ledger.getEpochInfo().epoch });
+      return recoverSigner(transactionBytes, signature, network, zkLoginProvider);
+    },
+
+    async simulateTransaction(
+      transactionBytes: string,
+      network: string,
+    ): Promise<DryRunTransactionBlockResponse> {
+      checkNetwork(network);
+      try {
+        return toDryRunResponse(ledger.dryRun(transactionBytes));
+      } catch (error) {
+        throw classifyRpcError(error);
+      }
+    },
+
+    async getEpochInfo(network: string): Promise<SuiEpochInfo> {
+      checkNetwork(network);
+      return ledger.getEpochInfo();
+    },
+
+    async signTransaction(transactionBytes: string, address: string): Promise<string> {
+      if (!keypair || keypair.toSuiAddress() !== address) {
+        throw new Error(`No sponsor keypair available for address: ${address}`);
+      }
+      const { signature } = await keypair.signTransaction(fromBase64(transactionBytes));
+      return signature;
+    },
+
+    async executeTransaction(
+      transaction: string,
+      signature: string | string[],
+      network: string,
+    ): Promise<string> {
+      checkNetwork(network);
+      const effects = await ledger.execute(transaction, signature);
+      if (effects.status.status !== "success") {
+        throw new Error(`Transaction execution failed: ${effects.status.error || "unknown error"}`);
+      }
+      return effects.digest;
+    },
+
+    async waitForTransaction(digest: string, network: string): Promise<void> {
+      if ((await getTransactionStatus(digest, network)).status === "not_found") {
+        throw new Error(`Could not find the referenced transaction [TransactionDigest(${digest})]`);
+      }
+    },
+
+    getTransactionStatus,
+
+    async verifyNetwork(network: string): Promise<void> {
+      checkNetwork(network);
+    },
+  };
+}
+
+/**
+ * Shape ledger effects as a JSON-RPC dry-run response.
+ *
+ * @param effects - The ledger's effects
+ * @returns The dry-run response
+ */
+function toDryRunResponse(effects: FakeTransactionEffects): DryRunTransactionBlockResponse {
+  return {
+    effects: {
+      transactionDigest: effects.digest,
+      status: effects.status,
+      gasUsed: effects.gasUsed,
+    },
+    balanceChanges: effects.balanceChanges,
+    objectChanges: effects.objectChanges,
+    events: [],
+  } as unknown as DryRunTransactionBlockResponse;
+}
+
+/**
+ * Shape ledger effects as a JSON-RPC transaction response.
+ *
+ * @param effects - The ledger's effects
+ * @returns The transaction response
+ */
+function toTransactionResponse(effects: FakeTransactionEffects): SuiTransactionBlockResponse {
+  return {
+    digest: effects.digest,
+    effects: {
+      transactionDigest: effects.digest,
+      status: effects.status,
+      gasUsed: effects.gasUsed,
+    },
+    balanceChanges: effects.balanceChanges,
+    objectChanges: effects.objectChanges,
+  } as unknown as SuiTransactionBlockResponse;
+}
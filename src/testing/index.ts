@@ -0,0 +1,7 @@
+export { FakeSuiLedger } from "./ledger";
+export type { FakeSuiLedgerOptions, FakeCoin, FakeTransactionEffects } from "./ledger";
+export { createFakeSuiClient, toFakeFacilitatorSuiSigner } from "./adapters";
+export { startMockSuiRpcServer } from "./rpcServer";
+export type { MockSuiRpcReply, MockSuiRpcServer, MockSuiRpcServerOptions } from "./rpcServer";
+export { createStubZkLoginProvider } from "./zklogin";
+export type { StubZkLoginProviderConfig } from "./zklogin";
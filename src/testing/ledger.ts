@@ -0,0 +1,767 @@
+import { bcs } from "@mysten/sui/bcs";
+import { JsonRpcError } from "@mysten/sui/client";
+import type {
+  BalanceChange,
+  ExecutionStatus,
+  GasCostSummary,
+  SuiObjectChange,
+} from "@mysten/sui/client";
+import { TransactionDataBuilder } from "@mysten/sui/transactions";
+import {
+  fromBase58,
+  fromBase64,
+  fromHex,
+  normalizeStructTag,
+  normalizeSuiAddress,
+  toBase58,
+  toBase64,
+  toHex,
+} from "@mysten/sui/utils";
+import { SUI_COIN_TYPE, SUI_TESTNET_CAIP2 } from "../constants";
+import { suiNetworks } from "../networks";
+import { recoverSigner } from "../signer";
+import type { SuiEpochInfo } from "../types";
+import { createStubZkLoginProvider } from "./zklogin";
+
+/**
+ * Configuration for a FakeSuiLedger
+ */
+export interface FakeSuiLedgerOptions {
+  /**
+   * CAIP-2 network the ledger stands in for (default sui:testnet)
+   */
+  network?: string;
+
+  /**
+   * Chain identifier reported to clients (defaults to the registry's for the network)
+   */
+  chainIdentifier?: string;
+
+  /**
+   * Starting epoch (default 1)
+   */
+  epoch?: number;
+
+  /**
+   * Epoch duration in milliseconds (default one day)
+   */
+  epochDurationMs?: number;
+
+  /**
+   * Reference gas price in MIST (default 1000)
+   */
+  referenceGasPrice?: bigint;
+
+  /**
+   * Computation cost charged to every transaction, in MIST (default 1,000,000)
+   */
+  computationCost?: bigint;
+}
+
+/**
+ * A coin object held by the ledger
+ */
+export type FakeCoin = {
+  objectId: string;
+  version: string;
+  digest: string;
+  owner: string;
+  coinType: string;
+  balance: bigint;
+};
+
+/**
+ * Outcome of a dry-run or executed transaction, in JSON-RPC shapes
+ */
+export type FakeTransactionEffects = {
+  digest: string;
+  status: ExecutionStatus;
+  gasUsed: GasCostSummary;
+  balanceChanges: BalanceChange[];
+  objectChanges: SuiObjectChange[];
+};
+
+type CoinState = {
+  objectId: string;
+  version: bigint;
+  owner: string | null;
+  coinType: string;
+  balance: bigint;
+};
+
+type Argument =
+  | { $kind: "GasCoin" }
+  | { $kind: "Input"; Input: number }
+  | { $kind: "Result"; Result: number }
+  | { $kind: "NestedResult"; NestedResult: [number, number] };
+
+/**
+ * Id of the stand-in gas coin used when a dry run names no gas payment
+ */
+const DRY_RUN_GAS_COIN = normalizeSuiAddress("0x0");
+
+/**
+ * Balance of the stand-in gas coin (a billion SUI), so dry runs are not limited by it
+ */
+const DRY_RUN_GAS_BALANCE = 1_000_000_000_000_000_000n;
+
+/**
+ * A failed command; the transaction still charges gas
+ */
+class CommandFailure extends Error {}
+
+/**
+ * An in-memory Sui ledger for deterministic tests.
+ * It holds coin balances per address and dry-runs and executes real BCS-encoded
+ * PTBs (SplitCoins, MergeCoins, TransferObjects, and `0x2::coin::zero`) with the
+ * checks a fullnode applies: owned-object versions, ownership, signatures, gas,
+ * and expiration. Spent coin versions are rejected, so double-spends fail.
+ * Errors are thrown as JsonRpcError with the node's wording, so the package's
+ * error classification treats them like a real node's.
+ */
+export class FakeSuiLedger {
+  readonly network: string;
+  readonly chainIdentifier: string;
+  private readonly coins = new Map<string, CoinState>();
+  private readonly transactions = new Map<string, FakeTransactionEffects>();
+  private readonly epochDurationMs: number;
+  private referenceGasPrice: bigint;
+  private readonly computationCost: bigint;
+  private epoch: number;
+  private epochStartTimestampMs = Date.now();
+  private nextObjectId = 0x1000n;
+
+  /**
+   * Creates a new FakeSuiLedger.
+   *
+   * @param options - Optional network, epoch, and gas settings
+   */
+  constructor(options: FakeSuiLedgerOptions = {}) {
+    this.network = options.network ?? SUI_TESTNET_CAIP2;
+    this.chainIdentifier =
+      options.chainIdentifier ?? suiNetworks.get(this.network)?.chainIdentifier ?? "00000000";
+    this.epoch = options.epoch ?? 1;
+    this.epochDurationMs = options.epochDurationMs ?? 86_400_000;
+    this.referenceGasPrice = options.referenceGasPrice ?? 1000n;
+    this.computationCost = options.computationCost ?? 1_000_000n;
+  }
+
+  /**
+   * Create a coin out of thin air.
+   *
+   * @param owner - Address that owns the new coin
+   * @param amount - Balance in the coin's smallest unit
+   * @param coinType - Coin type (default SUI)
+   * @returns The new coin
+   */
+  mint(owner: string, amount: bigint | number | string, coinType = SUI_COIN_TYPE): FakeCoin {
+    const coin: CoinState = {
+      objectId: normalizeSuiAddress(`0x${(this.nextObjectId++).toString(16)}`),
+      version: 1n,
+      owner: normalizeSuiAddress(owner),
+      coinType: normalizeStructTag(coinType),
+      balance: BigInt(amount),
+    };
+    this.coins.set(coin.objectId, coin);
+    return toFakeCoin(coin);
+  }
+
+  /**
+   * List the coins an address owns.
+   *
+   * @param owner - The owner's address
+   * @param coinType - Coin type (default SUI)
+   * @returns The owner's coins of that type, oldest first
+   */
+  getCoins(owner: string, coinType = SUI_COIN_TYPE): FakeCoin[] {
+    const address = normalizeSuiAddress(owner);
+    const type = normalizeStructTag(coinType);
+    return [...this.coins.values()]
+      .filter(coin => coin.owner === address && coin.coinType === type)
+      .map(toFakeCoin);
+  }
+
+  /**
+   * Look up a coin by object id.
+   *
+   * @param objectId - The coin's object id
+   * @returns The coin, or undefined if it does not exist (or was merged away)
+   */
+  getCoin(objectId: string): FakeCoin | undefined {
+    const coin = this.coins.get(normalizeSuiAddress(objectId));
+    return coin && toFakeCoin(coin);
+  }
+
+  /**
+   * Get an address's total balance of a coin type.
+   *
+   * @param owner - The owner's address
+   * @param coinType - Coin type (default SUI)
+   * @returns The summed balance
+   */
+  getBalance(owner: string, coinType = SUI_COIN_TYPE): bigint {
+    return this.getCoins(owner, coinType).reduce((sum, coin) => sum + coin.balance, 0n);
+  }
+
+  /**
+   * Get the current epoch timing.
+   *
+   * @returns The current epoch timing
+   */
+  getEpochInfo(): SuiEpochInfo {
+    return {
+      epoch: this.epoch,
+      epochStartTimestampMs: this.epochStartTimestampMs,
+      epochDurationMs: this.epochDurationMs,
+    };
+  }
+
+  /**
+   * Start the next epoch now. Transactions that expired in the previous epoch are rejected.
+   *
+   * @param referenceGasPrice - The new epoch's reference gas price (default: unchanged)
+   * @returns The new epoch number
+   */
+  advanceEpoch(referenceGasPrice?: bigint): number {
+    this.epochStartTimestampMs = Date.now();
+    if (referenceGasPrice !== undefined) this.referenceGasPrice = referenceGasPrice;
+    return ++this.epoch;
+  }
+
+  /**
+   * Get the reference gas price.
+   *
+   * @returns The reference gas price in MIST
+   */
+  getReferenceGasPrice(): bigint {
+    return this.referenceGasPrice;
+  }
+
+  /**
+   * Dry-run a transaction without changing the ledger.
+   * Without a gas payment, a stand-in gas coin holding the budget is used, as fullnodes do.
+   *
+   * @param transactionBytes - BCS TransactionData, raw or base64-encoded
+   * @returns The transaction's effects
+   * @throws JsonRpcError if the node would refuse to run the transaction
+   */
+  dryRun(transactionBytes: Uint8Array | string): FakeTransactionEffects {
+    return this.process(toBytes(transactionBytes), false).effects;
+  }
+
+  /**
+   * Execute a signed transaction. Failed transactions still charge gas, as on chain.
+   * Re-submitting an executed transaction returns its original effects.
+   *
+   * @param transactionBytes - BCS TransactionData, raw or base64-encoded
+   * @param signature - Base64-encoded signature(s): sender, plus gas owner when sponsored
+   * @returns The transaction's effects
+   * @throws JsonRpcError if signatures are missing or the node would refuse the transaction
+   */
+  async execute(
+    transactionBytes: Uint8Array | string,
+    signature: string | string[],
+  ): Promise<FakeTransactionEffects> {
+    const bytes = toBytes(transactionBytes);
+    const digest = TransactionDataBuilder.getDigestFromBytes(bytes);
+    const executed = this.transactions.get(digest);
+    if (executed) return executed;
+
+    const data = decode(bytes);
+    const zkLoginProvider = createStubZkLoginProvider({ epoch: this.epoch });
+    const signers = new Set<string>();
+    for (const sig of [signature].flat()) {
+      try {
+        signers.add(
+          normalizeSuiAddress(
+            await recoverSigner(toBase64(bytes), sig, this.network, zkLoginProvider),
+          ),
+        );
+      } catch (error) {
+        throw new JsonRpcError(
+          `Invalid user signature: ${error instanceof Error ? error.message : String(error)}`,
+          -32602,
+        );
+      }
+    }
+
+    const sender = normalizeSuiAddress(data.sender ?? "0x0");
+    const gasOwner = normalizeSuiAddress(data.gasData.owner ?? sender);
+    for (const required of new Set([sender, gasOwner])) {
+      if (!signers.has(required)) {
+        throw new JsonRpcError(
+          `Invalid user signature: Required Signature from ${required} is absent`,
+          -32602,
+        );
+      }
+    }
+
+    // Signatures were checked against these exact bytes, so the effects cannot have changed since
+    const { effects, writes } = this.process(bytes, true);
+    for (const [objectId, coin] of writes) {
+      if (coin) this.coins.set(objectId, coin);
+      else this.coins.delete(objectId);
+    }
+    this.transactions.set(digest, effects);
+    return effects;
+  }
+
+  /**
+   * Look up an executed transaction.
+   *
+   * @param digest - Transaction digest
+   * @returns The transaction's effects, or undefined if it was never executed
+   */
+  getTransaction(digest: string): FakeTransactionEffects | undefined {
+    return this.transactions.get(digest);
+  }
+
+  /**
+   * Check and run a transaction against a working copy of the ledger.
+   *
+   * @param bytes - BCS TransactionData
+   * @param execute - Whether the result will be committed (a gas payment is then required)
+   * @returns The effects, and every object write to commit
+   */
+  private process(
+    bytes: Uint8Array,
+    execute: boolean,
+  ): { effects: FakeTransactionEffects; writes: Map<string, CoinState | null> } {
+    const data = decode(bytes);
+    const digest = TransactionDataBuilder.getDigestFromBytes(bytes);
+    const sender = normalizeSuiAddress(data.sender ?? "0x0");
+    const gasOwner = normalizeSuiAddress(data.gasData.owner ?? sender);
+    const budget = BigInt(data.gasData.budget ?? 0);
+    const price = BigInt(data.gasData.price ?? 0);
+
+    if (data.expiration?.$kind === "Epoch" && Number(data.expiration.Epoch) < this.epoch) {
+      throw new JsonRpcError("TransactionExpired", -32602);
+    }
+    if (price < this.referenceGasPrice) {
+      throw new JsonRpcError(
+        `Gas price ${price} under reference gas price (RGP) ${this.referenceGasPrice}`,
+        -32602,
+      );
+    }
+
+    // Owned inputs must exist at the referenced version and belong to the signer
+    const before = new Map<string, CoinState>();
+    const inputIds = data.inputs.map(input => {
+      if (input.$kind === "Pure") return undefined;
+      if (input.$kind !== "Object" || input.Object.$kind !== "ImmOrOwnedObject") {
+        throw new JsonRpcError("FakeSuiLedger only supports owned coin inputs", -32602);
+      }
+      const ref = input.Object.ImmOrOwnedObject;
+      before.set(ref.objectId, this.checkObject(ref, sender, before));
+      return normalizeSuiAddress(ref.objectId);
+    });
+
+    const payment = data.gasData.payment ?? [];
+    if (payment.length === 0 && execute) {
+      throw new JsonRpcError("Missing gas payment", -32602);
+    }
+    for (const ref of payment) {
+      const coin = this.checkObject(ref, gasOwner, before);
+      if (coin.coinType !== normalizeStructTag(SUI_COIN_TYPE)) {
+        throw new JsonRpcError(`Gas object ${ref.objectId} is not a SUI coin`, -32602);
+      }
+      before.set(coin.objectId, coin);
+    }
+
+    const gasCoins = payment.map(ref => before.get(normalizeSuiAddress(ref.objectId))!);
+    const gasBalance = gasCoins.reduce((sum, coin) => sum + coin.balance, 0n);
+    if (gasCoins.length > 0 && gasBalance < budget) {
+      throw new JsonRpcError(
+        `Error checking transaction input objects: GasBalanceTooLow { gas_balance: ${gasBalance}, needed_gas_amount: ${budget} }`,
+        -32602,
+      );
+    }
+
+    // Smash the gas payment into its first coin
+    const objects = new Map<string, CoinState>();
+    before.forEach((coin, id) => objects.set(id, { ...coin }));
+    const gasId = gasCoins[0]?.objectId ?? DRY_RUN_GAS_COIN;
+    const dryRunGas: CoinState | undefined =
+      gasCoins.length === 0
+        ? {
+            objectId: gasId,
+            version: 0n,
+            owner: gasOwner,
+            coinType: normalizeStructTag(SUI_COIN_TYPE),
+            balance: DRY_RUN_GAS_BALANCE,
+          }
+        : undefined;
+    if (dryRunGas) objects.set(gasId, { ...dryRunGas });
+    gasCoins.slice(1).forEach(coin => {
+      objects.get(gasId)!.balance += coin.balance;
+      objects.delete(coin.objectId);
+    });
+
+    const gasCharge = this.computationCost < budget ? this.computationCost : budget;
+    const afterGasSmash = cloneObjects(objects);
+    let status: ExecutionStatus = { status: "success" };
+    try {
+      if (this.computationCost > budget) throw new CommandFailure("InsufficientGas");
+      this.runCommands(data, inputIds, { id: gasId, reserved: budget }, objects, digest);
+    } catch (error) {
+      if (!(error instanceof CommandFailure)) throw error;
+      status = { status: "failure", error: error.message };
+      objects.clear();
+      afterGasSmash.forEach((coin, id) => objects.set(id, coin));
+    }
+    objects.get(gasId)!.balance -= gasCharge;
+
+    return this.summarize(digest, sender, status, gasCharge, before, objects, dryRunGas);
+  }
+
+  /**
+   * Check an owned object reference against the ledger.
+   *
+   * @param ref - The object reference from the transaction
+   * @param owner - The address that must own the object
+   * @param seen - Objects already used by this transaction
+   * @returns A copy of the object's current state
+   */
+  private checkObject(
+    ref: { objectId: string; version: string | number; digest: string },
+    owner: string,
+    seen: Map<string, CoinState>,
+  ): CoinState {
+    const objectId = normalizeSuiAddress(ref.objectId);
+    const coin = this.coins.get(objectId);
+    if (!coin) {
+      throw new JsonRpcError(
+        `Error checking transaction input objects: ObjectNotFound { object_id: ${objectId}, version: Some(SequenceNumber(${ref.version})) }`,
+        -32602,
+      );
+    }
+    if (seen.has(objectId)) {
+      throw new JsonRpcError(
+        `Error checking transaction input objects: MutableObjectUsedMoreThanOnce { object_id: ${objectId} }`,
+        -32602,
+      );
+    }
+    if (BigInt(ref.version) !== coin.version || ref.digest !== objectDigest(coin)) {
+      throw new JsonRpcError(
+        `Error checking transaction input objects: ObjectVersionUnavailableForConsumption { provided_obj_ref: (${objectId}, SequenceNumber(${ref.version}), o#${ref.digest}), current_version: SequenceNumber(${coin.version}) }`,
+        -32602,
+      );
+    }
+    if (coin.owner !== owner) {
+      throw new JsonRpcError(
+        `Error checking transaction input objects: IncorrectUserSignature { error: "Object ${objectId} is owned by account address ${coin.owner}, but given owner/signer address is ${owner}" }`,
+        -32602,
+      );
+    }
+    return { ...coin };
+  }
+
+  /**
+   * Run the PTB's commands against the working objects.
+   *
+   * @param data - The decoded transaction
+   * @param inputIds - Object id of each input (undefined for pure inputs)
+   * @param gas - The (smashed) gas coin, and the budget reserved in it
+   * @param objects - Working object state, updated in place
+   * @param digest - Transaction digest, used to derive new object ids
+   * @throws CommandFailure if a command fails
+   */
+  private runCommands(
+    data: ReturnType<TransactionDataBuilder["snapshot"]>,
+    inputIds: Array<string | undefined>,
+    gas: { id: string; reserved: bigint },
+    objects: Map<string, CoinState>,
+    digest: string,
+  ): void {
+    const results: string[][] = [];
+    const created = new Set<string>();
+    let createdCount = 0;
+
+    const createCoin = (coinType: string, balance: bigint): string => {
+      const id = bytesToId(fromBase58(digest), ++createdCount);
+      objects.set(id, { objectId: id, version: 0n, owner: null, coinType, balance });
+      created.add(id);
+      return id;
+    };
+
+    for (const [index, command] of data.commands.entries()) {
+      const coinOf = (arg: Argument): CoinState => {
+        const id =
+          arg.$kind === "GasCoin"
+            ? gas.id
+            : arg.$kind === "Input"
+              ? inputIds[arg.Input]
+              : arg.$kind === "Result"
+                ? results[arg.Result]?.[0]
+                : results[arg.NestedResult[0]]?.[arg.NestedResult[1]];
+        const coin = id && objects.get(id);
+        if (!coin) throw new CommandFailure(`InvalidValueUsage in command ${index}`);
+        return coin;
+      };
+      const pureOf = (arg: Argument): Uint8Array => {
+        const input = arg.$kind === "Input" ? data.inputs[arg.Input] : undefined;
+        if (input?.$kind !== "Pure")
+          throw new CommandFailure(`InvalidArgument in command ${index}`);
+        return fromBase64(input.Pure.bytes);
+      };
+
+      switch (command.$kind) {
+        case "SplitCoins": {
+          const coin = coinOf(command.SplitCoins.coin as Argument);
+          const amounts = command.SplitCoins.amounts.map(amount =>
+            BigInt(bcs.u64().parse(pureOf(amount as Argument))),
+          );
+          const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+          const available = coin.objectId === gas.id ? coin.balance - gas.reserved : coin.balance;
+          if (available < total) {
+            throw new CommandFailure(`InsufficientCoinBalance in command ${index}`);
+          }
+          coin.balance -= total;
+          results[index] = amounts.map(amount => createCoin(coin.coinType, amount));
+          break;
+        }
+        case "MergeCoins": {
+          const destination = coinOf(command.MergeCoins.destination as Argument);
+          for (const source of command.MergeCoins.sources) {
+            const coin = coinOf(source as Argument);
+            if (coin.objectId === gas.id) {
+              throw new CommandFailure(`InvalidGasCoinUsage in command ${index}`);
+            }
+            if (coin.coinType !== destination.coinType || coin === destination) {
+              throw new CommandFailure(`TypeMismatch in command ${index}`);
+            }
+            destination.balance += coin.balance;
+            objects.delete(coin.objectId);
+            created.delete(coin.objectId);
+          }
+          results[index] = [];
+          break;
+        }
+        case "TransferObjects": {
+          const recipient = normalizeSuiAddress(
+            bcs.Address.parse(pureOf(command.TransferObjects.address as Argument)),
+          );
+          command.TransferObjects.objects.forEach(object => {
+            coinOf(object as Argument).owner = recipient;
+          });
+          results[index] = [];
+          break;
+        }
+        case "MoveCall": {
+          const { package: pkg, module, function: fn, typeArguments } = command.MoveCall;
+          if (
+            normalizeSuiAddress(pkg) !== normalizeSuiAddress("0x2") ||
+            module !== "coin" ||
+            fn !== "zero"
+          ) {
+            throw new JsonRpcError(
+              `FakeSuiLedger does not support Move call ${pkg}::${module}::${fn}`,
+              -32602,
+            );
+          }
+          results[index] = [createCoin(normalizeStructTag(typeArguments[0]), 0n)];
+          break;
+        }
+        default:
+          throw new JsonRpcError(
+            `FakeSuiLedger does not support ${command.$kind} commands`,
+            -32602,
+          );
+      }
+    }
+
+    // Values without `drop` must end up somewhere
+    for (const [resultIndex, ids] of results.entries()) {
+      ids?.forEach((id, secondaryIndex) => {
+        if (objects.get(id)?.owner === null) {
+          throw new CommandFailure(
+            `UnusedValueWithoutDrop { result_idx: ${resultIndex}, secondary_idx: ${secondaryIndex} }`,
+          );
+        }
+      });
+    }
+  }
+
+  /**
+   * Derive effects, balance changes, and object changes from before and after states.
+   *
+   * @param digest - Transaction digest
+   * @param sender - Transaction sender
+   * @param status - Execution status
+   * @param gasCharge - Gas charged
+   * @param before - Objects the transaction read, as they were
+   * @param after - Objects as the transaction left them
+   * @param dryRunGas - The stand-in gas coin, if the dry run named no gas payment
+   * @returns The effects, and every object write to commit
+   */
+  private summarize(
+    digest: string,
+    sender: string,
+    status: ExecutionStatus,
+    gasCharge: bigint,
+    before: Map<string, CoinState>,
+    after: Map<string, CoinState>,
+    dryRunGas: CoinState | undefined,
+  ): { effects: FakeTransactionEffects; writes: Map<string, CoinState | null> } {
+    // Every written object takes the Lamport version: one past the highest input version
+    const version =
+      [...before.values()].reduce((max, coin) => (coin.version > max ? coin.version : max), 0n) +
+      1n;
+
+    const balances = new Map<string, bigint>();
+    const addBalance = (coin: CoinState, sign: bigint) => {
+      const key = `${coin.owner} ${coin.coinType}`;
+      balances.set(key, (balances.get(key) ?? 0n) + sign * coin.balance);
+    };
+    before.forEach(coin => addBalance(coin, -1n));
+    if (dryRunGas) addBalance(dryRunGas, -1n);
+    after.forEach(coin => addBalance(coin, 1n));
+
+    const writes = new Map<string, CoinState | null>();
+    const objectChanges: SuiObjectChange[] = [];
+    for (const [id, previous] of before) {
+      const coin = after.get(id);
+      const objectType = `0x2::coin::Coin<${previous.coinType}>`;
+      if (!coin) {
+        writes.set(id, null);
+        objectChanges.push({
+          type: "deleted",
+          sender,
+          objectType,
+          objectId: id,
+          version: String(version),
+        });
+        continue;
+      }
+      const written = { ...coin, version };
+      writes.set(id, written);
+      objectChanges.push({
+        type: "mutated",
+        sender,
+        owner: { AddressOwner: coin.owner! },
+        objectType,
+        objectId: id,
+        version: String(version),
+        previousVersion: String(previous.version),
+        digest: objectDigest(written),
+      });
+    }
+    for (const [id, coin] of after) {
+      if (before.has(id) || id === dryRunGas?.objectId) continue;
+      const written = { ...coin, version };
+      writes.set(id, written);
+      objectChanges.push({
+        type: "created",
+        sender,
+        owner: { AddressOwner: coin.owner! },
+        objectType: `0x2::coin::Coin<${coin.coinType}>`,
+        objectId: id,
+        version: String(version),
+        digest: objectDigest(written),
+      });
+    }
+
+    const balanceChanges: BalanceChange[] = [...balances]
+      .filter(([, amount]) => amount !== 0n)
+      .map(([key, amount]) => {
+        const [owner, coinType] = key.split(" ");
+        return { owner: { AddressOwner: owner }, coinType, amount: String(amount) };
+      });
+
+    return {
+      effects: {
+        digest,
+        status,
+        gasUsed: {
+          computationCost: String(gasCharge),
+          storageCost: "0",
+          storageRebate: "0",
+          nonRefundableStorageFee: "0",
+        },
+        balanceChanges,
+        objectChanges,
+      },
+      writes,
+    };
+  }
+}
+
+/**
+ * Decode BCS TransactionData the way a node would, rejecting undecodable bytes.
+ *
+ * @param bytes - BCS TransactionData
+ * @returns The decoded transaction
+ */
+function decode(bytes: Uint8Array): ReturnType<TransactionDataBuilder["snapshot"]> {
+  try {
+    return TransactionDataBuilder.fromBytes(bytes).snapshot();
+  } catch (error) {
+    throw new JsonRpcError(
+      `Failed to deserialize transaction bytes: ${error instanceof Error ? error.message : String(error)}`,
+      -32602,
+    );
+  }
+}
+
+/**
+ * Accept raw or base64-encoded transaction bytes.
+ *
+ * @param transactionBytes - Raw or base64-encoded bytes
+ * @returns Raw bytes
+ */
+function toBytes(transactionBytes: Uint8Array | string): Uint8Array {
+  return typeof transactionBytes === "string" ? fromBase64(transactionBytes) : transactionBytes;
+}
+
+/**
+ * Copy working object state so a failed transaction can be rolled back.
+ *
+ * @param objects - Working object state
+ * @returns A deep copy
+ */
+function cloneObjects(objects: Map<string, CoinState>): Map<string, CoinState> {
+  return new Map([...objects].map(([id, coin]) => [id, { ...coin }]));
+}
+
+/**
+ * Derive a deterministic object digest from an object's id and version.
+ *
+ * @param coin - The object
+ * @returns A base58 object digest
+ */
+function objectDigest(coin: { objectId: string; version: bigint }): string {
+  const bytes = fromHex(coin.objectId);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  view.setBigUint64(0, view.getBigUint64(0) ^ coin.version);
+  return toBase58(bytes);
+}
+
+/**
+ * Derive the id of an object created by a transaction.
+ *
+ * @param digestBytes - The transaction digest bytes
+ * @param index - Creation index within the transaction
+ * @returns The new object id
+ */
+function bytesToId(digestBytes: Uint8Array, index: number): string {
+  const bytes = Uint8Array.from(digestBytes);
+  new DataView(bytes.buffer).setUint32(28, index);
+  return normalizeSuiAddress(toHex(bytes));
+}
+
+/**
+ * Convert internal state to the public coin shape.
+ *
+ * @param coin - Internal coin state
+ * @returns The public coin
+ */
+function toFakeCoin(coin: CoinState): FakeCoin {
+  return {
+    objectId: coin.objectId,
+    version: String(coin.version),
+    digest: objectDigest(coin),
+    owner: coin.owner ?? "",
+    coinType: coin.coinType,
+    balance: coin.balance,
+  };
+}
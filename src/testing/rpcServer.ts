@@ -0,0 +1,171 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { JsonRpcError } from "@mysten/sui/client";
+import type { SuiClient } from "@mysten/sui/client";
+import { fromHex, toBase58 } from "@mysten/sui/utils";
+import { createFakeSuiClient } from "./adapters";
+import type { FakeSuiLedger } from "./ledger";
+
+/**
+ * An answer that replaces the ledger's: a JSON-RPC result, a JSON-RPC error, or a bare
+ * HTTP status with no body
+ */
+export type MockSuiRpcReply =
+  | { result: unknown }
+  | { error: { code: number; message: string } }
+  | { status: number };
+
+/**
+ * Configuration for the mock Sui JSON-RPC server
+ */
+export interface MockSuiRpcServerOptions {
+  /**
+   * Port to listen on (default: a free port)
+   */
+  port?: number;
+
+  /**
+   * Host to listen on (default 127.0.0.1)
+   */
+  host?: string;
+
+  /**
+   * Called for each request before the ledger serves it. Return a reply to answer with it
+   * instead, or undefined to let the ledger answer. Lets tests simulate failing, slow, or
+   * misbehaving nodes.
+   */
+  intercept?: (
+    method: string,
+    params: unknown[],
+  ) => MockSuiRpcReply | undefined | Promise<MockSuiRpcReply | undefined>;
+}
+
+/**
+ * A running mock Sui JSON-RPC server
+ */
+export type MockSuiRpcServer = {
+  /**
+   * URL to pass to SuiClient, createSuiClient, or the facilitator's rpcUrls
+   */
+  url: string;
+
+  /**
+   * JSON-RPC methods called so far, in order
+   */
+  methods: string[];
+
+  /**
+   * Stop the server
+   */
+  close(): Promise<void>;
+};
+
+type MethodHandler = (client: SuiClient, params: unknown[]) => Promise<unknown>;
+
+/**
+ * JSON-RPC methods the package's signers and transaction building call, mapped onto the
+ * ledger-backed client. Params are positional, as SuiClient sends them.
+ */
+const METHODS: Record<string, MethodHandler> = {
+  sui_dryRunTransactionBlock: (client, [transactionBlock]) =>
+    client.dryRunTransactionBlock({ transactionBlock: transactionBlock as string }),
+  sui_executeTransactionBlock: (client, [transactionBlock, signature]) =>
+    client.executeTransactionBlock({
+      transactionBlock: transactionBlock as string,
+      signature: signature as string[],
+    }),
+  sui_getTransactionBlock: (client, [digest]) =>
+    client.getTransactionBlock({ digest: digest as string }),
+  sui_multiGetObjects: (client, [ids]) => client.multiGetObjects({ ids: ids as string[] }),
+  suix_getCoins: (client, [owner, coinType]) =>
+    client.getCoins({ owner: owner as string, coinType: coinType as string | null }),
+  suix_getBalance: (client, [owner, coinType]) =>
+    client.getBalance({ owner: owner as string, coinType: coinType as string | null }),
+  suix_getReferenceGasPrice: async client => String(await client.getReferenceGasPrice()),
+  suix_getLatestSuiSystemState: client => client.getLatestSuiSystemState(),
+  sui_getChainIdentifier: client => client.getChainIdentifier(),
+  // SuiClient.getChainIdentifier() derives the identifier from the genesis checkpoint's digest
+  sui_getCheckpoint: async (client, [id]) => {
+    if (id !== "0") {
+      throw new JsonRpcError(`Mock server only serves the genesis checkpoint, not ${id}`, -32602);
+    }
+    const digest = new Uint8Array(32);
+    digest.set(fromHex(await client.getChainIdentifier()));
+    return { sequenceNumber: "0", digest: toBase58(digest) };
+  },
+};
+
+/**
+ * Start a local HTTP server speaking the Sui JSON-RPC methods this package calls, backed by
+ * a FakeSuiLedger. SuiClient, createSuiClient, toClientSuiSigner, and toFacilitatorSuiSigner
+ * run against it unchanged, so integration tests exercise the real HTTP transport.
+ *
+ * @param ledger - The ledger to serve
+ * @param options - Optional host, port, and request interceptor
+ * @returns The running server's URL, method log, and close function
+ * @throws Error if the server cannot listen, e.g. because the port is in use
+ */
+export async function startMockSuiRpcServer(
+  ledger: FakeSuiLedger,
+  options: MockSuiRpcServerOptions = {},
+): Promise<MockSuiRpcServer> {
+  const client = createFakeSuiClient(ledger);
+  const methods: string[] = [];
+
+  const server = createServer(async (req, res) => {
+    let body = "";
+    for await (const chunk of req) body += chunk;
+
+    let id: unknown = null;
+    let response: Record<string, unknown>;
+    try {
+      const request = JSON.parse(body);
+      id = request.id;
+      methods.push(request.method);
+      const params = request.params ?? [];
+      const reply = await options.intercept?.(request.method, params);
+      if (reply && "status" in reply) {
+        res.writeHead(reply.status).end();
+        return;
+      }
+      if (reply) {
+        response = reply;
+      } else {
+        const handler = METHODS[request.method];
+        if (!handler) {
+          throw new JsonRpcError(`Method not found: ${request.method}`, -32601);
+        }
+        response = { result: await handler(client, params) };
+      }
+    } catch (error) {
+      response = {
+        error: {
+          code: error instanceof JsonRpcError ? error.code : -32603,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({ jsonrpc: "2.0", id, ...response }, (_, value) =>
+        typeof value === "bigint" ? String(value) : value,
+      ),
+    );
+  });
+
+  const host = options.host ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://${host}:${port}`,
+    methods,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
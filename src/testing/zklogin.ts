@@ -0,0 +1,67 @@
+import { parseSerializedSignature } from "@mysten/sui/cryptography";
+import { fromBase64 } from "@mysten/sui/utils";
+import type {
+  ZkLoginProvider,
+  ZkLoginVerificationRequest,
+  ZkLoginVerificationResult,
+} from "../zklogin";
+
+/**
+ * Configuration for the offline zkLogin provider
+ */
+export interface StubZkLoginProviderConfig {
+  /**
+   * Epoch reported as current
+   */
+  epoch: number;
+
+  /**
+   * Active JWKs as issuer / key id pairs. Signatures whose JWT header names a
+   * key outside this list are rejected. Omit to accept any key.
+   */
+  jwks?: Array<{ iss: string; kid: string }>;
+}
+
+/**
+ * Create an offline ZkLoginProvider for tests and local development.
+ * It checks the JWT issuer and key id against a fixed JWK list but does NOT
+ * verify the Groth16 proof — never use it against real payments.
+ *
+ * @param config - The epoch and JWKs to report
+ * @returns A ZkLoginProvider instance
+ */
+export function createStubZkLoginProvider(config: StubZkLoginProviderConfig): ZkLoginProvider {
+  return {
+    async getCurrentEpoch(_: string): Promise<number> {
+      return config.epoch;
+    },
+
+    async verifySignature(request: ZkLoginVerificationRequest): Promise<ZkLoginVerificationResult> {
+      if (!config.jwks) return { success: true, errors: [] };
+
+      const parsed = parseSerializedSignature(request.signature);
+      if (parsed.signatureScheme !== "ZkLogin") {
+        return { success: false, errors: ["Not a zkLogin signature"] };
+      }
+
+      const { iss } = parsed.zkLogin;
+      const { kid } = decodeJwtHeader(parsed.zkLogin.inputs.headerBase64);
+      const active = config.jwks.some(jwk => jwk.iss === iss && jwk.kid === kid);
+      return active
+        ? { success: true, errors: [] }
+        : { success: false, errors: [`No active JWK for issuer ${iss} with key id ${kid}`] };
+    },
+  };
+}
+
+/**
+ * Decode a base64url-encoded JWT header.
+ *
+ * @param headerBase64 - The JWT header segment
+ * @returns The decoded header fields
+ */
+function decodeJwtHeader(headerBase64: string): { kid?: string; alg?: string } {
+  const base64 = headerBase64.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return JSON.parse(new TextDecoder().decode(fromBase64(padded)));
+}
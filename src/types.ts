@@ -1,3 +1,5 @@
+import type { ObjectRef } from "@mysten/sui/transactions";
+
 /**
  * Sui-specific payload for the Exact payment scheme.
  * Contains a signed-but-not-executed transaction per the official Sui spec.
@@ -15,3 +17,214 @@ export type ExactSuiPayload = {
    */
   transaction: string;
 };
+
+/**
+ * Request body a client POSTs to a gas station advertised in `extra.gasStation`.
+ * The client sends only the TransactionKind (commands + inputs); the gas station
+ * attaches sponsored GasData and returns full TransactionData for the client to sign.
+ */
+export type GasStationSponsorRequest = {
+  /**
+   * CAIP-2 network identifier (e.g., "sui:testnet")
+   */
+  network: string;
+
+  /**
+   * The paying client's Sui address (TransactionData sender)
+   */
+  sender: string;
+
+  /**
+   * Base64-encoded BCS TransactionKind bytes (built with `onlyTransactionKind: true`)
+   */
+  transactionKind: string;
+
+  /**
+   * Epoch after which the transaction expires (TransactionExpiration::Epoch).
+   * Not part of the TransactionKind, so the gas station must carry it over.
+   */
+  expirationEpoch?: number;
+};
+
+/**
+ * Response body returned by a gas station.
+ */
+export type GasStationSponsorResponse = {
+  /**
+   * Base64-encoded BCS TransactionData with sponsored GasData attached
+   */
+  transaction: string;
+
+  /**
+   * The sponsor's Sui address (GasData.owner)
+   */
+  sponsor: string;
+};
+
+/**
+ * Static allowlist of PTB commands a facilitator accepts in payment transactions.
+ */
+export type PtbCommandAllowlist = {
+  /**
+   * Allowed non-MoveCall command kinds (e.g., "SplitCoins", "TransferObjects")
+   */
+  commands: string[];
+
+  /**
+   * Allowed MoveCall targets as "package::module::function" (e.g., "0x2::coin::zero")
+   */
+  moveCalls: string[];
+};
+
+/**
+ * Timing of the current Sui epoch, used to bound transaction expiration.
+ */
+export type SuiEpochInfo = {
+  /**
+   * Current epoch number
+   */
+  epoch: number;
+
+  /**
+   * Epoch start time (Unix milliseconds)
+   */
+  epochStartTimestampMs: number;
+
+  /**
+   * Epoch duration in milliseconds
+   */
+  epochDurationMs: number;
+};
+
+/**
+ * Coins and gas data for building a payment with no RPC calls.
+ * The refs must be current: a coin spent since they were read makes the payment fail verification.
+ */
+export type SuiOfflinePayment = {
+  /**
+   * Owned coins of the payment asset, merged and split to the amount.
+   * Not needed for SUI payments, which are split from the gas coin.
+   */
+  coins?: ObjectRef[];
+
+  /**
+   * Owned SUI coins to pay gas with (merged into the first)
+   */
+  gasPayment: ObjectRef[];
+
+  /**
+   * Gas price in MIST (at least the reference gas price)
+   */
+  gasPrice: bigint | number;
+
+  /**
+   * Gas budget in MIST
+   */
+  gasBudget: bigint | number;
+
+  /**
+   * Current epoch timing, used to set the expiration without asking a node.
+   * Defaults to the signer's getEpochInfo(); required for fully offline signers such as
+   * `toClientSuiSigner(keypair)`, which have none.
+   */
+  epochInfo?: SuiEpochInfo;
+};
+
+/**
+ * Cost of a payment, as quoted by the client scheme before signing.
+ */
+export type SuiPaymentQuote = {
+  /**
+   * Payment coin type
+   */
+  asset: string;
+
+  /**
+   * Payment amount in the asset's smallest unit
+   */
+  amount: string;
+
+  /**
+   * Estimated net gas cost in MIST (computation + storage - rebate); "0" when sponsored
+   */
+  estimatedGas: string;
+
+  /**
+   * Gas budget the payer's gas coins must cover, in MIST; "0" when sponsored
+   */
+  gasBudget: string;
+
+  /**
+   * Whether a gas station pays the gas
+   */
+  sponsored: boolean;
+
+  /**
+   * What the payer must hold per coin type: the amount, plus the gas budget in SUI
+   */
+  totals: Record<string, string>;
+};
+
+/**
+ * On-chain outcome of a transaction looked up by digest.
+ * "not_found" means the node has no record of it (yet).
+ */
+export type SuiTransactionStatus =
+  | { status: "success" }
+  | { status: "failure"; error?: string }
+  | { status: "not_found" };
+
+/**
+ * Oracle exchange rate a USD price was converted at, recorded in
+ * `PaymentRequirements.extra.priceQuote`
+ */
+export type SuiOraclePriceQuote = {
+  /**
+   * The USD price of the resource
+   */
+  usdAmount: string;
+
+  /**
+   * USD price of one whole coin of the payment asset
+   */
+  rate: string;
+
+  /**
+   * Margin added over the rate, in basis points
+   */
+  slippageBps: number;
+
+  /**
+   * When the rate was fetched (Unix milliseconds)
+   */
+  quotedAt: number;
+
+  /**
+   * When the server stops offering this rate (Unix milliseconds)
+   */
+  expiresAt: number;
+};
+
+/**
+ * How a decimal amount with more places than a coin has is brought to the coin's precision:
+ * - "halfUp": to the nearest unit, halves away from zero
+ * - "halfEven": to the nearest unit, halves to the even unit (banker's rounding)
+ * - "up": away from zero, so the amount is never undercharged
+ * - "down": toward zero (truncation)
+ */
+export type SuiRoundingMode = "halfUp" | "halfEven" | "up" | "down";
+
+/**
+ * Options for converting decimal amounts to a coin's smallest units
+ */
+export type SuiAmountConversionOptions = {
+  /**
+   * Rounding applied to digits beyond the coin's decimals (default "halfUp")
+   */
+  rounding?: SuiRoundingMode;
+
+  /**
+   * Throw instead of rounding when the amount has more decimal places than the coin
+   */
+  rejectExcessPrecision?: boolean;
+};
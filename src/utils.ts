@@ -1,56 +1,65 @@
-import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
-import { normalizeStructTag } from "@mysten/sui/utils";
-import type { Network } from "@x402/core/types";
+import { SuiClient } from "@mysten/sui/client";
+import { TransactionDataBuilder } from "@mysten/sui/transactions";
+import type { Argument, Command, TransactionData } from "@mysten/sui/transactions";
 import {
-  SUI_MAINNET_CAIP2,
-  SUI_TESTNET_CAIP2,
-  SUI_DEVNET_CAIP2,
-  USDC_MAINNET,
-  USDC_TESTNET,
-  SUI_ADDRESS_REGEX,
-} from "./constants";
+  fromBase64,
+  normalizeStructTag,
+  normalizeSuiAddress,
+  parseStructTag,
+} from "@mysten/sui/utils";
+import type { Network } from "@x402/core/types";
+import { SuiDecodeError } from "./errors";
+import type { SuiAmountConversionOptions, SuiEpochInfo, SuiRoundingMode } from "./types";
+import { SUI_ADDRESS_REGEX } from "./constants";
+import { suiNetworks } from "./networks";
+import type { SuiNetworkRegistry } from "./networks";
 
 /**
  * Create a SuiClient for the specified network
  *
  * @param network - CAIP-2 network identifier (e.g., "sui:mainnet")
  * @param customRpcUrl - Optional custom RPC URL override
+ * @param registry - Network registry to resolve the network in (defaults to suiNetworks)
  * @returns SuiClient configured for the specified network
  */
-export function createSuiClient(network: Network, customRpcUrl?: string): SuiClient {
-  if (customRpcUrl) {
-    return new SuiClient({ url: customRpcUrl });
-  }
-
-  switch (network) {
-    case SUI_MAINNET_CAIP2:
-      return new SuiClient({ url: getFullnodeUrl("mainnet") });
-    case SUI_TESTNET_CAIP2:
-      return new SuiClient({ url: getFullnodeUrl("testnet") });
-    case SUI_DEVNET_CAIP2:
-      return new SuiClient({ url: getFullnodeUrl("devnet") });
-    default:
-      throw new Error(`Unsupported Sui network: ${network}`);
-  }
+export function createSuiClient(
+  network: Network,
+  customRpcUrl?: string,
+  registry: SuiNetworkRegistry = suiNetworks,
+): SuiClient {
+  return new SuiClient({ url: customRpcUrl ?? registry.resolve(network).rpcUrls[0] });
 }
 
 /**
  * Get the default USDC coin type for a network
  *
  * @param network - CAIP-2 network identifier
+ * @param registry - Network registry to resolve the network in (defaults to suiNetworks)
  * @returns USDC coin type string
  */
-export function getUsdcCoinType(network: Network): string {
-  switch (network) {
-    case SUI_MAINNET_CAIP2:
-      return USDC_MAINNET;
-    case SUI_TESTNET_CAIP2:
-      return USDC_TESTNET;
-    case SUI_DEVNET_CAIP2:
-      return USDC_TESTNET;
-    default:
-      throw new Error(`No USDC coin type configured for network: ${network}`);
+export function getUsdcCoinType(
+  network: Network,
+  registry: SuiNetworkRegistry = suiNetworks,
+): string {
+  return getDefaultStablecoin(network, registry).coinType;
+}
+
+/**
+ * Get the default stablecoin (coin type and decimals) for a network
+ *
+ * @param network - CAIP-2 network identifier
+ * @param registry - Network registry to resolve the network in (defaults to suiNetworks)
+ * @returns The network's default stablecoin
+ */
+export function getDefaultStablecoin(
+  network: string,
+  registry: SuiNetworkRegistry = suiNetworks,
+): { coinType: string; decimals: number } {
+  const stablecoin = registry.get(network)?.stablecoin;
+  if (!stablecoin) {
+    throw new Error(`No USDC coin type configured for network: ${network}`);
   }
+  return stablecoin;
 }
 
 /**
@@ -65,27 +74,122 @@ export function validateSuiAddress(address: string): boolean {
 }
 
 /**
- * Convert a decimal amount string to token smallest units
+ * Plain or scientific decimal notation, e.g. "0.10", ".5", "1e-7"
+ */
+const DECIMAL_REGEX = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Parse a decimal string exactly into an integer and a power-of-ten scale.
+ *
+ * @param decimalAmount - The decimal amount (e.g., "0.10" or "1e-7")
+ * @returns The amount as `units / 10^scale`, and whether it has a minus sign
+ * @throws Error if the string is not a decimal number
+ */
+function parseDecimal(decimalAmount: string): {
+  negative: boolean;
+  units: bigint;
+  scale: number;
+} {
+  const match = DECIMAL_REGEX.exec(decimalAmount.trim());
+  if (!match || !(match[2] || match[3])) {
+    throw new Error(`Invalid amount: ${decimalAmount}`);
+  }
+  const [, sign, intPart, decPart = "", exponent = "0"] = match;
+  const units = BigInt((intPart + decPart).replace(/^0+(?=\d)/, "") || "0");
+  const scale = decPart.length - Number(exponent);
+  return {
+    negative: sign === "-",
+    units: scale < 0 ? units * 10n ** BigInt(-scale) : units,
+    scale: Math.max(scale, 0),
+  };
+}
+
+/**
+ * Convert a decimal amount string to token smallest units.
+ * The conversion is exact: digits beyond the token's decimals are rounded as requested
+ * (half up by default) or rejected.
  *
  * @param decimalAmount - The decimal amount (e.g., "0.10")
  * @param decimals - The number of decimals for the token (e.g., 6 for USDC)
+ * @param options - Rounding mode and excess precision handling
  * @returns The amount in smallest units as a string
+ * @throws Error if the amount is invalid, negative, or too precise under rejectExcessPrecision
  */
-export function convertToTokenAmount(decimalAmount: string, decimals: number): string {
-  const trimmed = decimalAmount.trim();
-  if (trimmed.startsWith("-")) {
+export function convertToTokenAmount(
+  decimalAmount: string,
+  decimals: number,
+  options: SuiAmountConversionOptions = {},
+): string {
+  const { negative, units, scale } = parseDecimal(decimalAmount);
+  if (negative) {
     throw new Error(`Negative amounts not allowed: ${decimalAmount}`);
   }
-  const amount = parseFloat(trimmed);
-  if (isNaN(amount)) {
-    throw new Error(`Invalid amount: ${decimalAmount}`);
+  if (scale <= decimals) {
+    return (units * 10n ** BigInt(decimals - scale)).toString();
+  }
+
+  // Convert to smallest unit (e.g., for USDC with 6 decimals: 0.1234567 → 123456 rem 7)
+  const divisor = 10n ** BigInt(scale - decimals);
+  const quotient = units / divisor;
+  const remainder = units % divisor;
+  if (remainder === 0n) {
+    return quotient.toString();
+  }
+  if (options.rejectExcessPrecision) {
+    throw new Error(`Amount ${decimalAmount} has more than ${decimals} decimal places`);
+  }
+  return (quotient + roundingIncrement(quotient, remainder, divisor, options.rounding)).toString();
+}
+
+/**
+ * Decide whether a truncated amount rounds up by one unit.
+ *
+ * @param quotient - The amount truncated to the token's decimals
+ * @param remainder - The discarded digits, as a nonzero integer
+ * @param divisor - The power of ten the remainder is out of
+ * @param rounding - The rounding mode (default "halfUp")
+ * @returns 1n to round up, 0n to keep the truncated amount
+ */
+function roundingIncrement(
+  quotient: bigint,
+  remainder: bigint,
+  divisor: bigint,
+  rounding: SuiRoundingMode = "halfUp",
+): bigint {
+  const twice = remainder * 2n;
+  switch (rounding) {
+    case "up":
+      return 1n;
+    case "down":
+      return 0n;
+    case "halfEven":
+      return twice > divisor || (twice === divisor && quotient % 2n === 1n) ? 1n : 0n;
+    case "halfUp":
+      return twice >= divisor ? 1n : 0n;
+    default:
+      throw new Error(`Unknown rounding mode: ${rounding as string}`);
   }
-  // Convert to smallest unit (e.g., for USDC with 6 decimals: 0.10 * 10^6 = 100000)
-  // Use toFixed to avoid scientific notation (e.g., 1e-7) from String()
-  const [intPart, decPart = ""] = amount.toFixed(decimals).split(".");
-  const paddedDec = decPart.padEnd(decimals, "0").slice(0, decimals);
-  const tokenAmount = (intPart + paddedDec).replace(/^0+/, "") || "0";
-  return tokenAmount;
+}
+
+/**
+ * Convert an amount in a coin's smallest unit back to a decimal string.
+ * Inverse of convertToTokenAmount; trailing zeros are dropped.
+ *
+ * @param amount - The amount in smallest units (e.g., "100000" or 100000n)
+ * @param decimals - Number of decimals for the token (e.g., 6 for USDC)
+ * @returns The decimal amount (e.g., "0.1")
+ */
+export function formatTokenAmount(amount: string | bigint, decimals: number): string {
+  const raw = amount.toString().trim();
+  if (!/^-?\d+$/.test(raw)) {
+    throw new Error(`Invalid token amount: ${amount}`);
+  }
+  const negative = raw.startsWith("-");
+  const digits = (negative ? raw.slice(1) : raw).padStart(decimals + 1, "0");
+  const intPart = digits.slice(0, digits.length - decimals).replace(/^0+(?=\d)/, "");
+  const decPart = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  const formatted = decPart ? `${intPart}.${decPart}` : intPart;
+  return negative && formatted !== "0" ? `-${formatted}` : formatted;
 }
 
 /**
@@ -99,3 +203,146 @@ export function convertToTokenAmount(decimalAmount: string, decimals: number): s
 export function coinTypesEqual(a: string, b: string): boolean {
   return normalizeStructTag(a) === normalizeStructTag(b);
 }
+
+/**
+ * Decode base64-encoded BCS TransactionData into its structured form.
+ * Used by the facilitator to inspect sender, gas data, inputs, and commands
+ * without a network round trip.
+ *
+ * @param transaction - Base64-encoded Sui transaction bytes
+ * @returns The decoded transaction data
+ * @throws SuiDecodeError if the bytes are not valid BCS TransactionData
+ */
+export function decodeTransactionData(transaction: string): TransactionDataBuilder {
+  try {
+    return TransactionDataBuilder.fromBytes(fromBase64(transaction));
+  } catch (error) {
+    throw new SuiDecodeError(error instanceof Error ? error.message : String(error), error);
+  }
+}
+
+/**
+ * Compute the transaction digest from base64-encoded TransactionData bytes.
+ * Matches the digest the network assigns, so it is known before broadcasting.
+ *
+ * @param transaction - Base64-encoded Sui transaction bytes
+ * @returns The base58 transaction digest
+ */
+export function getTransactionDigest(transaction: string): string {
+  return TransactionDataBuilder.getDigestFromBytes(fromBase64(transaction));
+}
+
+/**
+ * List every argument a PTB command consumes.
+ *
+ * @param command - A decoded PTB command
+ * @returns The command's arguments (Input, GasCoin, Result, NestedResult)
+ */
+export function getCommandArguments(command: Command): Argument[] {
+  switch (command.$kind) {
+    case "MoveCall":
+      return command.MoveCall.arguments;
+    case "TransferObjects":
+      return [...command.TransferObjects.objects, command.TransferObjects.address];
+    case "SplitCoins":
+      return [command.SplitCoins.coin, ...command.SplitCoins.amounts];
+    case "MergeCoins":
+      return [command.MergeCoins.destination, ...command.MergeCoins.sources];
+    case "MakeMoveVec":
+      return command.MakeMoveVec.elements;
+    case "Upgrade":
+      return [command.Upgrade.ticket];
+    case "$Intent":
+      return Object.values(command.$Intent.inputs).flat();
+    default:
+      return [];
+  }
+}
+
+/**
+ * Normalize a Move call target ("package::module::function") so that short and
+ * zero-padded package addresses compare equal.
+ *
+ * @param target - The Move call target (e.g., "0x2::coin::zero")
+ * @returns The target with a full-length package address
+ */
+export function normalizeMoveCallTarget(target: string): string {
+  const [pkg, module, fn] = target.split("::");
+  return `${normalizeSuiAddress(pkg)}::${module}::${fn}`;
+}
+
+/**
+ * Check whether a Move object type is a `0x2::coin::Coin<T>`.
+ *
+ * @param objectType - The object's Move type (e.g., "0x2::coin::Coin<0x2::sui::SUI>")
+ * @returns true if the object is a coin
+ */
+export function isCoinObjectType(objectType: string): boolean {
+  try {
+    const tag = parseStructTag(objectType);
+    return (
+      tag.address === normalizeSuiAddress("0x2") && tag.module === "coin" && tag.name === "Coin"
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetch the current epoch's number, start time, and duration.
+ *
+ * @param client - SuiClient for the target network
+ * @returns The current epoch timing
+ */
+export async function fetchEpochInfo(client: SuiClient): Promise<SuiEpochInfo> {
+  const state = await client.getLatestSuiSystemState();
+  return {
+    epoch: Number(state.epoch),
+    epochStartTimestampMs: Number(state.epochStartTimestampMs),
+    epochDurationMs: Number(state.epochDurationMs),
+  };
+}
+
+/**
+ * Check whether cached epoch timing is past its expected end.
+ *
+ * @param epochInfo - Cached epoch timing
+ * @param now - Current time in Unix milliseconds
+ * @returns true if the epoch should have ended and the cache must be refreshed
+ */
+export function isEpochOver(epochInfo: SuiEpochInfo, now: number = Date.now()): boolean {
+  return now >= epochInfo.epochStartTimestampMs + epochInfo.epochDurationMs;
+}
+
+/**
+ * Compute the last epoch in which a transaction may execute for it to stay
+ * within a timeout. Sui expiry is epoch-granular, so the result is the epoch
+ * containing `now + timeoutSeconds`.
+ *
+ * @param epochInfo - The current epoch timing
+ * @param timeoutSeconds - The payment timeout (PaymentRequirements.maxTimeoutSeconds)
+ * @param now - Current time in Unix milliseconds
+ * @returns The expiration epoch for TransactionExpiration::Epoch
+ */
+export function getExpirationEpoch(
+  epochInfo: SuiEpochInfo,
+  timeoutSeconds: number,
+  now: number = Date.now(),
+): number {
+  const deadline = now + timeoutSeconds * 1000;
+  const epochEnd = epochInfo.epochStartTimestampMs + epochInfo.epochDurationMs;
+  if (deadline <= epochEnd) {
+    return epochInfo.epoch;
+  }
+  return epochInfo.epoch + Math.ceil((deadline - epochEnd) / epochInfo.epochDurationMs);
+}
+
+/**
+ * Read the expiration epoch of decoded transaction data.
+ *
+ * @param txData - The decoded transaction data
+ * @returns The expiration epoch, or undefined if the transaction never expires
+ */
+export function getTransactionExpirationEpoch(txData: TransactionData): number | undefined {
+  return txData.expiration?.$kind === "Epoch" ? Number(txData.expiration.Epoch) : undefined;
+}
@@ -0,0 +1,249 @@
+import type { SuiClient } from "@mysten/sui/client";
+import { parseSerializedSignature, SIGNATURE_SCHEME_TO_FLAG } from "@mysten/sui/cryptography";
+import { SuiGraphQLClient } from "@mysten/sui/graphql";
+import { fromBase64, normalizeSuiAddress, toBase64 } from "@mysten/sui/utils";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import { ZkLoginPublicIdentifier } from "@mysten/sui/zklogin";
+import type { ZkLoginCompatibleClient } from "@mysten/sui/zklogin";
+import { suiNetworks } from "./networks";
+import type { SuiNetworkRegistry } from "./networks";
+import { SuiRpcPool } from "./rpcPool";
+import { decodeTransactionData } from "./utils";
+
+/**
+ * A zkLogin signature to check against the chain's active JWKs and proof verifier.
+ */
+export type ZkLoginVerificationRequest = {
+  /**
+   * CAIP-2 network identifier
+   */
+  network: string;
+
+  /**
+   * Base64-encoded transaction bytes
+   */
+  transactionBytes: string;
+
+  /**
+   * Base64-encoded serialized zkLogin signature
+   */
+  signature: string;
+
+  /**
+   * The zkLogin address that signed the transaction
+   */
+  address: string;
+};
+
+/**
+ * Result of a zkLogin proof verification.
+ */
+export type ZkLoginVerificationResult = {
+  success: boolean;
+  errors: string[];
+};
+
+/**
+ * Source of the on-chain state zkLogin verification depends on.
+ * The proof is checked against the issuer's JWKs active at the current epoch,
+ * so both lookups need a node (GraphQL or JSON-RPC) or an offline stub.
+ */
+export interface ZkLoginProvider {
+  /**
+   * Get the current epoch, used to reject signatures past their maxEpoch.
+   *
+   * @param network - CAIP-2 network identifier
+   * @returns The current epoch number
+   */
+  getCurrentEpoch(network: string): Promise<number>;
+
+  /**
+   * Verify the zkLogin proof against the issuer's active JWKs.
+   *
+   * @param request - The signature to verify
+   * @returns Whether the proof is valid, with the node's errors if not
+   */
+  verifySignature(request: ZkLoginVerificationRequest): Promise<ZkLoginVerificationResult>;
+}
+
+/**
+ * Check whether a serialized signature uses the zkLogin scheme.
+ *
+ * @param signature - Base64-encoded serialized signature
+ * @returns true if the signature's scheme flag is zkLogin
+ */
+export function isZkLoginSignature(signature: string): boolean {
+  try {
+    return fromBase64(signature)[0] === SIGNATURE_SCHEME_TO_FLAG.ZkLogin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a zkLogin transaction signature and recover the signer's address.
+ * 1. Address recovery from the signature's issuer and address seed (must be the sender)
+ * 2. maxEpoch check against the current epoch
+ * 3. Ephemeral signature check over the transaction bytes
+ * 4. Proof verification against the issuer's active JWKs (via the provider)
+ *
+ * @param transactionBytes - Base64-encoded transaction bytes
+ * @param signature - Base64-encoded serialized zkLogin signature
+ * @param network - CAIP-2 network identifier
+ * @param provider - Source of the current epoch and proof verification
+ * @returns The zkLogin address that signed the transaction
+ */
+export async function verifyZkLoginTransactionSignature(
+  transactionBytes: string,
+  signature: string,
+  network: string,
+  provider: ZkLoginProvider,
+): Promise<string> {
+  const parsed = parseSerializedSignature(signature);
+  if (parsed.signatureScheme !== "ZkLogin") {
+    throw new Error("Invalid signature: not a zkLogin signature");
+  }
+
+  // Legacy zkLogin addresses derive from an unpadded seed; the sender tells us which one is in use
+  const sender = decodeTransactionData(transactionBytes).sender;
+  const identifier = new ZkLoginPublicIdentifier(parsed.publicKey);
+  if (!sender || !identifier.verifyAddress(normalizeSuiAddress(sender))) {
+    throw new Error("Invalid signature: zkLogin identity does not match the transaction sender");
+  }
+  const address = normalizeSuiAddress(sender);
+
+  const currentEpoch = await provider.getCurrentEpoch(network);
+  const maxEpoch = Number(parsed.zkLogin.maxEpoch);
+  if (maxEpoch < currentEpoch) {
+    throw new Error(
+      `Invalid signature: zkLogin signature expired at epoch ${maxEpoch} (current epoch ${currentEpoch})`,
+    );
+  }
+
+  try {
+    await verifyTransactionSignature(
+      fromBase64(transactionBytes),
+      toBase64(parsed.zkLogin.userSignature),
+    );
+  } catch {
+    throw new Error(
+      "Invalid signature: zkLogin ephemeral signature does not match the transaction",
+    );
+  }
+
+  const result = await provider.verifySignature({
+    network,
+    transactionBytes,
+    signature,
+    address,
+  });
+  if (!result.success) {
+    throw new Error(
+      `Signature verification failed: zkLogin proof rejected (${result.errors.join("; ") || "unknown error"})`,
+    );
+  }
+
+  return address;
+}
+
+/**
+ * Create a ZkLoginProvider backed by Sui JSON-RPC (sui_verifyZkLoginSignature).
+ * Given a SuiRpcPool, lookups go through its reads, so they fail over and are only
+ * answered by nodes on the pool's expected chain.
+ *
+ * @param getClient - Returns the SuiClient or SuiRpcPool for a network
+ * @returns A ZkLoginProvider instance
+ */
+export function createRpcZkLoginProvider(
+  getClient: (network: string) => SuiClient | SuiRpcPool,
+): ZkLoginProvider {
+  /**
+   * Run a read on a network's client, or through its pool.
+   *
+   * @param network - CAIP-2 network identifier
+   * @param request - The read to run
+   * @returns The read's result
+   */
+  const read = <T>(network: string, request: (client: SuiClient) => Promise<T>): Promise<T> => {
+    const source = getClient(network);
+    return source instanceof SuiRpcPool ? source.read(request) : request(source);
+  };
+
+  return {
+    async getCurrentEpoch(network: string): Promise<number> {
+      const state = await read(network, client => client.getLatestSuiSystemState());
+      return Number(state.epoch);
+    },
+
+    async verifySignature(request: ZkLoginVerificationRequest): Promise<ZkLoginVerificationResult> {
+      return read(request.network, client => verifyWithClient(client, request));
+    },
+  };
+}
+
+/**
+ * Create a ZkLoginProvider backed by Sui GraphQL.
+ *
+ * @param urls - Optional per-network GraphQL URL mapping (defaults to the registry's graphqlUrl)
+ * @param registry - Network registry to resolve default URLs in (defaults to suiNetworks)
+ * @returns A ZkLoginProvider instance
+ */
+export function createGraphQLZkLoginProvider(
+  urls?: Record<string, string>,
+  registry: SuiNetworkRegistry = suiNetworks,
+): ZkLoginProvider {
+  const clientCache = new Map<string, SuiGraphQLClient>();
+
+  const getClient = (network: string): SuiGraphQLClient => {
+    const cached = clientCache.get(network);
+    if (cached) return cached;
+
+    const url = urls?.[network] ?? registry.resolve(network).graphqlUrl;
+    if (!url) {
+      throw new Error(`No GraphQL URL configured for network: ${network}`);
+    }
+
+    const client = new SuiGraphQLClient({ url });
+    clientCache.set(network, client);
+    return client;
+  };
+
+  return {
+    async getCurrentEpoch(network: string): Promise<number> {
+      const result = await getClient(network).query<{ epoch: { epochId: number } | null }>({
+        query: "query { epoch { epochId } }",
+        variables: {},
+      });
+      if (!result.data?.epoch) {
+        throw new Error(
+          `Failed to fetch current epoch: ${result.errors?.map(e => e.message).join("; ") ?? "no data"}`,
+        );
+      }
+      return Number(result.data.epoch.epochId);
+    },
+
+    async verifySignature(request: ZkLoginVerificationRequest): Promise<ZkLoginVerificationResult> {
+      return verifyWithClient(getClient(request.network), request);
+    },
+  };
+}
+
+/**
+ * Verify a zkLogin signature through a client's core API.
+ *
+ * @param client - GraphQL or JSON-RPC client
+ * @param request - The signature to verify
+ * @returns The node's verification result
+ */
+async function verifyWithClient(
+  client: ZkLoginCompatibleClient,
+  request: ZkLoginVerificationRequest,
+): Promise<ZkLoginVerificationResult> {
+  const { success, errors } = await client.core.verifyZkLoginSignature({
+    bytes: request.transactionBytes,
+    signature: request.signature,
+    intentScope: "TransactionData",
+    author: request.address,
+  });
+  return { success, errors };
+}
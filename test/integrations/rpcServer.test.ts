@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import {
+  ExactSuiScheme,
+  SUI_TESTNET_CAIP2,
+  TESTNET_CHAIN_IDENTIFIER,
+  USDC_TESTNET,
+  createSuiClient,
+  toClientSuiSigner,
+  toFacilitatorSuiSigner,
+} from "../../src/index";
+import { ExactSuiScheme as FacilitatorExactSuiScheme } from "../../src/exact/facilitator/scheme";
+import { FakeSuiLedger, startMockSuiRpcServer } from "../../src/testing/index";
+import type { MockSuiRpcServer } from "../../src/testing/index";
+
+const PAY_TO = "0x" + "c".repeat(64);
+
+const requirements = {
+  scheme: "exact",
+  network: SUI_TESTNET_CAIP2,
+  asset: USDC_TESTNET,
+  amount: "100000",
+  payTo: PAY_TO,
+  maxTimeoutSeconds: 3600,
+};
+
+describe("mock Sui JSON-RPC server", () => {
+  let ledger: FakeSuiLedger;
+  let server: MockSuiRpcServer;
+  let keypair: Ed25519Keypair;
+
+  beforeEach(async () => {
+    ledger = new FakeSuiLedger({ network: SUI_TESTNET_CAIP2 });
+    server = await startMockSuiRpcServer(ledger);
+    keypair = Ed25519Keypair.generate();
+    ledger.mint(keypair.toSuiAddress(), 1_000_000, USDC_TESTNET);
+    ledger.mint(keypair.toSuiAddress(), 1_000_000_000);
+  });
+
+  afterEach(() => server.close());
+
+  it("should report the ledger's chain identifier and gas price", async () => {
+    const client = createSuiClient(SUI_TESTNET_CAIP2, server.url);
+
+    expect(await client.getChainIdentifier()).toBe(TESTNET_CHAIN_IDENTIFIER);
+    expect(await client.getReferenceGasPrice()).toBe(1000n);
+  });
+
+  it("should pay, verify, and settle over HTTP", async () => {
+    const client = new ExactSuiScheme(
+      toClientSuiSigner(keypair, createSuiClient(SUI_TESTNET_CAIP2, server.url)),
+    );
+    const facilitator = new FacilitatorExactSuiScheme(
+      toFacilitatorSuiSigner({ rpcUrls: { [SUI_TESTNET_CAIP2]: [server.url] } }),
+    );
+    const payload = {
+      ...(await client.createPaymentPayload(2, requirements as any)),
+      accepted: requirements,
+    };
+
+    const verified = await facilitator.verify(payload as any, requirements as any);
+    const settled = await facilitator.settle(payload as any, requirements as any);
+
+    expect(verified).toMatchObject({ isValid: true, payer: keypair.toSuiAddress() });
+    expect(settled).toMatchObject({ success: true, payer: keypair.toSuiAddress() });
+    expect(ledger.getBalance(PAY_TO, USDC_TESTNET)).toBe(100_000n);
+    expect(server.methods).toEqual(
+      expect.arrayContaining([
+        "suix_getCoins",
+        "suix_getReferenceGasPrice",
+        "sui_dryRunTransactionBlock",
+        "sui_executeTransactionBlock",
+        "sui_getTransactionBlock",
+      ]),
+    );
+  });
+
+  it("should surface ledger rejections as JSON-RPC errors", async () => {
+    const client = createSuiClient(SUI_TESTNET_CAIP2, server.url);
+    const signer = toClientSuiSigner(keypair, client);
+    const tx = new Transaction();
+    tx.setSender(keypair.toSuiAddress());
+    tx.transferObjects([tx.splitCoins(tx.gas, [10])], PAY_TO);
+    const first = await signer.signTransaction(tx);
+    await client.executeTransactionBlock({
+      transactionBlock: first.bytes,
+      signature: first.signature,
+    });
+
+    // Same gas coin reference, now spent
+    const stale = Transaction.from(first.bytes);
+    stale.setGasBudget(3_000_000);
+    const second = await signer.signTransaction(stale);
+
+    await expect(
+      client.executeTransactionBlock({
+        transactionBlock: second.bytes,
+        signature: second.signature,
+      }),
+    ).rejects.toThrow(/ObjectVersionUnavailableForConsumption/);
+    await expect(
+      client.getTransactionBlock({ digest: "11111111111111111111111111111111" }),
+    ).rejects.toThrow("Could not find the referenced transaction");
+  });
+
+  it("should reject when the port is already in use", async () => {
+    const port = Number(new URL(server.url).port);
+
+    await expect(startMockSuiRpcServer(ledger, { port })).rejects.toThrow(/EADDRINUSE/);
+  });
+});
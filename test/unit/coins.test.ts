@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  SUI_MAINNET_CAIP2,
+  SUI_TESTNET_CAIP2,
+  USDC_MAINNET,
+  USDC_TESTNET,
+  SUI_DECIMALS,
+  SuiCoinRegistry,
+} from "../../src/index";
+
+describe("SuiCoinRegistry", () => {
+  const DEEP = "0xdeeb7a4662eec9f2f3def03fb937a663dddaa2e215b8078a284d026b7946c270::deep::DEEP";
+
+  it("should fetch a coin's metadata once and cache it", async () => {
+    let fetches = 0;
+    const registry = new SuiCoinRegistry(undefined, {
+      fetchMetadata: async () => {
+        fetches++;
+        return { symbol: "DEEP", decimals: 6, name: "DeepBook Token" };
+      },
+    });
+
+    const [first, second] = await Promise.all([
+      registry.getMetadata(DEEP, SUI_MAINNET_CAIP2),
+      registry.getMetadata(DEEP, SUI_MAINNET_CAIP2),
+    ]);
+    const third = await registry.getMetadata(DEEP, SUI_MAINNET_CAIP2);
+
+    expect(fetches).toBe(1);
+    expect(first).toEqual({
+      coinType: DEEP,
+      symbol: "DEEP",
+      decimals: 6,
+      name: "DeepBook Token",
+    });
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(registry.get(DEEP, SUI_MAINNET_CAIP2)).toBe(first);
+  });
+
+  it("should cache fetched metadata per network", async () => {
+    const networks: string[] = [];
+    const registry = new SuiCoinRegistry(undefined, {
+      fetchMetadata: async (_coinType, network) => {
+        networks.push(network);
+        return { symbol: "DEEP", decimals: network === SUI_MAINNET_CAIP2 ? 6 : 9 };
+      },
+    });
+
+    const mainnet = await registry.getMetadata(DEEP, SUI_MAINNET_CAIP2);
+    const testnet = await registry.getMetadata(DEEP, SUI_TESTNET_CAIP2);
+
+    expect(networks).toEqual([SUI_MAINNET_CAIP2, SUI_TESTNET_CAIP2]);
+    expect(mainnet.decimals).toBe(6);
+    expect(testnet.decimals).toBe(9);
+    expect(registry.get(DEEP)).toBeUndefined();
+  });
+
+  it("should retry lookups that failed", async () => {
+    let fetches = 0;
+    const registry = new SuiCoinRegistry(undefined, {
+      fetchMetadata: async () => (++fetches === 1 ? null : { symbol: "DEEP", decimals: 6 }),
+    });
+
+    await expect(registry.getMetadata(DEEP, SUI_MAINNET_CAIP2)).rejects.toThrow(
+      "No coin metadata found",
+    );
+    await expect(registry.getMetadata(DEEP, SUI_MAINNET_CAIP2)).resolves.toMatchObject({
+      decimals: 6,
+    });
+  });
+
+  it("should resolve pre-seeded coins offline", async () => {
+    const registry = new SuiCoinRegistry(undefined, { fetchMetadata: null }).register({
+      coinType: DEEP,
+      symbol: "DEEP",
+      decimals: 6,
+    });
+
+    await expect(registry.resolve("deep", SUI_MAINNET_CAIP2)).resolves.toMatchObject({
+      coinType: DEEP,
+      decimals: 6,
+    });
+    await expect(registry.resolve("0x2::sui::SUI", SUI_MAINNET_CAIP2)).resolves.toMatchObject({
+      decimals: SUI_DECIMALS,
+    });
+    await expect(registry.getMetadata("0xabc::coin::COIN", SUI_MAINNET_CAIP2)).rejects.toThrow(
+      "Unknown coin type 0xabc::coin::COIN",
+    );
+  });
+
+  it("should prefer network-scoped aliases", async () => {
+    const registry = new SuiCoinRegistry();
+
+    expect((await registry.resolve("USDC", SUI_MAINNET_CAIP2)).coinType).toBe(USDC_MAINNET);
+    expect((await registry.resolve("usdc", SUI_TESTNET_CAIP2)).coinType).toBe(USDC_TESTNET);
+    await expect(registry.resolve("USDC", "sui:localnet")).rejects.toThrow(
+      "Unknown coin symbol USDC on sui:localnet",
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import {
+  SUI_MAINNET_CAIP2,
+  parseExecutionError,
+  classifyRpcError,
+  SuiDecodeError,
+  SuiExecutionError,
+  SuiInsufficientBalanceError,
+  SuiMoveAbortError,
+  SuiObjectVersionError,
+  SuiRpcError,
+  SuiGasPriceError,
+  SuiTransactionExpiredError,
+} from "../../src/index";
+import { ExactSuiScheme as FacilitatorExactSuiScheme } from "../../src/exact/facilitator/scheme";
+import type { FacilitatorSuiSigner } from "../../src/signer";
+import { JsonRpcError, SuiHTTPStatusError, SuiHTTPTransportError } from "@mysten/sui/client";
+import {
+  createMockFacilitatorSigner,
+  createFailedDryRun,
+  MOCK_PAYER,
+  createMockPayload,
+  createMockRequirements,
+} from "./helpers";
+
+describe("verification errors", () => {
+  const MOVE_ABORT =
+    'MoveAbort(MoveLocation { module: ModuleId { address: 0000000000000000000000000000000000000000000000000000000000000002, name: Identifier("coin") }, function: 1, instruction: 12, function_name: Some("split") }, 0) in command 1';
+
+  describe("parseExecutionError", () => {
+    it("should parse Move aborts", () => {
+      const error = parseExecutionError(MOVE_ABORT);
+
+      expect(error).toBeInstanceOf(SuiMoveAbortError);
+      expect((error as SuiMoveAbortError).location).toEqual({
+        module: "0x0000000000000000000000000000000000000000000000000000000000000002::coin",
+        functionName: "split",
+      });
+      expect((error as SuiMoveAbortError).abortCode).toBe(0n);
+      expect(error.command).toBe(1);
+      expect(error.reason).toBe("invalid_exact_sui_payload_move_abort");
+    });
+
+    it("should parse insufficient balances as non-retryable", () => {
+      const error = parseExecutionError("InsufficientCoinBalance in command 0");
+
+      expect(error).toBeInstanceOf(SuiInsufficientBalanceError);
+      expect(error.reason).toBe("invalid_exact_sui_payload_insufficient_balance");
+      expect(error.retryable).toBe(false);
+    });
+
+    it("should parse object version conflicts as retryable", () => {
+      const error = parseExecutionError(
+        "ObjectVersionUnavailableForConsumption { provided_obj_ref: (0x1, SequenceNumber(5), o#1), current_version: SequenceNumber(6) }",
+      );
+
+      expect(error).toBeInstanceOf(SuiObjectVersionError);
+      expect(error.reason).toBe("invalid_exact_sui_payload_object_version_mismatch");
+      expect(error.retryable).toBe(true);
+    });
+
+    it("should parse expired transactions and low gas prices as retryable", () => {
+      const expired = parseExecutionError("TransactionExpired");
+      const gasPrice = parseExecutionError("Gas price 1000 under reference gas price (RGP) 1500");
+
+      expect(expired).toBeInstanceOf(SuiTransactionExpiredError);
+      expect(expired.reason).toBe("invalid_exact_sui_payload_transaction_expired");
+      expect(gasPrice).toBeInstanceOf(SuiGasPriceError);
+      expect(gasPrice.reason).toBe("invalid_exact_sui_payload_gas_price_too_low");
+      expect([expired.retryable, gasPrice.retryable]).toEqual([true, true]);
+    });
+
+    it("should fall back to a generic execution error", () => {
+      const error = parseExecutionError("InsufficientGas");
+
+      expect(error).toBeInstanceOf(SuiExecutionError);
+      expect(error.reason).toBe("invalid_exact_sui_payload_transaction_dry_run_failed");
+      expect(error.toInvalidMessage()).toBe("ExecutionFailed: InsufficientGas");
+    });
+  });
+
+  describe("classifyRpcError", () => {
+    it("should treat transport failures as retryable RPC errors", () => {
+      const error = classifyRpcError(
+        new SuiHTTPStatusError("Unexpected status code: 503", 503, "Service Unavailable"),
+      );
+
+      expect(error).toBeInstanceOf(SuiRpcError);
+      expect(error.reason).toBe("sui_rpc_unavailable");
+      expect(error.retryable).toBe(true);
+    });
+
+    it("should treat JSON-RPC internal errors as RPC errors", () => {
+      expect(classifyRpcError(new JsonRpcError("Internal error", -32603))).toBeInstanceOf(
+        SuiRpcError,
+      );
+    });
+
+    it("should parse transaction rejections", () => {
+      const error = classifyRpcError(
+        new JsonRpcError(
+          "Error checking transaction input objects: ObjectVersionUnavailableForConsumption { current_version: SequenceNumber(6) }",
+          -32602,
+        ),
+      );
+      expect(error).toBeInstanceOf(SuiObjectVersionError);
+    });
+
+    it("should classify BCS rejections as decode errors", () => {
+      const error = classifyRpcError(
+        new JsonRpcError("Failed to deserialize transaction bytes", -32602),
+      );
+      expect(error).toBeInstanceOf(SuiDecodeError);
+    });
+  });
+
+  describe("facilitator verify", () => {
+    const verifyWith = (overrides: Partial<FacilitatorSuiSigner>) =>
+      new FacilitatorExactSuiScheme(
+        createMockFacilitatorSigner({ verifySignature: async () => MOCK_PAYER, ...overrides }),
+      ).verify(createMockPayload() as any, createMockRequirements() as any);
+
+    it("should report unreachable nodes as retryable RPC failures", async () => {
+      const result = await verifyWith({
+        simulateTransaction: async () => {
+          throw new SuiHTTPTransportError("fetch failed");
+        },
+      });
+
+      expect(result.invalidReason).toBe("sui_rpc_unavailable");
+      expect(result.invalidMessage).toBe("RpcUnavailable: fetch failed");
+    });
+
+    it("should report Move aborts with a structured message", async () => {
+      const result = await verifyWith({
+        simulateTransaction: async () => createFailedDryRun(MOVE_ABORT),
+      });
+
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_move_abort");
+      expect(result.invalidMessage).toBe(
+        "MoveAbort: 0x0000000000000000000000000000000000000000000000000000000000000002::coin::split aborted with code 0",
+      );
+      expect(result.payer).toBe(MOCK_PAYER);
+    });
+
+    it("should type plain signature errors from custom signers", async () => {
+      const result = await verifyWith({
+        verifySignature: async () => {
+          throw new Error("bad key");
+        },
+      });
+
+      expect(result.invalidReason).toBe(
+        "invalid_exact_sui_payload_transaction_signature_verification_failed",
+      );
+      expect(result.invalidMessage).toBe("InvalidSignature: bad key");
+    });
+
+    it("should report undecodable transactions with a structured message", async () => {
+      const payload = createMockPayload("exact", SUI_MAINNET_CAIP2, "bm90LWEtdHg=");
+      const result = await new FacilitatorExactSuiScheme(createMockFacilitatorSigner()).verify(
+        payload as any,
+        createMockRequirements() as any,
+      );
+
+      expect(result.invalidReason).toBe(
+        "invalid_exact_sui_payload_transaction_could_not_be_decoded",
+      );
+      expect(result.invalidMessage).toMatch(/^BcsDecodeFailed: /);
+    });
+  });
+});
@@ -0,0 +1,717 @@
+import { describe, it, expect } from "vitest";
+import {
+  ExactSuiScheme,
+  SUI_MAINNET_CAIP2,
+  SUI_TESTNET_CAIP2,
+  USDC_MAINNET,
+  USDC_TESTNET,
+  SUI_COIN_TYPE,
+  toClientSuiSigner,
+  toFacilitatorSuiSigner,
+  createLocalGasStation,
+  assertSponsoredTransaction,
+  decodeTransactionData,
+  getTransactionDigest,
+  InsufficientFundsError,
+  SuiCoinManager,
+  SuiPolicyRejectedError,
+} from "../../src/index";
+import {
+  FakeSuiLedger,
+  createFakeSuiClient,
+  toFakeFacilitatorSuiSigner,
+} from "../../src/testing/index";
+import { InMemorySuiSpendingStore, SuiSpendingBudget } from "../../src/exact/client/index";
+import { ExactSuiScheme as FacilitatorExactSuiScheme } from "../../src/exact/facilitator/scheme";
+import type { ClientSuiSigner, FacilitatorSuiSigner } from "../../src/signer";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64, normalizeStructTag, toBase64 } from "@mysten/sui/utils";
+import {
+  MOCK_EPOCH,
+  createMockEpochInfo,
+  createPaymentDryRun,
+  MOCK_PAYER,
+  MOCK_PAYTO,
+  MOCK_FACILITATOR,
+  mockObjectRef,
+  createMockTransaction,
+  createMockSuiClient,
+  createMockPayload,
+  createMockRequirements,
+} from "./helpers";
+
+describe("ExactSuiScheme (Client)", () => {
+  const gasStationUrl = "https://gas.example.com/sponsor";
+  const createGasStation = () =>
+    createLocalGasStation({
+      sponsor: MOCK_FACILITATOR,
+      gasPayment: [mockObjectRef("9")],
+      gasPrice: 1000,
+      gasBudget: 5_000_000,
+    });
+
+  describe("expiration", () => {
+    it("should expire self-paid transactions at the epoch containing the timeout", async () => {
+      const keypair = Ed25519Keypair.generate();
+      let built: Transaction | undefined;
+      const signer: ClientSuiSigner = {
+        address: keypair.toSuiAddress(),
+        getEpochInfo: async () => ({
+          epoch: 7,
+          epochStartTimestampMs: Date.now() - 86_400_000 + 10_000,
+          epochDurationMs: 86_400_000,
+        }),
+        signTransaction: async tx => {
+          built = tx;
+          return { signature: "sig", bytes: "bytes" };
+        },
+      };
+      const scheme = new ExactSuiScheme(signer);
+      await scheme.createPaymentPayload(
+        2,
+        createMockRequirements({ maxTimeoutSeconds: 60 }) as any,
+      );
+
+      expect(built?.getData().expiration).toEqual({ $kind: "Epoch", Epoch: 8 });
+    });
+
+    it("should refuse to sign a payment it cannot set an expiration on", async () => {
+      let signed = false;
+      const signer: ClientSuiSigner = {
+        address: MOCK_PAYER,
+        signTransaction: async () => {
+          signed = true;
+          return { signature: "sig", bytes: "bytes" };
+        },
+      };
+
+      await expect(
+        new ExactSuiScheme(signer).createPaymentPayload(2, createMockRequirements() as any),
+      ).rejects.toThrow("the signer has no getEpochInfo");
+      expect(signed).toBe(false);
+    });
+  });
+
+  describe("offline payments", () => {
+    const setup = (asset = USDC_TESTNET) => {
+      const ledger = new FakeSuiLedger();
+      const keypair = Ed25519Keypair.generate();
+      const payer = keypair.toSuiAddress();
+      ledger.mint(payer, 60_000, USDC_TESTNET);
+      ledger.mint(payer, 60_000, USDC_TESTNET);
+      ledger.mint(payer, 1_000_000_000);
+      const requirements = createMockRequirements({ network: SUI_TESTNET_CAIP2, asset });
+      const offline = () => ({
+        coins: ledger.getCoins(payer, USDC_TESTNET),
+        gasPayment: ledger.getCoins(payer),
+        gasPrice: 1000,
+        gasBudget: 2_000_000,
+        epochInfo: ledger.getEpochInfo(),
+      });
+      // No SuiClient: building must not touch the network
+      const scheme = new ExactSuiScheme(toClientSuiSigner(keypair), { offlinePayment: offline });
+      const pay = async () => ({
+        ...(await scheme.createPaymentPayload(2, requirements as any)),
+        accepted: requirements,
+      });
+      return { ledger, payer, requirements, pay };
+    };
+
+    it("should build, sign, and settle without a SuiClient", async () => {
+      const { ledger, payer, requirements, pay } = setup();
+      const facilitator = new FacilitatorExactSuiScheme(toFakeFacilitatorSuiSigner(ledger));
+      const payload = await pay();
+      const txData = decodeTransactionData(
+        (payload.payload as { transaction: string }).transaction,
+      );
+
+      const settled = await facilitator.settle(payload as any, requirements as any);
+
+      expect(txData.gasData).toMatchObject({ price: "1000", budget: "2000000" });
+      expect(txData.commands.map(command => command.$kind)).toEqual([
+        "MergeCoins",
+        "SplitCoins",
+        "TransferObjects",
+      ]);
+      expect(txData.expiration).toEqual({ $kind: "Epoch", Epoch: 1 });
+      expect(settled).toMatchObject({ success: true, payer });
+      expect(ledger.getBalance(MOCK_PAYTO, USDC_TESTNET)).toBe(100_000n);
+      expect(ledger.getBalance(payer, USDC_TESTNET)).toBe(20_000n);
+    });
+
+    it("should split SUI payments from the gas coin", async () => {
+      const { ledger, payer, requirements, pay } = setup(SUI_COIN_TYPE);
+      const facilitator = new FacilitatorExactSuiScheme(toFakeFacilitatorSuiSigner(ledger));
+
+      const settled = await facilitator.settle((await pay()) as any, requirements as any);
+
+      expect(settled).toMatchObject({ success: true, payer });
+      expect(ledger.getBalance(MOCK_PAYTO)).toBe(100_000n);
+    });
+
+    it("should require coins of the payment asset", async () => {
+      const keypair = Ed25519Keypair.generate();
+      const scheme = new ExactSuiScheme(toClientSuiSigner(keypair), {
+        offlinePayment: () => ({
+          gasPayment: [mockObjectRef("9")],
+          gasPrice: 1000,
+          gasBudget: 2_000_000,
+          epochInfo: createMockEpochInfo(),
+        }),
+      });
+
+      await expect(scheme.createPaymentPayload(2, createMockRequirements() as any)).rejects.toThrow(
+        `Offline payments in ${USDC_MAINNET} need coins of that type`,
+      );
+    });
+
+    it("should require epoch timing from a signer without a SuiClient", async () => {
+      const scheme = new ExactSuiScheme(toClientSuiSigner(Ed25519Keypair.generate()), {
+        offlinePayment: () => ({
+          gasPayment: [mockObjectRef("9")],
+          gasPrice: 1000,
+          gasBudget: 2_000_000,
+        }),
+      });
+
+      await expect(
+        scheme.createPaymentPayload(2, createMockRequirements({ asset: SUI_COIN_TYPE }) as any),
+      ).rejects.toThrow("Offline payments need epochInfo when the signer has no getEpochInfo");
+    });
+  });
+
+  describe("coin reservation", () => {
+    const requirements = createMockRequirements({
+      network: SUI_TESTNET_CAIP2,
+      asset: USDC_TESTNET,
+    });
+
+    const setup = () => {
+      const ledger = new FakeSuiLedger();
+      const keypair = Ed25519Keypair.generate();
+      const payer = keypair.toSuiAddress();
+      for (let i = 0; i < 3; i++) ledger.mint(payer, 200_000, USDC_TESTNET);
+      ledger.mint(payer, 1_000_000_000);
+      const client = createFakeSuiClient(ledger);
+      const signer = toClientSuiSigner(keypair, client);
+      const coinManager = new SuiCoinManager(client, payer);
+      const scheme = new ExactSuiScheme(signer, { coinManager });
+      const facilitator = new FacilitatorExactSuiScheme(toFakeFacilitatorSuiSigner(ledger));
+      const pay = async () => ({
+        ...(await scheme.createPaymentPayload(2, requirements as any)),
+        accepted: requirements,
+      });
+      const settle = (payload: unknown) => facilitator.settle(payload as any, requirements as any);
+      return { ledger, signer, coinManager, pay, settle };
+    };
+
+    const objectIds = (payload: { payload: Record<string, unknown> }) => {
+      const txData = decodeTransactionData(payload.payload.transaction as string);
+      return [
+        ...txData.gasData.payment!.map(ref => ref.objectId),
+        ...txData.inputs.flatMap(input => input.Object?.ImmOrOwnedObject?.objectId ?? []),
+      ];
+    };
+
+    it("should give parallel payments disjoint coins so all of them settle", async () => {
+      const { ledger, signer, coinManager, pay, settle } = setup();
+      await coinManager.preparePool(signer, 3, 100_000_000);
+
+      const payloads = await Promise.all([pay(), pay(), pay()]);
+      const ids = payloads.flatMap(objectIds);
+      const results = await Promise.all(payloads.map(settle));
+
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(results.map(result => result.success)).toEqual([true, true, true]);
+      expect(ledger.getBalance(MOCK_PAYTO, USDC_TESTNET)).toBe(300_000n);
+    });
+
+    it("should refuse to reuse reserved coins until the payment is released", async () => {
+      const { coinManager, pay, settle } = setup();
+      const first = await pay();
+
+      await expect(pay()).rejects.toThrow("Not enough unreserved coins");
+      const settled = await settle(first);
+      expect(coinManager.release(settled.transaction)).toBe(true);
+      const second = await pay();
+
+      expect((await settle(second)).success).toBe(true);
+    });
+
+    it("should release reservations whose payment has landed on-chain", async () => {
+      const { pay, settle } = setup();
+      await settle(await pay());
+
+      // No explicit release: the manager finds the settled transaction when coins run short
+      const second = await pay();
+
+      expect((await settle(second)).success).toBe(true);
+    });
+
+    it("should release reservations that expired", async () => {
+      const { coinManager } = setup();
+      await coinManager.reserve({ ...requirements, maxTimeoutSeconds: 0 } as any);
+
+      await expect(coinManager.reserve(requirements as any)).resolves.toMatchObject({
+        payment: { gasBudget: 10_000_000n, gasPrice: 1000n },
+      });
+    });
+
+    it("should keep a signed payment's coins until its expiration epoch has passed", async () => {
+      const { ledger, coinManager } = setup();
+      const reservation = await coinManager.reserve({
+        ...requirements,
+        maxTimeoutSeconds: 0,
+      } as any);
+      coinManager.bindTransaction(reservation.id, "unexecuted", ledger.getEpochInfo().epoch);
+
+      await expect(coinManager.reserve(requirements as any)).rejects.toThrow(
+        "Not enough unreserved coins",
+      );
+      ledger.advanceEpoch();
+
+      await expect(coinManager.reserve(requirements as any)).resolves.toBeDefined();
+    });
+
+    it("should not free coins while their transaction cannot be looked up", async () => {
+      const ledger = new FakeSuiLedger();
+      const payer = Ed25519Keypair.generate().toSuiAddress();
+      ledger.mint(payer, 200_000, USDC_TESTNET);
+      ledger.mint(payer, 1_000_000_000);
+      const client = createFakeSuiClient(ledger);
+      const coinManager = new SuiCoinManager(client, payer);
+      const reservation = await coinManager.reserve(requirements as any);
+      coinManager.bindTransaction(reservation.id, "unexecuted", ledger.getEpochInfo().epoch);
+      ledger.advanceEpoch();
+      client.getTransactionBlock = async () => {
+        throw new Error("fetch failed");
+      };
+
+      await expect(coinManager.reserve(requirements as any)).rejects.toThrow("fetch failed");
+    });
+  });
+
+  describe("pre-flight check", () => {
+    const requirements = createMockRequirements({
+      network: SUI_TESTNET_CAIP2,
+      asset: USDC_TESTNET,
+      amount: "100000",
+    });
+
+    const setup = (usdc: number, sui: number) => {
+      const ledger = new FakeSuiLedger();
+      const keypair = Ed25519Keypair.generate();
+      const payer = keypair.toSuiAddress();
+      if (usdc > 0) ledger.mint(payer, usdc, USDC_TESTNET);
+      if (sui > 0) ledger.mint(payer, sui);
+      const signer = toClientSuiSigner(keypair, createFakeSuiClient(ledger));
+      const signed: string[] = [];
+      const scheme = new ExactSuiScheme({
+        ...signer,
+        signTransaction: async tx => {
+          const result = await signer.signTransaction(tx);
+          signed.push(result.bytes);
+          return result;
+        },
+      });
+      return { scheme, signed };
+    };
+
+    it("should fail with the shortfall before signing when the asset balance is too low", async () => {
+      const { scheme, signed } = setup(40_000, 1_000_000_000);
+
+      const error = await scheme.createPaymentPayload(2, requirements as any).catch(error => error);
+
+      expect(error).toBeInstanceOf(InsufficientFundsError);
+      expect(error.shortfalls).toEqual([
+        { coinType: USDC_TESTNET, needed: 100_000n, available: 40_000n },
+      ]);
+      expect(signed).toEqual([]);
+    });
+
+    it("should report missing SUI for gas", async () => {
+      const { scheme, signed } = setup(200_000, 0);
+
+      const error = await scheme.createPaymentPayload(2, requirements as any).catch(error => error);
+
+      expect(error).toBeInstanceOf(InsufficientFundsError);
+      expect(error.shortfalls).toEqual([
+        expect.objectContaining({ coinType: SUI_COIN_TYPE, available: 0n }),
+      ]);
+      expect(signed).toEqual([]);
+    });
+
+    it("should refuse to sign unchecked payments when pre-flight checks are required", async () => {
+      const ledger = new FakeSuiLedger();
+      const keypair = Ed25519Keypair.generate();
+      ledger.mint(keypair.toSuiAddress(), 200_000, USDC_TESTNET);
+      ledger.mint(keypair.toSuiAddress(), 1_000_000_000);
+      const { dryRunTransaction, getBalance, ...signer } = toClientSuiSigner(
+        keypair,
+        createFakeSuiClient(ledger),
+      );
+      void dryRunTransaction;
+      void getBalance;
+      const signed: string[] = [];
+      const scheme = new ExactSuiScheme(
+        {
+          ...signer,
+          signTransaction: async tx => {
+            const result = await signer.signTransaction(tx);
+            signed.push(result.bytes);
+            return result;
+          },
+        },
+        { requirePreflight: true },
+      );
+
+      await expect(scheme.createPaymentPayload(2, requirements as any)).rejects.toThrow(
+        "requirePreflight is set",
+      );
+      expect(signed).toEqual([]);
+    });
+
+    it("should quote the payment amount plus estimated gas without signing", async () => {
+      const { scheme, signed } = setup(200_000, 1_000_000_000);
+
+      const quote = await scheme.quotePayment(requirements as any);
+
+      expect(quote).toMatchObject({
+        asset: USDC_TESTNET,
+        amount: "100000",
+        estimatedGas: "1000000",
+        sponsored: false,
+      });
+      expect(quote.totals).toEqual({
+        [USDC_TESTNET]: "100000",
+        [SUI_COIN_TYPE]: quote.gasBudget,
+      });
+      expect(signed).toEqual([]);
+    });
+
+    it("should require a signer that can dry-run to quote", async () => {
+      const scheme = new ExactSuiScheme(toClientSuiSigner(Ed25519Keypair.generate()));
+
+      await expect(scheme.quotePayment(requirements as any)).rejects.toThrow(
+        "Quoting a payment needs a signer that can dry-run transactions",
+      );
+    });
+  });
+
+  describe("re-signing stale payments", () => {
+    const requirements = createMockRequirements({
+      network: SUI_TESTNET_CAIP2,
+      asset: USDC_TESTNET,
+    });
+
+    const setup = () => {
+      const ledger = new FakeSuiLedger();
+      const keypair = Ed25519Keypair.generate();
+      ledger.mint(keypair.toSuiAddress(), 1_000_000, USDC_TESTNET);
+      ledger.mint(keypair.toSuiAddress(), 1_000_000_000);
+      const scheme = new ExactSuiScheme(toClientSuiSigner(keypair, createFakeSuiClient(ledger)));
+      const facilitator = new FacilitatorExactSuiScheme(toFakeFacilitatorSuiSigner(ledger));
+      const pay = (paid = requirements) => scheme.createPaymentPayload(2, paid as any);
+      const settle = (payload: object, paid = requirements) =>
+        facilitator.settle({ ...payload, accepted: paid } as any, paid as any);
+      return { ledger, scheme, pay, settle };
+    };
+
+    const gasCoins = (payload: { payload: Record<string, unknown> }) =>
+      decodeTransactionData(payload.payload.transaction as string).gasData.payment!.map(
+        ref => ref.objectId,
+      );
+
+    it("should re-sign with fresh coins after another payment spent them", async () => {
+      const { ledger, scheme, pay, settle } = setup();
+      const otherRequirements = { ...requirements, amount: "50000" };
+      const other = await pay(otherRequirements);
+      const reasons: Array<string | undefined> = [];
+
+      const response = await scheme.payWithRetry(2, requirements as any, async payload => {
+        if (reasons.length === 0) await settle(other, otherRequirements);
+        const result = await settle(payload);
+        reasons.push(result.errorReason);
+        return result;
+      });
+
+      expect(response.success).toBe(true);
+      expect(reasons).toEqual(["invalid_exact_sui_payload_object_version_mismatch", undefined]);
+      expect(ledger.getBalance(MOCK_PAYTO, USDC_TESTNET)).toBe(150_000n);
+    });
+
+    it("should refuse to re-sign a payment that already executed", async () => {
+      const { ledger, scheme, pay, settle } = setup();
+      const landed = await pay();
+      // The settle landed, but its response was lost and the payment reported as stale
+      await settle(landed);
+
+      await expect(
+        scheme.retryPaymentPayload(
+          2,
+          requirements as any,
+          landed,
+          "invalid_exact_sui_payload_object_version_mismatch",
+        ),
+      ).rejects.toThrow("already executed on-chain; re-signing it would pay twice");
+      expect(ledger.getBalance(MOCK_PAYTO, USDC_TESTNET)).toBe(100_000n);
+    });
+
+    it("should re-sign in the new epoch after the payment expired", async () => {
+      const { ledger, scheme, settle } = setup();
+      let submissions = 0;
+
+      const response = await scheme.payWithRetry(2, requirements as any, async payload => {
+        if (submissions++ === 0) ledger.advanceEpoch();
+        return settle(payload);
+      });
+
+      expect(response.success).toBe(true);
+      expect(submissions).toBe(2);
+      expect(ledger.getBalance(MOCK_PAYTO, USDC_TESTNET)).toBe(100_000n);
+    });
+
+    it("should charge a re-signed payment to the budget in place of the rejected one", async () => {
+      const { ledger, scheme, settle } = setup();
+      const store = new InMemorySuiSpendingStore();
+      const budget = new SuiSpendingBudget({ daily: { [USDC_TESTNET]: 150_000 }, store });
+      budget.registerScheme(scheme);
+      const digests: string[] = [];
+
+      const response = await scheme.payWithRetry(2, requirements as any, async payload => {
+        digests.push(getTransactionDigest(payload.payload.transaction as string));
+        if (digests.length === 1) ledger.advanceEpoch();
+        return settle(payload);
+      });
+
+      expect(response.success).toBe(true);
+      expect(new Set(digests).size).toBe(2);
+      expect(await store.getSpent(normalizeStructTag(USDC_TESTNET), 0)).toBe(100_000n);
+      await budget.refund(digests[1]);
+      expect(await store.getSpent(normalizeStructTag(USDC_TESTNET), 0)).toBe(0n);
+    });
+
+    it("should not submit payments that overrun the budget", async () => {
+      const { scheme } = setup();
+      const budget = new SuiSpendingBudget({ daily: { [USDC_TESTNET]: 50_000 } });
+      budget.registerScheme(scheme);
+      let submissions = 0;
+
+      await expect(
+        scheme.payWithRetry(2, requirements as any, async () => {
+          submissions++;
+          return { success: true };
+        }),
+      ).rejects.toThrow(SuiPolicyRejectedError);
+      expect(submissions).toBe(0);
+    });
+
+    it("should pin the gas coins of a rejected payment that could still execute", async () => {
+      const { ledger, scheme, pay, settle } = setup();
+      // Expires epochs later, so only the raised gas price stops it
+      const lasting = { ...requirements, maxTimeoutSeconds: 2 * 86_400 };
+      const rejected = await pay(lasting);
+      ledger.advanceEpoch(1500n);
+
+      const first = await settle(rejected, lasting);
+      const resigned = await scheme.retryPaymentPayload(
+        2,
+        lasting as any,
+        rejected,
+        first.errorReason,
+      );
+      const results = [await settle(resigned, lasting), await settle(rejected, lasting)];
+
+      expect(first.errorReason).toBe("invalid_exact_sui_payload_gas_price_too_low");
+      expect(gasCoins(resigned)).toEqual(gasCoins(rejected));
+      expect(results.map(result => result.success)).toEqual([true, false]);
+      expect(ledger.getBalance(MOCK_PAYTO, USDC_TESTNET)).toBe(100_000n);
+    });
+
+    it("should not re-sign for reasons a new signature cannot fix", async () => {
+      const { scheme, pay } = setup();
+      let submissions = 0;
+
+      const response = await scheme.payWithRetry(2, requirements as any, async () => {
+        submissions++;
+        return { success: false, errorReason: "invalid_exact_sui_payload_amount_insufficient" };
+      });
+
+      expect(response.success).toBe(false);
+      expect(submissions).toBe(1);
+      await expect(
+        scheme.retryPaymentPayload(2, requirements as any, await pay(), "unexpected_settle_error"),
+      ).rejects.toThrow("which re-signing cannot fix");
+    });
+
+    it("should stop after maxPaymentRetries", async () => {
+      const { scheme } = setup();
+      let submissions = 0;
+
+      const response = await scheme.payWithRetry(2, requirements as any, async () => {
+        submissions++;
+        return { isValid: false, invalidReason: "invalid_exact_sui_payload_transaction_expired" };
+      });
+
+      expect(response.isValid).toBe(false);
+      expect(submissions).toBe(3);
+    });
+  });
+
+  describe("gas station sponsorship", () => {
+    it("should sign gas-station-sponsored transactions when extra.gasStation is set", async () => {
+      const keypair = Ed25519Keypair.generate();
+      const signer = toClientSuiSigner(keypair, createMockSuiClient());
+      const gasStation = createGasStation();
+      let requestedUrl = "";
+      const scheme = new ExactSuiScheme(signer, {
+        gasStationFetch: async (url, init) => {
+          requestedUrl = String(url);
+          return gasStation.fetch(url, init);
+        },
+      });
+
+      const result = await scheme.createPaymentPayload(
+        2,
+        createMockRequirements({ extra: { gasStation: gasStationUrl } }) as any,
+      );
+      const { signature, transaction } = result.payload as {
+        signature: string;
+        transaction: string;
+      };
+      const txData = decodeTransactionData(transaction);
+
+      expect(requestedUrl).toBe(gasStationUrl);
+      expect(txData.sender).toBe(keypair.toSuiAddress());
+      expect(txData.gasData.owner).toBe(MOCK_FACILITATOR);
+      expect(txData.gasData.payment).toEqual([mockObjectRef("9")]);
+      expect(txData.expiration).toEqual({ $kind: "Epoch", Epoch: MOCK_EPOCH });
+      const publicKey = await verifyTransactionSignature(fromBase64(transaction), signature);
+      expect(publicKey.toSuiAddress()).toBe(keypair.toSuiAddress());
+    });
+
+    it("should pay its own gas when the signer cannot build transaction kinds", async () => {
+      let signed = false;
+      const signer: ClientSuiSigner = {
+        address: MOCK_PAYER,
+        signTransaction: async () => {
+          signed = true;
+          return { signature: "sig", bytes: "bytes" };
+        },
+        getEpochInfo: async () => createMockEpochInfo(),
+      };
+      const scheme = new ExactSuiScheme(signer, {
+        gasStationFetch: async () => {
+          throw new Error("gas station should not be called");
+        },
+      });
+
+      const result = await scheme.createPaymentPayload(
+        2,
+        createMockRequirements({ extra: { gasStation: gasStationUrl } }) as any,
+      );
+
+      expect(signed).toBe(true);
+      expect(result.payload).toEqual({ signature: "sig", transaction: "bytes" });
+    });
+
+    it("should reject a gas station that alters the transaction", async () => {
+      const keypair = Ed25519Keypair.generate();
+      const signer = toClientSuiSigner(keypair, createMockSuiClient());
+      const scheme = new ExactSuiScheme(signer, {
+        gasStationFetch: async () =>
+          Response.json({
+            transaction: createMockTransaction({
+              sender: keypair.toSuiAddress(),
+              gasOwner: MOCK_FACILITATOR,
+            }),
+            sponsor: MOCK_FACILITATOR,
+          }),
+      });
+
+      await expect(
+        scheme.createPaymentPayload(
+          2,
+          createMockRequirements({ extra: { gasStation: gasStationUrl } }) as any,
+        ),
+      ).rejects.toThrow("Gas station modified the transaction");
+    });
+
+    it("should surface gas station HTTP errors", async () => {
+      const signer = toClientSuiSigner(Ed25519Keypair.generate(), createMockSuiClient());
+      const scheme = new ExactSuiScheme(signer, {
+        gasStationFetch: async () => new Response("out of gas coins", { status: 503 }),
+      });
+
+      await expect(
+        scheme.createPaymentPayload(
+          2,
+          createMockRequirements({ extra: { gasStation: gasStationUrl } }) as any,
+        ),
+      ).rejects.toThrow("Gas station request failed (503)");
+    });
+
+    it("should settle a gas-station-sponsored payment with both signatures", async () => {
+      const clientKeypair = Ed25519Keypair.generate();
+      const sponsorKeypair = Ed25519Keypair.generate();
+      const gasStation = createLocalGasStation({
+        sponsor: sponsorKeypair.toSuiAddress(),
+        gasPayment: [mockObjectRef("9")],
+        gasPrice: 1000,
+        gasBudget: 5_000_000,
+      });
+      const client = new ExactSuiScheme(toClientSuiSigner(clientKeypair, createMockSuiClient()), {
+        gasStationFetch: gasStation.fetch,
+      });
+      const requirements = createMockRequirements({ extra: { gasStation: gasStationUrl } });
+      const created = await client.createPaymentPayload(2, requirements as any);
+
+      let submitted: string | string[] = "";
+      const facilitatorSigner: FacilitatorSuiSigner = {
+        ...toFacilitatorSuiSigner(undefined, sponsorKeypair),
+        getEpochInfo: async () => createMockEpochInfo(),
+        simulateTransaction: async () =>
+          createPaymentDryRun("100000", clientKeypair.toSuiAddress()),
+        executeTransaction: async (_, signature) => {
+          submitted = signature;
+          return "sponsored-digest";
+        },
+        waitForTransaction: async () => {},
+      };
+      const facilitator = new FacilitatorExactSuiScheme(facilitatorSigner, gasStationUrl);
+      const result = await facilitator.settle(
+        { ...createMockPayload(), payload: created.payload } as any,
+        requirements as any,
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.payer).toBe(clientKeypair.toSuiAddress());
+      expect(submitted).toHaveLength(2);
+    });
+  });
+
+  describe("assertSponsoredTransaction", () => {
+    it("should reject a changed sender", () => {
+      const sponsored = createGasStation().sponsorTransaction({
+        network: SUI_MAINNET_CAIP2,
+        sender: "0x" + "d".repeat(64),
+        transactionKind: toBase64(
+          decodeTransactionData(createMockTransaction()).build({ onlyTransactionKind: true }),
+        ),
+      });
+
+      expect(() =>
+        assertSponsoredTransaction(
+          {
+            network: SUI_MAINNET_CAIP2,
+            sender: MOCK_PAYER,
+            transactionKind: "",
+          },
+          sponsored,
+        ),
+      ).toThrow("Gas station changed the sender");
+    });
+  });
+});
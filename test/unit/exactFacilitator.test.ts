@@ -0,0 +1,678 @@
+import { describe, it, expect } from "vitest";
+import {
+  SUI_MAINNET_CAIP2,
+  USDC_MAINNET,
+  SUI_COIN_TYPE,
+  InMemorySettlementStore,
+  getTransactionDigest,
+} from "../../src/index";
+import { ExactSuiScheme as FacilitatorExactSuiScheme } from "../../src/exact/facilitator/scheme";
+import type { FacilitatorSuiSigner } from "../../src/signer";
+import { JsonRpcError } from "@mysten/sui/client";
+import type { DryRunTransactionBlockResponse } from "@mysten/sui/client";
+import { Inputs, Transaction } from "@mysten/sui/transactions";
+import {
+  createMockFacilitatorSigner,
+  MOCK_EPOCH,
+  createSuccessfulDryRun,
+  createPaymentDryRun,
+  MOCK_PAYER,
+  MOCK_PAYTO,
+  MOCK_FACILITATOR,
+  MOCK_OBJECT_DIGEST,
+  mockObjectRef,
+  createMockTransaction,
+  createMockPayload,
+  createMockRequirements,
+} from "./helpers";
+
+describe("ExactSuiScheme (Facilitator)", () => {
+  describe("expiration", () => {
+    const verifyWith = (expirationEpoch: number | null, maxTimeoutSeconds = 3600) => {
+      const signer = createMockFacilitatorSigner({
+        verifySignature: async () => MOCK_PAYER,
+        simulateTransaction: async () => createPaymentDryRun(),
+      });
+      const facilitator = new FacilitatorExactSuiScheme(signer);
+      return facilitator.verify(
+        createMockPayload(
+          "exact",
+          SUI_MAINNET_CAIP2,
+          createMockTransaction({ expirationEpoch }),
+        ) as any,
+        createMockRequirements({ maxTimeoutSeconds }) as any,
+      );
+    };
+
+    it("should reject transactions without an expiration", async () => {
+      const result = await verifyWith(null);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_missing_expiration");
+      expect(result.payer).toBe(MOCK_PAYER);
+    });
+
+    it("should reject transactions that already expired", async () => {
+      const result = await verifyWith(MOCK_EPOCH - 1);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_transaction_expired");
+    });
+
+    it("should reject expirations beyond maxTimeoutSeconds", async () => {
+      const result = await verifyWith(MOCK_EPOCH + 5);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_expiration_too_far");
+    });
+
+    it("should allow the next epoch when the timeout crosses the epoch boundary", async () => {
+      const result = await verifyWith(MOCK_EPOCH + 1, 2 * 86_400);
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe("payer outflow", () => {
+    const THIRD_PARTY = "0x" + "d".repeat(64);
+    const NFT_TYPE = `${"0x" + "e".repeat(64)}::collection::NFT`;
+    const gasUsed = {
+      computationCost: "1000000",
+      storageCost: "2000000",
+      storageRebate: "500000",
+      nonRefundableStorageFee: "0",
+    };
+    const withGas = (dryRun: DryRunTransactionBlockResponse, gasOwner = MOCK_PAYER) =>
+      ({
+        ...dryRun,
+        effects: { ...dryRun.effects, gasUsed },
+        balanceChanges: [
+          ...(dryRun.balanceChanges ?? []),
+          { owner: { AddressOwner: gasOwner }, coinType: SUI_COIN_TYPE, amount: "-2500000" },
+        ],
+      }) as DryRunTransactionBlockResponse;
+    const verifyWith = (dryRun: DryRunTransactionBlockResponse, transaction?: string) => {
+      const signer = createMockFacilitatorSigner({
+        verifySignature: async () => MOCK_PAYER,
+        simulateTransaction: async () => dryRun,
+      });
+      const facilitator = new FacilitatorExactSuiScheme(signer);
+      return facilitator.verify(
+        createMockPayload("exact", SUI_MAINNET_CAIP2, transaction) as any,
+        createMockRequirements() as any,
+      );
+    };
+
+    it("should accept a payment whose payer also pays gas", async () => {
+      const result = await verifyWith(withGas(createPaymentDryRun()));
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should accept a sponsored payment where the sponsor pays gas", async () => {
+      const result = await verifyWith(
+        withGas(createPaymentDryRun(), MOCK_FACILITATOR),
+        createMockTransaction({ gasOwner: MOCK_FACILITATOR }),
+      );
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should reject payments that drain other coins to a third party", async () => {
+      const dryRun = withGas(createPaymentDryRun());
+      dryRun.balanceChanges!.push(
+        { owner: { AddressOwner: MOCK_PAYER }, coinType: SUI_COIN_TYPE, amount: "-5000000000" },
+        { owner: { AddressOwner: THIRD_PARTY }, coinType: SUI_COIN_TYPE, amount: "5000000000" },
+      );
+      const result = await verifyWith(dryRun);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_unexpected_balance_change");
+      expect(result.invalidMessage).toContain(`${THIRD_PARTY} 0x${"0".repeat(63)}2::sui::SUI`);
+      expect(result.invalidMessage).toContain("changed by 5000000000 (expected 0)");
+      expect(result.payer).toBe(MOCK_PAYER);
+    });
+
+    it("should reject payer outflow larger than the payment", async () => {
+      const result = await verifyWith(
+        createSuccessfulDryRun([
+          { owner: { AddressOwner: MOCK_PAYER }, coinType: USDC_MAINNET, amount: "-300000" },
+          { owner: { AddressOwner: MOCK_PAYTO }, coinType: USDC_MAINNET, amount: "100000" },
+          { owner: { AddressOwner: THIRD_PARTY }, coinType: USDC_MAINNET, amount: "200000" },
+        ]),
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_unexpected_balance_change");
+    });
+
+    it("should reject payments that transfer away the payer's objects", async () => {
+      const dryRun = {
+        ...createPaymentDryRun(),
+        objectChanges: [
+          {
+            type: "mutated",
+            sender: MOCK_PAYER,
+            owner: { AddressOwner: THIRD_PARTY },
+            objectType: NFT_TYPE,
+            objectId: "0x" + "7".repeat(64),
+            version: "2",
+            previousVersion: "1",
+            digest: MOCK_OBJECT_DIGEST,
+          },
+        ],
+      } as DryRunTransactionBlockResponse;
+      const result = await verifyWith(dryRun);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_unexpected_object_change");
+      expect(result.invalidMessage).toContain(`mutated ${NFT_TYPE}`);
+      expect(result.invalidMessage).toContain(`to ${THIRD_PARTY}`);
+    });
+
+    it("should reject payments that delete the payer's objects", async () => {
+      const dryRun = {
+        ...createPaymentDryRun(),
+        objectChanges: [
+          {
+            type: "deleted",
+            sender: MOCK_PAYER,
+            objectType: NFT_TYPE,
+            objectId: "0x" + "7".repeat(64),
+            version: "2",
+          },
+        ],
+      } as DryRunTransactionBlockResponse;
+      const result = await verifyWith(dryRun);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_unexpected_object_change");
+    });
+
+    it("should ignore coin objects merged, split, and mutated by the payment", async () => {
+      const dryRun = {
+        ...createPaymentDryRun(),
+        objectChanges: [
+          {
+            type: "deleted",
+            sender: MOCK_PAYER,
+            objectType: `0x2::coin::Coin<${USDC_MAINNET}>`,
+            objectId: "0x" + "3".repeat(64),
+            version: "2",
+          },
+          {
+            type: "created",
+            sender: MOCK_PAYER,
+            owner: { AddressOwner: MOCK_PAYTO },
+            objectType: `0x2::coin::Coin<${USDC_MAINNET}>`,
+            objectId: "0x" + "4".repeat(64),
+            version: "2",
+            digest: MOCK_OBJECT_DIGEST,
+          },
+          {
+            type: "mutated",
+            sender: MOCK_PAYER,
+            owner: { AddressOwner: MOCK_PAYER },
+            objectType: NFT_TYPE,
+            objectId: "0x" + "7".repeat(64),
+            version: "2",
+            previousVersion: "1",
+            digest: MOCK_OBJECT_DIGEST,
+          },
+        ],
+      } as DryRunTransactionBlockResponse;
+      const result = await verifyWith(dryRun);
+
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe("command allowlist", () => {
+    const allowedDryRun = async () => createPaymentDryRun();
+    const verifyWith = (
+      build: (tx: Transaction) => void,
+      options: ConstructorParameters<typeof FacilitatorExactSuiScheme>[2] = {},
+    ) => {
+      const signer = createMockFacilitatorSigner({
+        verifySignature: async () => MOCK_PAYER,
+        simulateTransaction: allowedDryRun,
+      });
+      const facilitator = new FacilitatorExactSuiScheme(signer, undefined, options);
+      const payload = createMockPayload(
+        "exact",
+        SUI_MAINNET_CAIP2,
+        createMockTransaction({ build }),
+      );
+      return facilitator.verify(payload as any, createMockRequirements() as any);
+    };
+
+    it("should accept coinWithBalance-style commands", async () => {
+      const result = await verifyWith(tx => {
+        const [zero] = tx.moveCall({ target: "0x2::coin::zero", typeArguments: [USDC_MAINNET] });
+        const source = tx.object(Inputs.ObjectRef(mockObjectRef("2")));
+        tx.mergeCoins(source, [tx.object(Inputs.ObjectRef(mockObjectRef("3")))]);
+        const [coin] = tx.splitCoins(source, [100000]);
+        tx.transferObjects([coin, zero], MOCK_PAYTO);
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should reject arbitrary MoveCalls", async () => {
+      const result = await verifyWith(tx => {
+        tx.moveCall({ target: `${"0x" + "e".repeat(64)}::drainer::drain` });
+        const [coin] = tx.splitCoins(tx.object(Inputs.ObjectRef(mockObjectRef("2"))), [100000]);
+        tx.transferObjects([coin], MOCK_PAYTO);
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_command_not_allowed");
+      expect(result.invalidMessage).toContain("Command 0 (MoveCall");
+      expect(result.payer).toBe(MOCK_PAYER);
+    });
+
+    it("should reject Publish commands", async () => {
+      const result = await verifyWith(tx => {
+        const [cap] = tx.publish({ modules: [[1, 2, 3]], dependencies: ["0x1", "0x2"] });
+        tx.transferObjects([cap], MOCK_PAYER);
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_command_not_allowed");
+      expect(result.invalidMessage).toContain("Publish");
+    });
+
+    it("should honor a custom allowlist", async () => {
+      const build = (tx: Transaction) => {
+        tx.moveCall({
+          target: "0x0000000000000000000000000000000000000000000000000000000000000abc::shop::pay",
+        });
+        const [coin] = tx.splitCoins(tx.object(Inputs.ObjectRef(mockObjectRef("2"))), [100000]);
+        tx.transferObjects([coin], MOCK_PAYTO);
+      };
+      const result = await verifyWith(build, {
+        allowlist: {
+          commands: ["SplitCoins", "TransferObjects"],
+          moveCalls: ["0xabc::shop::pay"],
+        },
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe("idempotent settlement", () => {
+    const createCountingSigner = (execute?: () => Promise<string>) => {
+      const calls = { execute: 0 };
+      const signer = createMockFacilitatorSigner({
+        verifySignature: async () => MOCK_PAYER,
+        simulateTransaction: async () => createPaymentDryRun(),
+        executeTransaction: async () => {
+          calls.execute++;
+          return execute ? execute() : "digest-" + calls.execute;
+        },
+      });
+      return { signer, calls };
+    };
+
+    it("should return the original response when the same payload is settled twice", async () => {
+      const { signer, calls } = createCountingSigner();
+      const facilitator = new FacilitatorExactSuiScheme(signer);
+      const payload = createMockPayload();
+
+      const first = await facilitator.settle(payload as any, createMockRequirements() as any);
+      const second = await facilitator.settle(payload as any, createMockRequirements() as any);
+
+      expect(first.success).toBe(true);
+      expect(second).toEqual(first);
+      expect(calls.execute).toBe(1);
+    });
+
+    it("should deduplicate across facilitator instances sharing a store", async () => {
+      const settlementStore = new InMemorySettlementStore();
+      const a = createCountingSigner();
+      const b = createCountingSigner();
+      const payload = createMockPayload();
+
+      const first = await new FacilitatorExactSuiScheme(a.signer, undefined, {
+        settlementStore,
+      }).settle(payload as any, createMockRequirements() as any);
+      const second = await new FacilitatorExactSuiScheme(b.signer, undefined, {
+        settlementStore,
+      }).settle(payload as any, createMockRequirements() as any);
+
+      expect(second).toEqual(first);
+      expect(a.calls.execute + b.calls.execute).toBe(1);
+    });
+
+    it("should never evict pending claims from a full store", async () => {
+      const store = new InMemorySettlementStore(2);
+      const requirements = createMockRequirements() as any;
+      await store.claim("pending", requirements);
+      await store.claim("settled", requirements);
+      await store.complete("settled", { success: true } as any);
+
+      await store.claim("newer", requirements);
+
+      expect(await store.claim("pending", requirements)).toMatchObject({ status: "pending" });
+      expect(await store.claim("settled", requirements)).toBeUndefined();
+    });
+
+    it("should report in-flight settlements instead of broadcasting again", async () => {
+      let finish: (digest: string) => void = () => {};
+      const { signer, calls } = createCountingSigner(
+        () => new Promise<string>(resolve => (finish = resolve)),
+      );
+      const facilitator = new FacilitatorExactSuiScheme(signer);
+      const payload = createMockPayload();
+
+      const first = facilitator.settle(payload as any, createMockRequirements() as any);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const second = await facilitator.settle(payload as any, createMockRequirements() as any);
+      finish("slow-digest");
+
+      expect(second.success).toBe(false);
+      expect(second.errorReason).toBe("settlement_in_progress");
+      expect((await first).transaction).toBe("slow-digest");
+      expect(calls.execute).toBe(1);
+    });
+
+    it("should allow retrying after a failed settlement", async () => {
+      let fail = true;
+      const { signer, calls } = createCountingSigner(async () => {
+        if (fail) throw new Error("Network error");
+        return "retried-digest";
+      });
+      const facilitator = new FacilitatorExactSuiScheme(signer, undefined, {
+        settlementRecoveryDelayMs: 0,
+      });
+      const payload = createMockPayload();
+
+      const first = await facilitator.settle(payload as any, createMockRequirements() as any);
+      fail = false;
+      const second = await facilitator.settle(payload as any, createMockRequirements() as any);
+
+      expect(first.success).toBe(false);
+      expect(second.success).toBe(true);
+      expect(calls.execute).toBe(2);
+    });
+
+    it("should not replay a settlement for different requirements", async () => {
+      const { signer } = createCountingSigner();
+      const facilitator = new FacilitatorExactSuiScheme(signer);
+      const payload = createMockPayload();
+
+      await facilitator.settle(payload as any, createMockRequirements() as any);
+      const result = await facilitator.settle(
+        payload as any,
+        createMockRequirements({ payTo: "0x" + "d".repeat(64) }) as any,
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errorReason).toBe("invalid_exact_sui_payload_transaction_already_settled");
+    });
+  });
+
+  describe("settlement recovery", () => {
+    const settleWith = async (overrides: Partial<FacilitatorSuiSigner>) => {
+      const signer = createMockFacilitatorSigner({
+        verifySignature: async () => MOCK_PAYER,
+        simulateTransaction: async () => createPaymentDryRun(),
+        executeTransaction: async () => {
+          throw new Error("Request timed out");
+        },
+        ...overrides,
+      });
+      const facilitator = new FacilitatorExactSuiScheme(signer, undefined, {
+        settlementRecoveryAttempts: 3,
+        settlementRecoveryDelayMs: 0,
+      });
+      const payload = createMockPayload();
+      const digest = getTransactionDigest(payload.payload.transaction);
+      const result = await facilitator.settle(payload as any, createMockRequirements() as any);
+      return { result, digest };
+    };
+
+    it("should report success when a timed-out transaction landed on-chain", async () => {
+      const lookups: string[] = [];
+      const { result, digest } = await settleWith({
+        getTransactionStatus: async lookupDigest => {
+          lookups.push(lookupDigest);
+          return { status: "success" };
+        },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.transaction).toBe(digest);
+      expect(result.payer).toBe(MOCK_PAYER);
+      expect(lookups).toEqual([digest]);
+    });
+
+    it("should recover when waiting for finality fails", async () => {
+      const { result, digest } = await settleWith({
+        executeTransaction: async () => "executed-digest",
+        waitForTransaction: async () => {
+          throw new Error("Connection reset");
+        },
+        getTransactionStatus: async () => ({ status: "success" }),
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.transaction).toBe(digest);
+    });
+
+    it("should retry lookups until the transaction is found", async () => {
+      let lookups = 0;
+      const { result } = await settleWith({
+        getTransactionStatus: async () => {
+          lookups++;
+          if (lookups === 1) throw new Error("Connection refused");
+          return lookups < 3 ? { status: "not_found" } : { status: "success" };
+        },
+      });
+
+      expect(result.success).toBe(true);
+      expect(lookups).toBe(3);
+    });
+
+    it("should report the on-chain failure of an executed transaction", async () => {
+      const { result, digest } = await settleWith({
+        getTransactionStatus: async () => ({ status: "failure", error: "MoveAbort" }),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorReason).toBe("transaction_failed");
+      expect(result.errorMessage).toContain("MoveAbort");
+      expect(result.transaction).toBe(digest);
+    });
+
+    it("should report ambiguous failures as failed when the signer cannot look up status", async () => {
+      const { result } = await settleWith({
+        executeTransaction: async () => "executed-digest",
+        waitForTransaction: async () => {
+          throw new Error("Connection reset");
+        },
+        getTransactionStatus: undefined,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorReason).toBe("transaction_failed");
+      expect(result.errorMessage).toBe("Connection reset");
+    });
+
+    it("should fail immediately without polling when execution was definitively rejected", async () => {
+      let lookups = 0;
+      const { result } = await settleWith({
+        executeTransaction: async () => {
+          throw new JsonRpcError("Invalid user signature", -32002);
+        },
+        getTransactionStatus: async () => {
+          lookups++;
+          return { status: "not_found" };
+        },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorMessage).toBe("Invalid user signature");
+      expect(lookups).toBe(0);
+    });
+
+    it("should give up after the configured number of lookups", async () => {
+      let lookups = 0;
+      const { result } = await settleWith({
+        getTransactionStatus: async () => {
+          lookups++;
+          return { status: "not_found" };
+        },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorReason).toBe("transaction_failed");
+      expect(result.errorMessage).toBe("Request timed out");
+      expect(lookups).toBe(3);
+    });
+  });
+
+  describe("sponsorship", () => {
+    const sponsoredDryRun = async () => createPaymentDryRun();
+
+    it("should co-sign and submit [clientSig, sponsorSig] when facilitator is gas owner", async () => {
+      let submitted: string | string[] = "";
+      let signedFor = "";
+      const signer = createMockFacilitatorSigner({
+        verifySignature: async () => MOCK_PAYER,
+        simulateTransaction: sponsoredDryRun,
+        signTransaction: async (_, address) => {
+          signedFor = address;
+          return "sponsor-signature";
+        },
+        executeTransaction: async (_, signature) => {
+          submitted = signature;
+          return "sponsored-digest";
+        },
+      });
+      const facilitator = new FacilitatorExactSuiScheme(signer);
+      const payload = createMockPayload(
+        "exact",
+        SUI_MAINNET_CAIP2,
+        createMockTransaction({ gasOwner: MOCK_FACILITATOR }),
+      );
+      const result = await facilitator.settle(payload as any, createMockRequirements() as any);
+
+      expect(result.success).toBe(true);
+      expect(result.transaction).toBe("sponsored-digest");
+      expect(signedFor).toBe(MOCK_FACILITATOR);
+      expect(submitted).toEqual(["mock-signature-base64", "sponsor-signature"]);
+    });
+
+    it("should submit only the client signature for self-paid transactions", async () => {
+      let submitted: string | string[] = [];
+      const signer = createMockFacilitatorSigner({
+        verifySignature: async () => MOCK_PAYER,
+        simulateTransaction: sponsoredDryRun,
+        executeTransaction: async (_, signature) => {
+          submitted = signature;
+          return "digest";
+        },
+      });
+      const facilitator = new FacilitatorExactSuiScheme(signer);
+      await facilitator.settle(createMockPayload() as any, createMockRequirements() as any);
+
+      expect(submitted).toBe("mock-signature-base64");
+    });
+
+    it("should reject gas owners that are not facilitator signers", async () => {
+      const signer = createMockFacilitatorSigner({ simulateTransaction: sponsoredDryRun });
+      const facilitator = new FacilitatorExactSuiScheme(signer);
+      const payload = createMockPayload(
+        "exact",
+        SUI_MAINNET_CAIP2,
+        createMockTransaction({ gasOwner: "0x" + "d".repeat(64) }),
+      );
+      const result = await facilitator.verify(payload as any, createMockRequirements() as any);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_unsupported_gas_sponsor");
+    });
+
+    it("should reject sponsored payloads when the signer cannot co-sign", async () => {
+      const signer = createMockFacilitatorSigner({
+        verifySignature: async () => MOCK_PAYER,
+        simulateTransaction: sponsoredDryRun,
+        signTransaction: undefined,
+      });
+      const facilitator = new FacilitatorExactSuiScheme(signer);
+      const payload = createMockPayload(
+        "exact",
+        SUI_MAINNET_CAIP2,
+        createMockTransaction({ gasOwner: MOCK_FACILITATOR }),
+      );
+      const result = await facilitator.verify(payload as any, createMockRequirements() as any);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_unsupported_gas_sponsor");
+    });
+
+    it("should reject gas budgets above the sponsored maximum", async () => {
+      const signer = createMockFacilitatorSigner({ simulateTransaction: sponsoredDryRun });
+      const facilitator = new FacilitatorExactSuiScheme(signer, undefined, {
+        maxSponsoredGasBudget: 5_000_000n,
+      });
+      const payload = createMockPayload(
+        "exact",
+        SUI_MAINNET_CAIP2,
+        createMockTransaction({ gasOwner: MOCK_FACILITATOR, gasBudget: 10_000_000 }),
+      );
+      const result = await facilitator.verify(payload as any, createMockRequirements() as any);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_gas_budget_exceeded");
+    });
+
+    it("should reject sponsored transactions that spend the gas coin", async () => {
+      const signer = createMockFacilitatorSigner({ simulateTransaction: sponsoredDryRun });
+      const facilitator = new FacilitatorExactSuiScheme(signer);
+      const payload = createMockPayload(
+        "exact",
+        SUI_MAINNET_CAIP2,
+        createMockTransaction({
+          gasOwner: MOCK_FACILITATOR,
+          build: tx => {
+            const [coin] = tx.splitCoins(tx.gas, [1_000_000_000]);
+            tx.transferObjects([coin], "0x" + "d".repeat(64));
+          },
+        }),
+      );
+      const result = await facilitator.verify(payload as any, createMockRequirements() as any);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_sponsored_gas_coin_used");
+    });
+
+    it("should reject sponsored transactions signed by someone other than the sender", async () => {
+      const signer = createMockFacilitatorSigner({
+        verifySignature: async () => "0x" + "e".repeat(64),
+        simulateTransaction: sponsoredDryRun,
+      });
+      const facilitator = new FacilitatorExactSuiScheme(signer);
+      const payload = createMockPayload(
+        "exact",
+        SUI_MAINNET_CAIP2,
+        createMockTransaction({ gasOwner: MOCK_FACILITATOR }),
+      );
+      const result = await facilitator.verify(payload as any, createMockRequirements() as any);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe("invalid_exact_sui_payload_sender_mismatch");
+    });
+
+    it("should reject undecodable transaction bytes", async () => {
+      const signer = createMockFacilitatorSigner();
+      const facilitator = new FacilitatorExactSuiScheme(signer);
+      const payload = createMockPayload("exact", SUI_MAINNET_CAIP2, "bm90LWEtdHg=");
+      const result = await facilitator.verify(payload as any, createMockRequirements() as any);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidReason).toBe(
+        "invalid_exact_sui_payload_transaction_could_not_be_decoded",
+      );
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+  SUI_MAINNET_CAIP2,
+  USDC_MAINNET,
+  SUI_COIN_TYPE,
+  StaticPriceFeed,
+  SuiCoinRegistry,
+} from "../../src/index";
+import { ExactSuiScheme as ServerExactSuiScheme } from "../../src/exact/server/scheme";
+
+describe("ExactSuiScheme (Server)", () => {
+  describe("oracle pricing", () => {
+    it("should charge USD prices in SUI at the feed's rate plus slippage", async () => {
+      const oracle = new ServerExactSuiScheme(undefined, {
+        priceFeed: new StaticPriceFeed({ [SUI_COIN_TYPE]: "2.5" }),
+        slippageBps: 100,
+      });
+
+      const result = await oracle.parsePrice("$1.00", SUI_MAINNET_CAIP2);
+
+      // $1.00 / $2.50 = 0.4 SUI, plus 1%
+      expect(result.amount).toBe("404000000");
+      expect(result.asset).toBe(SUI_COIN_TYPE);
+      expect(result.extra?.priceQuote).toMatchObject({
+        usdAmount: "1",
+        rate: "2.5",
+        slippageBps: 100,
+      });
+    });
+
+    it("should charge in any priced coin, rounding up", async () => {
+      const coinType = "0xabc::coin::COIN";
+      const oracle = new ServerExactSuiScheme(undefined, {
+        priceFeed: new StaticPriceFeed({ [coinType]: 3 }),
+        priceAsset: { coinType, decimals: 2 },
+        slippageBps: 0,
+      });
+
+      const result = await oracle.parsePrice(1, SUI_MAINNET_CAIP2);
+
+      expect(result).toMatchObject({ amount: "34", asset: coinType });
+    });
+
+    it("should resolve a price asset given by symbol", async () => {
+      const coinType = "0xabc::coin::COIN";
+      const coinRegistry = new SuiCoinRegistry(undefined, { fetchMetadata: null }).register({
+        coinType,
+        symbol: "COIN",
+        decimals: 3,
+      });
+      const oracle = new ServerExactSuiScheme(undefined, {
+        priceFeed: new StaticPriceFeed({ [coinType]: 2 }),
+        priceAsset: "COIN",
+        slippageBps: 0,
+        coinRegistry,
+      });
+
+      const result = await oracle.parsePrice("$1", SUI_MAINNET_CAIP2);
+
+      expect(result).toMatchObject({ amount: "500", asset: coinType });
+    });
+
+    it("should reuse a quote until it expires", async () => {
+      let rate = 2;
+      const oracle = new ServerExactSuiScheme(undefined, {
+        priceFeed: { getUsdPrice: async () => rate },
+        quoteTtlSeconds: 0.05,
+      });
+
+      const first = await oracle.parsePrice("$1", SUI_MAINNET_CAIP2);
+      rate = 4;
+      const cached = await oracle.parsePrice("$1", SUI_MAINNET_CAIP2);
+      await new Promise(resolve => setTimeout(resolve, 60));
+      const requoted = await oracle.parsePrice("$1", SUI_MAINNET_CAIP2);
+
+      expect(cached).toEqual(first);
+      expect(requoted.amount).toBe("251250000");
+      const quote = requoted.extra?.priceQuote as { quotedAt: number; expiresAt: number };
+      expect(quote.expiresAt - quote.quotedAt).toBe(50);
+    });
+
+    it("should still prefer custom money parsers", async () => {
+      const oracle = new ServerExactSuiScheme(undefined, {
+        priceFeed: new StaticPriceFeed(),
+      }).registerMoneyParser(async amount => ({
+        amount: String(amount * 100),
+        asset: USDC_MAINNET,
+      }));
+
+      const result = await oracle.parsePrice("$2", SUI_MAINNET_CAIP2);
+
+      expect(result).toEqual({ amount: "200", asset: USDC_MAINNET });
+    });
+
+    it("should reject coins the feed cannot price", async () => {
+      const oracle = new ServerExactSuiScheme(undefined, { priceFeed: new StaticPriceFeed() });
+
+      await expect(oracle.parsePrice("$1", SUI_MAINNET_CAIP2)).rejects.toThrow(
+        "No USD price configured for 0x2::sui::SUI",
+      );
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  SUI_MAINNET_CAIP2,
+  USDC_MAINNET,
+  SUI_COIN_TYPE,
+  SuiObjectVersionError,
+  SuiRpcError,
+  MAINNET_CHAIN_IDENTIFIER,
+  TESTNET_CHAIN_IDENTIFIER,
+  SuiChainMismatchError,
+  toGraphQLFacilitatorSuiSigner,
+} from "../../src/index";
+import { ExactSuiScheme as FacilitatorExactSuiScheme } from "../../src/exact/facilitator/scheme";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { fromBase64 } from "@mysten/sui/utils";
+import {
+  MOCK_EPOCH,
+  MOCK_PAYTO,
+  MOCK_OBJECT_DIGEST,
+  mockObjectRef,
+  createMockTransaction,
+  startMockGraphQLServer,
+  createMockRequirements,
+} from "./helpers";
+
+describe("GraphQL facilitator signer", () => {
+  const keypair = new Ed25519Keypair();
+  const payer = keypair.toSuiAddress();
+  const NFT_TYPE = "0x" + "9".repeat(64) + "::nft::Nft";
+
+  const servers: Array<{ close: () => Promise<void> }> = [];
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => server.close()));
+  });
+
+  const addressOwner = (address: string) => ({
+    __typename: "AddressOwner",
+    address: { address },
+  });
+
+  // Responses recorded from a Sui GraphQL service, with addresses swapped for the test payer
+  const recorded = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+    getChainIdentifier: { data: { chainIdentifier: MAINNET_CHAIN_IDENTIFIER } },
+    getEpoch: {
+      data: {
+        epoch: {
+          epochId: MOCK_EPOCH,
+          startTimestamp: new Date().toISOString(),
+          systemParameters: { durationMs: "86400000" },
+        },
+      },
+    },
+    simulateTransaction: {
+      data: {
+        simulateTransaction: {
+          error: null,
+          effects: {
+            digest: "8Lcvf3gCkKq5UQyRHvzBBjvBygHYs7ACqoXzqvP2iSwg",
+            status: "SUCCESS",
+            executionError: null,
+            gasEffects: {
+              gasSummary: {
+                computationCost: 1000000,
+                storageCost: 1976000,
+                storageRebate: 978120,
+                nonRefundableStorageFee: 9880,
+              },
+            },
+            balanceChanges: {
+              pageInfo: { hasNextPage: false },
+              nodes: [
+                {
+                  owner: { address: payer },
+                  coinType: { repr: SUI_COIN_TYPE },
+                  amount: "-1997880",
+                },
+                {
+                  owner: { address: payer },
+                  coinType: { repr: USDC_MAINNET },
+                  amount: "-100000",
+                },
+                {
+                  owner: { address: MOCK_PAYTO },
+                  coinType: { repr: USDC_MAINNET },
+                  amount: "100000",
+                },
+              ],
+            },
+            objectChanges: {
+              pageInfo: { hasNextPage: false },
+              nodes: [
+                {
+                  address: mockObjectRef("1").objectId,
+                  idCreated: false,
+                  idDeleted: false,
+                  inputState: {
+                    version: 1,
+                    digest: MOCK_OBJECT_DIGEST,
+                    owner: addressOwner(payer),
+                    asMoveObject: {
+                      contents: { type: { repr: `0x2::coin::Coin<${SUI_COIN_TYPE}>` } },
+                    },
+                    asMovePackage: null,
+                  },
+                  outputState: {
+                    version: 2,
+                    digest: MOCK_OBJECT_DIGEST,
+                    owner: addressOwner(payer),
+                    asMoveObject: {
+                      contents: { type: { repr: `0x2::coin::Coin<${SUI_COIN_TYPE}>` } },
+                    },
+                    asMovePackage: null,
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+    },
+    executeTransaction: {
+      data: {
+        executeTransaction: {
+          errors: null,
+          effects: {
+            digest: "8Lcvf3gCkKq5UQyRHvzBBjvBygHYs7ACqoXzqvP2iSwg",
+            status: "SUCCESS",
+            executionError: null,
+          },
+        },
+      },
+    },
+    getTransaction: {
+      data: { transaction: { effects: { status: "SUCCESS", executionError: null } } },
+    },
+    ...overrides,
+  });
+
+  const start = async (responses: Record<string, unknown>) => {
+    const server = await startMockGraphQLServer(operation => responses[operation]);
+    servers.push(server);
+    return server;
+  };
+
+  const signedPayload = async () => {
+    const transaction = createMockTransaction({
+      sender: payer,
+      gasPayment: [mockObjectRef("1")],
+    });
+    const { signature } = await keypair.signTransaction(fromBase64(transaction));
+    return {
+      x402Version: 2,
+      accepted: { scheme: "exact", network: SUI_MAINNET_CAIP2 },
+      payload: { signature, transaction },
+    };
+  };
+
+  it("should verify and settle through the unchanged exact scheme", async () => {
+    const server = await start(recorded());
+    const facilitator = new FacilitatorExactSuiScheme(
+      toGraphQLFacilitatorSuiSigner({
+        graphqlUrls: { [SUI_MAINNET_CAIP2]: server.url },
+        pollIntervalMs: 0,
+      }),
+    );
+    const payload = await signedPayload();
+
+    const verified = await facilitator.verify(payload as any, createMockRequirements() as any);
+    const settled = await facilitator.settle(payload as any, createMockRequirements() as any);
+
+    expect(verified).toMatchObject({ isValid: true, payer });
+    expect(settled).toMatchObject({
+      success: true,
+      payer,
+      transaction: "8Lcvf3gCkKq5UQyRHvzBBjvBygHYs7ACqoXzqvP2iSwg",
+    });
+    expect(server.operations.filter(op => op === "getChainIdentifier")).toHaveLength(1);
+    expect(server.operations).toContain("executeTransaction");
+    expect(server.operations.at(-1)).toBe("getTransaction");
+  });
+
+  it("should normalize simulation results to the dry-run shape", async () => {
+    const server = await start(recorded());
+    const signer = toGraphQLFacilitatorSuiSigner({
+      graphqlUrls: { [SUI_MAINNET_CAIP2]: server.url },
+    });
+
+    const result = await signer.simulateTransaction(
+      createMockTransaction({ sender: payer }),
+      SUI_MAINNET_CAIP2,
+    );
+
+    expect(result.effects.status).toEqual({ status: "success" });
+    expect(result.effects.gasUsed).toEqual({
+      computationCost: "1000000",
+      storageCost: "1976000",
+      storageRebate: "978120",
+      nonRefundableStorageFee: "9880",
+    });
+    expect(result.balanceChanges[1]).toEqual({
+      owner: { AddressOwner: payer },
+      coinType: USDC_MAINNET,
+      amount: "-100000",
+    });
+    expect(result.objectChanges?.[0]).toMatchObject({
+      type: "mutated",
+      sender: payer,
+      owner: { AddressOwner: payer },
+      version: "2",
+      previousVersion: "1",
+    });
+  });
+
+  it("should report objects leaving the payer as transfers", async () => {
+    const responses = recorded();
+    const simulation = (responses.simulateTransaction as any).data.simulateTransaction;
+    simulation.effects.objectChanges.nodes.push({
+      address: "0x" + "7".repeat(64),
+      idCreated: false,
+      idDeleted: false,
+      inputState: {
+        version: 1,
+        digest: MOCK_OBJECT_DIGEST,
+        owner: addressOwner(payer),
+        asMoveObject: { contents: { type: { repr: NFT_TYPE } } },
+        asMovePackage: null,
+      },
+      outputState: {
+        version: 2,
+        digest: MOCK_OBJECT_DIGEST,
+        owner: addressOwner(MOCK_PAYTO),
+        asMoveObject: { contents: { type: { repr: NFT_TYPE } } },
+        asMovePackage: null,
+      },
+    });
+    const server = await start(responses);
+    const facilitator = new FacilitatorExactSuiScheme(
+      toGraphQLFacilitatorSuiSigner({ graphqlUrls: { [SUI_MAINNET_CAIP2]: server.url } }),
+    );
+
+    const result = await facilitator.verify(
+      (await signedPayload()) as any,
+      createMockRequirements() as any,
+    );
+
+    expect(result.invalidReason).toBe("invalid_exact_sui_payload_unexpected_object_change");
+    expect(result.invalidMessage).toContain(`transferred ${NFT_TYPE}`);
+  });
+
+  it("should type simulation rejections", async () => {
+    const server = await start(
+      recorded({
+        simulateTransaction: {
+          data: {
+            simulateTransaction: {
+              error:
+                "Transaction needs to be rebuilt: ObjectVersionUnavailableForConsumption { provided_obj_ref: (0x2, SequenceNumber(1)), current_version: SequenceNumber(3) }",
+              effects: null,
+            },
+          },
+        },
+      }),
+    );
+    const signer = toGraphQLFacilitatorSuiSigner({
+      graphqlUrls: { [SUI_MAINNET_CAIP2]: server.url },
+    });
+
+    await expect(
+      signer.simulateTransaction(createMockTransaction(), SUI_MAINNET_CAIP2),
+    ).rejects.toBeInstanceOf(SuiObjectVersionError);
+  });
+
+  it("should report unreachable services as RPC errors", async () => {
+    const server = await start(recorded({ simulateTransaction: { status: 503 } }));
+    const signer = toGraphQLFacilitatorSuiSigner({
+      graphqlUrls: { [SUI_MAINNET_CAIP2]: server.url },
+    });
+
+    await expect(
+      signer.simulateTransaction(createMockTransaction(), SUI_MAINNET_CAIP2),
+    ).rejects.toBeInstanceOf(SuiRpcError);
+  });
+
+  it("should refuse a service serving another chain", async () => {
+    const server = await start(
+      recorded({ getChainIdentifier: { data: { chainIdentifier: TESTNET_CHAIN_IDENTIFIER } } }),
+    );
+    const signer = toGraphQLFacilitatorSuiSigner({
+      graphqlUrls: { [SUI_MAINNET_CAIP2]: server.url },
+    });
+
+    await expect(
+      signer.simulateTransaction(createMockTransaction(), SUI_MAINNET_CAIP2),
+    ).rejects.toBeInstanceOf(SuiChainMismatchError);
+    expect(server.operations).toEqual(["getChainIdentifier"]);
+  });
+
+  it("should look up transaction status by digest", async () => {
+    const server = await start(
+      recorded({
+        getTransaction: {
+          data: {
+            transaction: {
+              effects: { status: "FAILURE", executionError: { message: "InsufficientGas" } },
+            },
+          },
+        },
+      }),
+    );
+    const missing = await start(recorded({ getTransaction: { data: { transaction: null } } }));
+
+    const status = await toGraphQLFacilitatorSuiSigner({
+      graphqlUrls: { [SUI_MAINNET_CAIP2]: server.url },
+    }).getTransactionStatus!("digest", SUI_MAINNET_CAIP2);
+    const notFound = await toGraphQLFacilitatorSuiSigner({
+      graphqlUrls: { [SUI_MAINNET_CAIP2]: missing.url },
+    }).getTransactionStatus!("digest", SUI_MAINNET_CAIP2);
+
+    expect(status).toEqual({ status: "failure", error: "InsufficientGas" });
+    expect(notFound).toEqual({ status: "not_found" });
+  });
+
+  it("should give up waiting for a transaction after the timeout", async () => {
+    const server = await start(recorded({ getTransaction: { data: { transaction: null } } }));
+    const signer = toGraphQLFacilitatorSuiSigner({
+      graphqlUrls: { [SUI_MAINNET_CAIP2]: server.url },
+      waitTimeoutMs: 20,
+      pollIntervalMs: 5,
+    });
+
+    await expect(signer.waitForTransaction("digest", SUI_MAINNET_CAIP2)).rejects.toThrow(
+      "Timed out waiting for transaction digest",
+    );
+  });
+});
@@ -0,0 +1,244 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { SUI_MAINNET_CAIP2, USDC_MAINNET, MAINNET_CHAIN_IDENTIFIER } from "../../src/index";
+import { FakeSuiLedger, startMockSuiRpcServer } from "../../src/testing/index";
+import type { MockSuiRpcReply, MockSuiRpcServer } from "../../src/testing/index";
+import type { FacilitatorSuiSigner } from "../../src/signer";
+import type { SuiEpochInfo } from "../../src/types";
+import type { DryRunTransactionBlockResponse, SuiClient } from "@mysten/sui/client";
+import { Inputs, Transaction, TransactionDataBuilder } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+
+// ─────────────────────────────────────────────────
+// Test Helpers
+// ─────────────────────────────────────────────────
+
+export function createMockFacilitatorSigner(
+  overrides: Partial<FacilitatorSuiSigner> = {},
+): FacilitatorSuiSigner {
+  return {
+    getAddresses: () => ["0x" + "a".repeat(64)],
+    verifySignature: async () => "0x" + "b".repeat(64),
+    simulateTransaction: async () => createSuccessfulDryRun(),
+    getEpochInfo: async () => createMockEpochInfo(),
+    signTransaction: async () => "mock-sponsor-signature",
+    executeTransaction: async () => "mock-digest-" + Date.now(),
+    waitForTransaction: async () => {},
+    getTransactionStatus: async () => ({ status: "not_found" }),
+    ...overrides,
+  };
+}
+
+export const MOCK_EPOCH = 100;
+
+/**
+ * Epoch timing for an epoch that started just now and lasts one day.
+ */
+export function createMockEpochInfo(epoch = MOCK_EPOCH): SuiEpochInfo {
+  return { epoch, epochStartTimestampMs: Date.now(), epochDurationMs: 86_400_000 };
+}
+
+export function createSuccessfulDryRun(
+  balanceChanges: Array<{
+    owner: { AddressOwner: string } | string;
+    coinType: string;
+    amount: string;
+  }> = [],
+): DryRunTransactionBlockResponse {
+  return {
+    effects: {
+      status: { status: "success" },
+    },
+    balanceChanges,
+    events: [],
+    input: {} as any,
+    objectChanges: [],
+  } as unknown as DryRunTransactionBlockResponse;
+}
+
+/**
+ * A successful dry run for a plain payment: payer debited, recipient credited.
+ */
+export function createPaymentDryRun(
+  amount = "100000",
+  payer = MOCK_PAYER,
+  coinType = USDC_MAINNET,
+): DryRunTransactionBlockResponse {
+  return createSuccessfulDryRun([
+    { owner: { AddressOwner: payer }, coinType, amount: `-${amount}` },
+    { owner: { AddressOwner: MOCK_PAYTO }, coinType, amount },
+  ]);
+}
+
+export function createFailedDryRun(error: string): DryRunTransactionBlockResponse {
+  return {
+    effects: {
+      status: { status: "failure", error },
+    },
+    balanceChanges: [],
+    events: [],
+    input: {} as any,
+    objectChanges: [],
+  } as unknown as DryRunTransactionBlockResponse;
+}
+
+export const MOCK_PAYER = "0x" + "b".repeat(64);
+export const MOCK_PAYTO = "0x" + "c".repeat(64);
+export const MOCK_FACILITATOR = "0x" + "a".repeat(64);
+export const MOCK_OBJECT_DIGEST = "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi";
+
+export function mockObjectRef(id: string, version = "1") {
+  return { objectId: "0x" + id.repeat(64), version, digest: MOCK_OBJECT_DIGEST };
+}
+
+/**
+ * Build real BCS TransactionData bytes for a split-and-transfer payment.
+ * Fully resolved offline, so no client is needed.
+ */
+export function createMockTransaction(
+  options: {
+    sender?: string;
+    gasOwner?: string;
+    gasBudget?: number;
+    gasPayment?: ReturnType<typeof mockObjectRef>[];
+    expirationEpoch?: number | null;
+    build?: (tx: Transaction) => void;
+  } = {},
+): string {
+  const tx = new Transaction();
+  tx.setSender(options.sender ?? MOCK_PAYER);
+  if (options.expirationEpoch !== null) {
+    tx.setExpiration({ Epoch: options.expirationEpoch ?? MOCK_EPOCH });
+  }
+  if (options.gasOwner) tx.setGasOwner(options.gasOwner);
+  tx.setGasBudget(options.gasBudget ?? 10_000_000);
+  tx.setGasPrice(1000);
+  tx.setGasPayment(options.gasPayment ?? [mockObjectRef("1")]);
+
+  if (options.build) {
+    options.build(tx);
+  } else {
+    const [coin] = tx.splitCoins(tx.object(Inputs.ObjectRef(mockObjectRef("2"))), [100000]);
+    tx.transferObjects([coin], MOCK_PAYTO);
+  }
+
+  return toBase64(TransactionDataBuilder.restore(tx.getData()).build());
+}
+
+/**
+ * A SuiClient stand-in that answers coin lookups for coinWithBalance() offline,
+ * and the balance reads and dry runs of the client's pre-flight check.
+ */
+export function createMockSuiClient(balance = "1000000"): SuiClient {
+  return {
+    jsonRpc: {},
+    getLatestSuiSystemState: async () => ({
+      epoch: String(MOCK_EPOCH),
+      epochStartTimestampMs: String(Date.now()),
+      epochDurationMs: "86400000",
+    }),
+    getCoins: async ({ coinType }: { coinType: string }) => ({
+      data: [
+        {
+          coinObjectId: mockObjectRef("2").objectId,
+          version: "3",
+          digest: MOCK_OBJECT_DIGEST,
+          balance,
+          coinType,
+        },
+      ],
+      hasNextPage: false,
+      nextCursor: null,
+    }),
+    getBalance: async ({ coinType }: { coinType: string }) => ({
+      coinType,
+      totalBalance: balance,
+    }),
+    dryRunTransactionBlock: async () => createSuccessfulDryRun(),
+  } as unknown as SuiClient;
+}
+
+export function createMockPayload(
+  scheme = "exact",
+  network = SUI_MAINNET_CAIP2,
+  transaction = createMockTransaction(),
+) {
+  return {
+    x402Version: 2,
+    accepted: { scheme, network },
+    payload: {
+      signature: "mock-signature-base64",
+      transaction,
+    },
+  };
+}
+
+/**
+ * A Sui fullnode standing in on the shipped mock JSON-RPC server. `reply` decides each
+ * answer, except chain identifier checks, which the ledger answers with `chainIdentifier`
+ * whenever the node is up. `methods` leaves the chain checks out.
+ */
+export async function startMockRpcServer(
+  reply: (method: string) => MockSuiRpcReply | Promise<MockSuiRpcReply>,
+  chainIdentifier = MAINNET_CHAIN_IDENTIFIER,
+): Promise<MockSuiRpcServer> {
+  const server = await startMockSuiRpcServer(new FakeSuiLedger({ chainIdentifier }), {
+    intercept: async (method, params) => {
+      const answer = await reply(method);
+      const isChainCheck = method === "sui_getCheckpoint" && params[0] === "0";
+      return isChainCheck && !("status" in answer) ? undefined : answer;
+    },
+  });
+  return {
+    url: server.url,
+    get methods() {
+      return server.methods.filter(method => method !== "sui_getCheckpoint");
+    },
+    close: server.close,
+  };
+}
+
+/**
+ * A local GraphQL server standing in for a Sui GraphQL service. `reply` returns the
+ * recorded response body for each operation, or an HTTP status to fail with.
+ */
+export async function startMockGraphQLServer(
+  reply: (operation: string, variables: Record<string, unknown>) => unknown,
+): Promise<{ url: string; operations: string[]; close: () => Promise<void> }> {
+  const operations: string[] = [];
+  const server = createServer(async (req, res) => {
+    let body = "";
+    for await (const chunk of req) body += chunk;
+    const { query, variables } = JSON.parse(body);
+    const operation = /^\s*(?:query|mutation)\s+(\w+)/.exec(query)?.[1] ?? "anonymous";
+    operations.push(operation);
+
+    const answer = (await reply(operation, variables ?? {})) as { status?: number };
+    if (typeof answer.status === "number") {
+      res.writeHead(answer.status).end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(answer));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/graphql`,
+    operations,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+export function createMockRequirements(overrides: Record<string, unknown> = {}) {
+  return {
+    scheme: "exact",
+    network: SUI_MAINNET_CAIP2,
+    asset: USDC_MAINNET,
+    amount: "100000",
+    payTo: MOCK_PAYTO,
+    maxTimeoutSeconds: 3600,
+    ...overrides,
+  };
+}
@@ -14,85 +14,21 @@ import {
   USDC_DECIMALS,
   SUI_DECIMALS,
   SUI_COIN_TYPE,
+  SuiCoinRegistry,
 } from "../../src/index";
 import { ExactSuiScheme as ServerExactSuiScheme } from "../../src/exact/server/scheme";
 import { ExactSuiScheme as FacilitatorExactSuiScheme } from "../../src/exact/facilitator/scheme";
-import type { FacilitatorSuiSigner } from "../../src/signer";
-import type { DryRunTransactionBlockResponse } from "@mysten/sui/client";
-
-// ─────────────────────────────────────────────────
-// Test Helpers
-// ─────────────────────────────────────────────────
-
-function createMockFacilitatorSigner(
-  overrides: Partial<FacilitatorSuiSigner> = {},
-): FacilitatorSuiSigner {
-  return {
-    getAddresses: () => ["0x" + "a".repeat(64)],
-    verifySignature: async () => "0x" + "b".repeat(64),
-    simulateTransaction: async () => createSuccessfulDryRun(),
-    executeTransaction: async () => "mock-digest-" + Date.now(),
-    waitForTransaction: async () => {},
-    ...overrides,
-  };
-}
-
-function createSuccessfulDryRun(
-  balanceChanges: Array<{
-    owner: { AddressOwner: string } | string;
-    coinType: string;
-    amount: string;
-  }> = [],
-): DryRunTransactionBlockResponse {
-  return {
-    effects: {
-      status: { status: "success" },
-    },
-    balanceChanges,
-    events: [],
-    input: {} as any,
-    objectChanges: [],
-  } as unknown as DryRunTransactionBlockResponse;
-}
-
-function createFailedDryRun(error: string): DryRunTransactionBlockResponse {
-  return {
-    effects: {
-      status: { status: "failure", error },
-    },
-    balanceChanges: [],
-    events: [],
-    input: {} as any,
-    objectChanges: [],
-  } as unknown as DryRunTransactionBlockResponse;
-}
-
-const MOCK_PAYER = "0x" + "b".repeat(64);
-const MOCK_PAYTO = "0x" + "c".repeat(64);
-const MOCK_FACILITATOR = "0x" + "a".repeat(64);
-
-function createMockPayload(scheme = "exact", network = SUI_MAINNET_CAIP2) {
-  return {
-    x402Version: 2,
-    accepted: { scheme, network },
-    payload: {
-      signature: "mock-signature-base64",
-      transaction: "mock-transaction-base64",
-    },
-  };
-}
-
-function createMockRequirements(overrides: Record<string, unknown> = {}) {
-  return {
-    scheme: "exact",
-    network: SUI_MAINNET_CAIP2,
-    asset: USDC_MAINNET,
-    amount: "100000",
-    payTo: MOCK_PAYTO,
-    maxTimeoutSeconds: 3600,
-    ...overrides,
-  };
-}
+import {
+  createMockFacilitatorSigner,
+  createSuccessfulDryRun,
+  createPaymentDryRun,
+  createFailedDryRun,
+  MOCK_PAYER,
+  MOCK_PAYTO,
+  MOCK_FACILITATOR,
+  createMockPayload,
+  createMockRequirements,
+} from "./helpers";
 
 // ─────────────────────────────────────────────────
 // Tests
@@ -156,6 +92,31 @@ describe("@x402/sui", () => {
     it("should handle sub-atomic amounts without scientific notation", () => {
       expect(convertToTokenAmount("0.0000001", 6)).toBe("0");
       expect(convertToTokenAmount("0.0000009", 6)).toBe("1"); // rounds up to 0.000001
+      expect(convertToTokenAmount("1e-7", 9)).toBe("100");
+    });
+
+    it("should keep every digit of large and precise amounts", () => {
+      expect(convertToTokenAmount("123456789012345678.123456789", 9)).toBe(
+        "123456789012345678123456789",
+      );
+      expect(convertToTokenAmount("0.1234567890123456789", 18)).toBe("123456789012345679");
+    });
+
+    it("should apply the requested rounding mode", () => {
+      expect(convertToTokenAmount("0.0000025", 6)).toBe("3");
+      expect(convertToTokenAmount("0.0000025", 6, { rounding: "halfEven" })).toBe("2");
+      expect(convertToTokenAmount("0.0000035", 6, { rounding: "halfEven" })).toBe("4");
+      expect(convertToTokenAmount("0.0000021", 6, { rounding: "up" })).toBe("3");
+      expect(convertToTokenAmount("0.0000029", 6, { rounding: "down" })).toBe("2");
+    });
+
+    it("should reject excess precision when asked to", () => {
+      expect(() => convertToTokenAmount("1.0000001", 6, { rejectExcessPrecision: true })).toThrow(
+        "Amount 1.0000001 has more than 6 decimal places",
+      );
+      expect(convertToTokenAmount("1.000001000", 6, { rejectExcessPrecision: true })).toBe(
+        "1000001",
+      );
     });
   });
 
@@ -286,6 +247,45 @@ describe("@x402/sui", () => {
         const result = await server.parsePrice("$4.02", SUI_MAINNET_CAIP2);
         expect(result.amount).toBe("4020000");
       });
+
+      it("should convert amounts beyond float precision exactly", async () => {
+        const result = await server.parsePrice("$90071992547409.93", SUI_MAINNET_CAIP2);
+        expect(result.amount).toBe("90071992547409930000");
+      });
+
+      it("should honor the configured rounding and precision options", async () => {
+        const truncating = new ServerExactSuiScheme(undefined, { rounding: "down" });
+        const strict = new ServerExactSuiScheme(undefined, { rejectExcessPrecision: true });
+
+        expect((await truncating.parsePrice("$0.0000019", SUI_MAINNET_CAIP2)).amount).toBe("1");
+        expect((await strict.parsePrice("$0.01", SUI_MAINNET_CAIP2)).amount).toBe("10000");
+        await expect(strict.parsePrice("$0.0000019", SUI_MAINNET_CAIP2)).rejects.toThrow(
+          "has more than 6 decimal places",
+        );
+      });
+
+      it("should charge SUI-denominated prices in SUI", async () => {
+        const result = await server.parsePrice("0.5 SUI", SUI_MAINNET_CAIP2);
+        expect(result).toEqual({ amount: "500000000", asset: SUI_COIN_TYPE, extra: {} });
+      });
+
+      it("should charge prices in any coin type or alias in that coin", async () => {
+        const DEEP = "0xdee9::deep::DEEP";
+        const coinRegistry = new SuiCoinRegistry(undefined, {
+          fetchMetadata: async () => ({ symbol: "DEEP", decimals: 6 }),
+        });
+        const coins = new ServerExactSuiScheme(undefined, { coinRegistry });
+
+        const byType = await coins.parsePrice(`2.5 ${DEEP}`, SUI_MAINNET_CAIP2);
+        coinRegistry.alias("DEEP", DEEP);
+        const byAlias = await coins.parsePrice("2.5 DEEP", SUI_MAINNET_CAIP2);
+
+        expect(byType).toEqual({ amount: "2500000", asset: DEEP, extra: {} });
+        expect(byAlias).toEqual(byType);
+        await expect(coins.parsePrice("1 WAL", SUI_MAINNET_CAIP2)).rejects.toThrow(
+          "Unknown coin symbol WAL",
+        );
+      });
     });
 
     describe("enhancePaymentRequirements", () => {
@@ -388,14 +388,7 @@ describe("@x402/sui", () => {
       it("should return isValid:true for valid payment", async () => {
         const signer = createMockFacilitatorSigner({
           verifySignature: async () => MOCK_PAYER,
-          simulateTransaction: async () =>
-            createSuccessfulDryRun([
-              {
-                owner: { AddressOwner: MOCK_PAYTO },
-                coinType: USDC_MAINNET,
-                amount: "100000",
-              },
-            ]),
+          simulateTransaction: async () => createPaymentDryRun(),
         });
         const facilitator = new FacilitatorExactSuiScheme(signer);
         const result = await facilitator.verify(
@@ -477,7 +470,7 @@ describe("@x402/sui", () => {
         );
 
         expect(result.isValid).toBe(false);
-        expect(result.invalidReason).toBe("invalid_exact_sui_payload_transaction_dry_run_failed");
+        expect(result.invalidReason).toBe("invalid_exact_sui_payload_insufficient_balance");
       });
 
       it("should reject wrong recipient (recipient mismatch)", async () => {
@@ -527,14 +520,7 @@ describe("@x402/sui", () => {
       it("should reject insufficient amount", async () => {
         const signer = createMockFacilitatorSigner({
           verifySignature: async () => MOCK_PAYER,
-          simulateTransaction: async () =>
-            createSuccessfulDryRun([
-              {
-                owner: { AddressOwner: MOCK_PAYTO },
-                coinType: USDC_MAINNET,
-                amount: "50000", // only 0.05 USDC, need 0.10
-              },
-            ]),
+          simulateTransaction: async () => createPaymentDryRun("50000"),
         });
         const facilitator = new FacilitatorExactSuiScheme(signer);
         const result = await facilitator.verify(
@@ -549,14 +535,7 @@ describe("@x402/sui", () => {
       it("should accept overpayment", async () => {
         const signer = createMockFacilitatorSigner({
           verifySignature: async () => MOCK_PAYER,
-          simulateTransaction: async () =>
-            createSuccessfulDryRun([
-              {
-                owner: { AddressOwner: MOCK_PAYTO },
-                coinType: USDC_MAINNET,
-                amount: "200000", // 0.20 USDC, need 0.10
-              },
-            ]),
+          simulateTransaction: async () => createPaymentDryRun("200000"),
         });
         const facilitator = new FacilitatorExactSuiScheme(signer);
         const result = await facilitator.verify(
@@ -573,14 +552,7 @@ describe("@x402/sui", () => {
         const mockDigest = "mock-digest-123";
         const signer = createMockFacilitatorSigner({
           verifySignature: async () => MOCK_PAYER,
-          simulateTransaction: async () =>
-            createSuccessfulDryRun([
-              {
-                owner: { AddressOwner: MOCK_PAYTO },
-                coinType: USDC_MAINNET,
-                amount: "100000",
-              },
-            ]),
+          simulateTransaction: async () => createPaymentDryRun(),
           executeTransaction: async () => mockDigest,
         });
         const facilitator = new FacilitatorExactSuiScheme(signer);
@@ -614,19 +586,14 @@ describe("@x402/sui", () => {
       it("should return success:false when execution fails", async () => {
         const signer = createMockFacilitatorSigner({
           verifySignature: async () => MOCK_PAYER,
-          simulateTransaction: async () =>
-            createSuccessfulDryRun([
-              {
-                owner: { AddressOwner: MOCK_PAYTO },
-                coinType: USDC_MAINNET,
-                amount: "100000",
-              },
-            ]),
+          simulateTransaction: async () => createPaymentDryRun(),
           executeTransaction: async () => {
             throw new Error("Network error");
           },
         });
-        const facilitator = new FacilitatorExactSuiScheme(signer);
+        const facilitator = new FacilitatorExactSuiScheme(signer, undefined, {
+          settlementRecoveryDelayMs: 0,
+        });
         const result = await facilitator.settle(
           createMockPayload() as any,
           createMockRequirements() as any,
@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import { x402ResourceServer } from "@x402/core/server";
+import {
+  ExactSuiScheme,
+  SUI_TESTNET_CAIP2,
+  USDC_TESTNET,
+  SUI_COIN_TYPE,
+  toClientSuiSigner,
+} from "../../src/index";
+import {
+  FakeSuiLedger,
+  createFakeSuiClient,
+  toFakeFacilitatorSuiSigner,
+} from "../../src/testing/index";
+import { ExactSuiScheme as ServerExactSuiScheme } from "../../src/exact/server/scheme";
+import { ExactSuiScheme as FacilitatorExactSuiScheme } from "../../src/exact/facilitator/scheme";
+import { LocalSuiFacilitatorClient } from "../../src/exact/facilitator/index";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64, normalizeStructTag } from "@mysten/sui/utils";
+import { MOCK_PAYTO, createMockRequirements } from "./helpers";
+
+describe("fake Sui ledger", () => {
+  const requirements = createMockRequirements({
+    network: SUI_TESTNET_CAIP2,
+    asset: USDC_TESTNET,
+  });
+
+  const setup = () => {
+    const ledger = new FakeSuiLedger();
+    const keypair = Ed25519Keypair.generate();
+    const payer = keypair.toSuiAddress();
+    ledger.mint(payer, 1_000_000, USDC_TESTNET);
+    ledger.mint(payer, 1_000_000_000);
+    const client = new ExactSuiScheme(toClientSuiSigner(keypair, createFakeSuiClient(ledger)));
+    const facilitator = new FacilitatorExactSuiScheme(toFakeFacilitatorSuiSigner(ledger));
+    const pay = async () => ({
+      ...(await client.createPaymentPayload(2, requirements as any)),
+      accepted: requirements,
+    });
+    return { ledger, keypair, payer, client, facilitator, pay };
+  };
+
+  /**
+   * Build and sign a transfer of part of the payer's first USDC coin, split off explicitly.
+   * A fixed gas budget skips the budget dry run, so transfers that will fail can be signed.
+   */
+  const signTransfer = async (
+    ledger: FakeSuiLedger,
+    keypair: Ed25519Keypair,
+    amount: number,
+    gasBudget?: number,
+  ) => {
+    const tx = new Transaction();
+    tx.setSender(keypair.toSuiAddress());
+    if (gasBudget) tx.setGasBudget(gasBudget);
+    const [coin] = tx.splitCoins(
+      tx.object(ledger.getCoins(keypair.toSuiAddress(), USDC_TESTNET)[0].objectId),
+      [amount],
+    );
+    tx.transferObjects([coin], MOCK_PAYTO);
+    return toClientSuiSigner(keypair, createFakeSuiClient(ledger)).signTransaction(tx);
+  };
+
+  it("should pay, verify, and settle end to end with no network", async () => {
+    const { ledger, payer, facilitator, pay } = setup();
+    const payload = await pay();
+
+    const verified = await facilitator.verify(payload as any, requirements as any);
+    const settled = await facilitator.settle(payload as any, requirements as any);
+
+    expect(verified).toMatchObject({ isValid: true, payer });
+    expect(settled).toMatchObject({ success: true, payer, network: SUI_TESTNET_CAIP2 });
+    expect(ledger.getTransaction(settled.transaction)?.status).toEqual({ status: "success" });
+    expect(ledger.getBalance(MOCK_PAYTO, USDC_TESTNET)).toBe(100_000n);
+    expect(ledger.getBalance(payer, USDC_TESTNET)).toBe(900_000n);
+    expect(ledger.getBalance(payer)).toBe(999_000_000n);
+  });
+
+  it("should verify and settle in-process through the local facilitator client", async () => {
+    const { ledger, payer, pay } = setup();
+    const local = new LocalSuiFacilitatorClient({
+      signer: toFakeFacilitatorSuiSigner(ledger),
+      networks: SUI_TESTNET_CAIP2,
+    });
+    const server = new x402ResourceServer(local).register(
+      SUI_TESTNET_CAIP2,
+      new ServerExactSuiScheme(),
+    );
+    await server.initialize();
+    const payload = await pay();
+
+    const supported = await local.getSupported();
+    const verified = await server.verifyPayment(payload as any, requirements as any);
+    const settled = await server.settlePayment(payload as any, requirements as any);
+
+    expect(supported.kinds).toContainEqual(
+      expect.objectContaining({ x402Version: 2, scheme: "exact", network: SUI_TESTNET_CAIP2 }),
+    );
+    expect(verified).toMatchObject({ isValid: true, payer });
+    expect(settled).toMatchObject({ success: true, payer, network: SUI_TESTNET_CAIP2 });
+    expect(ledger.getBalance(MOCK_PAYTO, USDC_TESTNET)).toBe(100_000n);
+  });
+
+  it("should reject a second payment spending the same coins", async () => {
+    const { ledger, facilitator, pay } = setup();
+    const first = await pay();
+    const second = await pay();
+
+    await facilitator.settle(first as any, requirements as any);
+    const result = await facilitator.verify(second as any, requirements as any);
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidMessage).toMatch(/^ObjectVersionUnavailable:/);
+    expect(ledger.getBalance(MOCK_PAYTO, USDC_TESTNET)).toBe(100_000n);
+  });
+
+  it("should return the original effects when a transaction is resubmitted", async () => {
+    const { ledger, keypair } = setup();
+    const { bytes, signature } = await signTransfer(ledger, keypair, 10);
+
+    const first = await ledger.execute(bytes, signature);
+    const second = await ledger.execute(bytes, signature);
+
+    expect(second).toBe(first);
+    expect(ledger.getBalance(MOCK_PAYTO, USDC_TESTNET)).toBe(10n);
+  });
+
+  it("should require the sender's signature", async () => {
+    const { ledger, keypair } = setup();
+    const { bytes } = await signTransfer(ledger, keypair, 10);
+    const { signature } = await Ed25519Keypair.generate().signTransaction(fromBase64(bytes));
+
+    await expect(ledger.execute(bytes, signature)).rejects.toThrow(
+      `Required Signature from ${keypair.toSuiAddress()} is absent`,
+    );
+  });
+
+  it("should report balance and object changes from a dry run without applying them", async () => {
+    const { ledger, keypair, payer } = setup();
+    const { bytes } = await signTransfer(ledger, keypair, 10);
+    const [coin] = ledger.getCoins(payer, USDC_TESTNET);
+
+    const effects = ledger.dryRun(bytes);
+
+    expect(effects.status).toEqual({ status: "success" });
+    expect(effects.balanceChanges).toEqual(
+      expect.arrayContaining([
+        { owner: { AddressOwner: payer }, coinType: USDC_TESTNET, amount: "-10" },
+        { owner: { AddressOwner: MOCK_PAYTO }, coinType: USDC_TESTNET, amount: "10" },
+        {
+          owner: { AddressOwner: payer },
+          coinType: normalizeStructTag(SUI_COIN_TYPE),
+          amount: "-1000000",
+        },
+      ]),
+    );
+    expect(effects.objectChanges).toContainEqual(
+      expect.objectContaining({ type: "mutated", objectId: coin.objectId, previousVersion: "1" }),
+    );
+    expect(effects.objectChanges).toContainEqual(
+      expect.objectContaining({ type: "created", owner: { AddressOwner: MOCK_PAYTO } }),
+    );
+    expect(ledger.getCoin(coin.objectId)).toEqual(coin);
+  });
+
+  it("should charge gas but revert transfers when a command fails", async () => {
+    const { ledger, keypair, payer } = setup();
+    const { bytes, signature } = await signTransfer(ledger, keypair, 10);
+    // Spend the coin's balance down so the signed split no longer fits
+    const drain = await signTransfer(ledger, keypair, 999_995);
+    await ledger.execute(drain.bytes, drain.signature);
+    const updated = await signTransfer(ledger, keypair, 10, 2_000_000);
+
+    await expect(ledger.execute(bytes, signature)).rejects.toThrow(
+      "ObjectVersionUnavailableForConsumption",
+    );
+    const effects = await ledger.execute(updated.bytes, updated.signature);
+
+    expect(effects.status).toEqual({
+      status: "failure",
+      error: "InsufficientCoinBalance in command 0",
+    });
+    expect(ledger.getBalance(payer, USDC_TESTNET)).toBe(5n);
+    expect(ledger.getBalance(payer)).toBe(998_000_000n);
+  });
+
+  it("should reject transactions that expired before the current epoch", async () => {
+    const { ledger, facilitator, pay } = setup();
+    const payload = await pay();
+    ledger.advanceEpoch();
+    ledger.advanceEpoch();
+
+    const result = await facilitator.verify(payload as any, requirements as any);
+
+    expect(result.isValid).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  SUI_MAINNET_CAIP2,
+  toFacilitatorSuiSigner,
+  isMultiSigSignature,
+  toMultiSigClientSuiSigner,
+} from "../../src/index";
+import type { MultiSigPartialSigner } from "../../src/index";
+import { ExactSuiScheme as FacilitatorExactSuiScheme } from "../../src/exact/facilitator/scheme";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64 } from "@mysten/sui/utils";
+import { MultiSigPublicKey } from "@mysten/sui/multisig";
+import {
+  createMockFacilitatorSigner,
+  createPaymentDryRun,
+  createMockTransaction,
+  createMockSuiClient,
+  createMockPayload,
+  createMockRequirements,
+} from "./helpers";
+
+describe("MultiSig payers", () => {
+  const members = [Ed25519Keypair.generate(), Ed25519Keypair.generate(), Ed25519Keypair.generate()];
+  const createPublicKey = (threshold = 2) =>
+    MultiSigPublicKey.fromPublicKeys({
+      threshold,
+      publicKeys: members.map(member => ({ publicKey: member.getPublicKey(), weight: 1 })),
+    });
+
+  const signWith = async (signers: MultiSigPartialSigner[], threshold = 2) => {
+    const publicKey = createPublicKey(threshold);
+    const signer = toMultiSigClientSuiSigner(publicKey, signers, createMockSuiClient());
+    const transaction = Transaction.from(createMockTransaction({ sender: signer.address }));
+    return { signer, ...(await signer.signTransaction(transaction)) };
+  };
+
+  it("should use the MultiSig address", () => {
+    const publicKey = createPublicKey();
+    const signer = toMultiSigClientSuiSigner(publicKey, members, createMockSuiClient());
+    expect(signer.address).toBe(publicKey.toSuiAddress());
+  });
+
+  it("should combine partial signatures that the facilitator accepts", async () => {
+    const { signer, signature, bytes } = await signWith(members);
+
+    expect(isMultiSigSignature(signature)).toBe(true);
+    const payer = await toFacilitatorSuiSigner().verifySignature(
+      bytes,
+      signature,
+      SUI_MAINNET_CAIP2,
+    );
+    expect(payer).toBe(signer.address);
+  });
+
+  it("should stop collecting once the threshold is met", async () => {
+    let externalCalls = 0;
+    const external: MultiSigPartialSigner = async txBytes => {
+      externalCalls++;
+      return (await members[2].signTransaction(txBytes)).signature;
+    };
+
+    const { signature, bytes } = await signWith([external, members[0], members[1]]);
+
+    expect(externalCalls).toBe(1);
+    await expect(
+      toFacilitatorSuiSigner().verifySignature(bytes, signature, SUI_MAINNET_CAIP2),
+    ).resolves.toBe(createPublicKey().toSuiAddress());
+  });
+
+  it("should fail when the members cannot meet the threshold", async () => {
+    await expect(signWith([members[0], members[1]], 3)).rejects.toThrow(
+      "MultiSig threshold not met: collected weight 2 of 3",
+    );
+  });
+
+  it("should count a member that signs twice only once", async () => {
+    await expect(signWith([members[0], members[0], members[1]], 3)).rejects.toThrow(
+      "MultiSig threshold not met: collected weight 2 of 3",
+    );
+  });
+
+  it("should reject partial signatures from keys outside the MultiSig", async () => {
+    await expect(signWith([Ed25519Keypair.generate(), ...members])).rejects.toThrow(
+      "outside the MultiSig",
+    );
+  });
+
+  it("should reject signatures below the threshold", async () => {
+    const publicKey = createPublicKey();
+    const bytes = createMockTransaction({ sender: publicKey.toSuiAddress() });
+    const { signature: partial } = await members[0].signTransaction(fromBase64(bytes));
+    const signature = publicKey.combinePartialSignatures([partial]);
+
+    await expect(
+      toFacilitatorSuiSigner().verifySignature(bytes, signature, SUI_MAINNET_CAIP2),
+    ).rejects.toThrow("MultiSig weight 1 is below threshold 2");
+  });
+
+  it("should reject partial signatures over other bytes", async () => {
+    const publicKey = createPublicKey();
+    const bytes = createMockTransaction({ sender: publicKey.toSuiAddress() });
+    const other = fromBase64(
+      createMockTransaction({ sender: publicKey.toSuiAddress(), gasBudget: 1 }),
+    );
+    const signature = publicKey.combinePartialSignatures([
+      (await members[0].signTransaction(fromBase64(bytes))).signature,
+      (await members[1].signTransaction(other)).signature,
+    ]);
+
+    await expect(
+      toFacilitatorSuiSigner().verifySignature(bytes, signature, SUI_MAINNET_CAIP2),
+    ).rejects.toThrow("partial signature is not valid");
+  });
+
+  it("should report the MultiSig address as payer", async () => {
+    const { signer, signature, bytes } = await signWith(members);
+    const facilitatorSigner = toFacilitatorSuiSigner();
+    const facilitator = new FacilitatorExactSuiScheme({
+      ...createMockFacilitatorSigner(),
+      verifySignature: facilitatorSigner.verifySignature,
+      simulateTransaction: async () => createPaymentDryRun("100000", signer.address),
+    });
+
+    const payload = createMockPayload("exact", SUI_MAINNET_CAIP2, bytes);
+    payload.payload.signature = signature;
+    const result = await facilitator.verify(payload as any, createMockRequirements() as any);
+
+    expect(result.isValid).toBe(true);
+    expect(result.payer).toBe(signer.address);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  getUsdcCoinType,
+  SUI_MAINNET_CAIP2,
+  SUI_TESTNET_CAIP2,
+  SUI_DEVNET_CAIP2,
+  toFacilitatorSuiSigner,
+  SuiNetworkRegistry,
+  suiNetworks,
+  createSuiClient,
+  SUI_LOCALNET_CAIP2,
+} from "../../src/index";
+import { ExactSuiScheme as ServerExactSuiScheme } from "../../src/exact/server/scheme";
+import { createSuccessfulDryRun, createMockTransaction, startMockRpcServer } from "./helpers";
+
+describe("SuiNetworkRegistry", () => {
+  const FORK_COIN = "0x" + "f".repeat(64) + "::dollar::DOLLAR";
+  const createForkRegistry = (rpcUrl = "http://127.0.0.1:9999") =>
+    new SuiNetworkRegistry().register({
+      caip2: "sui:fork",
+      rpcUrls: [rpcUrl],
+      stablecoin: { coinType: FORK_COIN, decimals: 8 },
+    });
+
+  it("should include localnet without a default stablecoin", () => {
+    expect(suiNetworks.resolve(SUI_LOCALNET_CAIP2).rpcUrls).toEqual(["http://127.0.0.1:9000"]);
+    expect(() => getUsdcCoinType(SUI_LOCALNET_CAIP2)).toThrow("No USDC coin type configured");
+  });
+
+  it("should record chain identifiers for long-lived networks only", () => {
+    expect(suiNetworks.get(SUI_MAINNET_CAIP2)?.chainIdentifier).toBe("35834a8a");
+    expect(suiNetworks.get(SUI_TESTNET_CAIP2)?.chainIdentifier).toBe("4c78adac");
+    expect(suiNetworks.get(SUI_DEVNET_CAIP2)?.chainIdentifier).toBeUndefined();
+  });
+
+  it("should resolve registered networks", () => {
+    const registry = createForkRegistry();
+
+    expect(getUsdcCoinType("sui:fork", registry)).toBe(FORK_COIN);
+    expect(() => getUsdcCoinType("sui:fork")).toThrow("No USDC coin type configured");
+    expect(() => createSuiClient("sui:fork")).toThrow("Unsupported Sui network: sui:fork");
+    expect(createSuiClient("sui:fork", undefined, registry)).toBeDefined();
+  });
+
+  it("should reject non-Sui network ids", () => {
+    expect(() =>
+      new SuiNetworkRegistry().register({ caip2: "eip155:1", rpcUrls: ["http://x"] }),
+    ).toThrow('must start with "sui:"');
+  });
+
+  it("should convert money to a registered network's stablecoin", async () => {
+    const server = new ServerExactSuiScheme(createForkRegistry());
+
+    const result = await server.parsePrice("$1.50", "sui:fork");
+
+    expect(result).toEqual({ amount: "150000000", asset: FORK_COIN, extra: {} });
+  });
+
+  it("should route facilitator RPC calls to a registered network", async () => {
+    const rpc = await startMockRpcServer(async () => ({ result: createSuccessfulDryRun() }));
+    try {
+      const signer = toFacilitatorSuiSigner({ networkRegistry: createForkRegistry(rpc.url) });
+      await signer.simulateTransaction(createMockTransaction(), "sui:fork");
+
+      expect(rpc.methods).toEqual(["sui_dryRunTransactionBlock"]);
+    } finally {
+      await rpc.close();
+    }
+  });
+});
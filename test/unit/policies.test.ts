@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import { x402Client } from "@x402/core/client";
+import {
+  SUI_MAINNET_CAIP2,
+  SUI_TESTNET_CAIP2,
+  USDC_TESTNET,
+  SUI_COIN_TYPE,
+  toClientSuiSigner,
+  SuiPolicyRejectedError,
+} from "../../src/index";
+import { FakeSuiLedger, createFakeSuiClient } from "../../src/testing/index";
+import {
+  InMemorySuiSpendingStore,
+  SuiSpendingBudget,
+  allowPayTo,
+  maxAmountPerPayment,
+  registerExactSuiScheme,
+} from "../../src/exact/client/index";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import { MOCK_PAYTO, createMockRequirements } from "./helpers";
+
+describe("spending policies", () => {
+  const OTHER_PAYTO = "0x" + "d".repeat(64);
+  const option = (overrides: Record<string, unknown> = {}) =>
+    createMockRequirements({ network: SUI_TESTNET_CAIP2, asset: USDC_TESTNET, ...overrides });
+  const paymentRequired = (...accepts: unknown[]) =>
+    ({
+      x402Version: 2,
+      resource: { url: "https://example.com/paid", description: "", mimeType: "" },
+      accepts,
+    }) as any;
+
+  const setup = (spendingLimits: Record<string, unknown>) => {
+    const ledger = new FakeSuiLedger();
+    const keypair = Ed25519Keypair.generate();
+    ledger.mint(keypair.toSuiAddress(), 10_000_000, USDC_TESTNET);
+    ledger.mint(keypair.toSuiAddress(), 1_000_000_000);
+    const client = registerExactSuiScheme(new x402Client(), {
+      signer: toClientSuiSigner(keypair, createFakeSuiClient(ledger)),
+      spendingLimits,
+    });
+    return { client };
+  };
+
+  it("should refuse payments above the per-payment limit and explain why", () => {
+    const rejections: unknown[] = [];
+    const policy = maxAmountPerPayment(
+      { [USDC_TESTNET]: 50_000n },
+      { onReject: rejection => rejections.push(rejection) },
+    );
+
+    const error = (() => {
+      try {
+        policy(2, [option({ amount: "100000" })] as any);
+      } catch (error) {
+        return error;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(SuiPolicyRejectedError);
+    expect((error as Error).message).toContain(
+      `payment of 100000 ${USDC_TESTNET} exceeds the per-payment limit of 50000`,
+    );
+    expect(rejections).toEqual([expect.objectContaining({ policy: "maxAmountPerPayment" })]);
+  });
+
+  it("should keep allowed options and pass other chains through", () => {
+    const policy = allowPayTo([MOCK_PAYTO]);
+    const evm = { ...option(), network: "eip155:8453", payTo: "0xabc" };
+
+    const allowed = policy(2, [option({ payTo: OTHER_PAYTO }), option(), evm] as any);
+
+    expect(allowed).toEqual([option(), evm]);
+  });
+
+  it("should refuse asset types and networks outside the allowlists", async () => {
+    const { client } = setup({ assets: [USDC_TESTNET], networks: [SUI_TESTNET_CAIP2] });
+
+    await expect(
+      client.createPaymentPayload(paymentRequired(option({ asset: SUI_COIN_TYPE }))),
+    ).rejects.toThrow(`asset ${SUI_COIN_TYPE} is not allowlisted`);
+    await expect(
+      client.createPaymentPayload(paymentRequired(option({ network: SUI_MAINNET_CAIP2 }))),
+    ).rejects.toThrow(`network ${SUI_MAINNET_CAIP2} is not allowlisted`);
+    await expect(client.createPaymentPayload(paymentRequired(option()))).resolves.toMatchObject({
+      accepted: option(),
+    });
+  });
+
+  it("should enforce a rolling daily budget across payments", async () => {
+    let now = Date.now();
+    const store = new InMemorySuiSpendingStore();
+    const { client } = setup({ daily: { [USDC_TESTNET]: 250_000 }, store, now: () => now });
+
+    await client.createPaymentPayload(paymentRequired(option()));
+    await client.createPaymentPayload(paymentRequired(option()));
+    await expect(client.createPaymentPayload(paymentRequired(option()))).rejects.toThrow(
+      `daily budget of 250000 ${USDC_TESTNET} exceeded: 200000 spent, payment of 100000`,
+    );
+
+    now += 24 * 60 * 60 * 1000 + 1;
+    await expect(client.createPaymentPayload(paymentRequired(option()))).resolves.toBeDefined();
+    expect(await store.getSpent(normalizeStructTag(USDC_TESTNET), 0)).toBe(100_000n);
+  });
+
+  it("should refund the budget when creating a payment fails", async () => {
+    const store = new InMemorySuiSpendingStore();
+    const { client } = setup({ monthly: { [USDC_TESTNET]: 1_000_000_000 }, store });
+
+    await expect(
+      client.createPaymentPayload(paymentRequired(option({ amount: "999999999" }))),
+    ).rejects.toThrow();
+
+    expect(await store.getSpent(normalizeStructTag(USDC_TESTNET), 0)).toBe(0n);
+  });
+
+  it("should not charge payments a later hook aborts", async () => {
+    const store = new InMemorySuiSpendingStore();
+    const { client } = setup({ daily: { [USDC_TESTNET]: 1_000_000 }, store });
+    client.onBeforePaymentCreation(async () => ({ abort: true, reason: "user declined" }));
+
+    await expect(client.createPaymentPayload(paymentRequired(option()))).rejects.toThrow(
+      "user declined",
+    );
+
+    expect(await store.getSpent(normalizeStructTag(USDC_TESTNET), 0)).toBe(0n);
+  });
+
+  it("should refund only the failed creation, not earlier payments", async () => {
+    const store = new InMemorySuiSpendingStore();
+    const { client } = setup({ daily: { [USDC_TESTNET]: 1_000_000 }, store });
+    let fail = false;
+    client.onAfterPaymentCreation(async () => {
+      if (fail) throw new Error("payload rejected by a later hook");
+    });
+    const required = paymentRequired(option());
+
+    await client.createPaymentPayload(required);
+    fail = true;
+    await expect(client.createPaymentPayload(required)).rejects.toThrow("later hook");
+
+    expect(await store.getSpent(normalizeStructTag(USDC_TESTNET), 0)).toBe(100_000n);
+  });
+
+  it("should free the budget when an unsettled payment is refunded", async () => {
+    const store = new InMemorySuiSpendingStore();
+    const budget = new SuiSpendingBudget({ daily: { [USDC_TESTNET]: 150_000 }, store });
+    const { client } = setup({});
+    budget.register(client);
+    const larger = paymentRequired(option({ amount: "120000" }));
+
+    const payload = await client.createPaymentPayload(paymentRequired(option()));
+    await expect(client.createPaymentPayload(larger)).rejects.toThrow("daily budget");
+    await budget.refund(payload);
+
+    expect(await store.getSpent(normalizeStructTag(USDC_TESTNET), 0)).toBe(0n);
+    await expect(client.createPaymentPayload(larger)).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,295 @@
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  SUI_MAINNET_CAIP2,
+  SUI_TESTNET_CAIP2,
+  SUI_DEVNET_CAIP2,
+  toFacilitatorSuiSigner,
+  SuiInsufficientBalanceError,
+  SuiRpcError,
+  SuiRpcPool,
+  SuiNetworkRegistry,
+  MAINNET_CHAIN_IDENTIFIER,
+  TESTNET_CHAIN_IDENTIFIER,
+  SuiChainMismatchError,
+} from "../../src/index";
+import { ExactSuiScheme as ServerExactSuiScheme } from "../../src/exact/server/scheme";
+import { ExactSuiScheme as FacilitatorExactSuiScheme } from "../../src/exact/facilitator/scheme";
+import { SuiHTTPStatusError } from "@mysten/sui/client";
+import type { SuiClient } from "@mysten/sui/client";
+import {
+  createSuccessfulDryRun,
+  MOCK_PAYER,
+  createMockTransaction,
+  createMockPayload,
+  createMockRequirements,
+  startMockRpcServer,
+} from "./helpers";
+
+describe("RPC failover pool", () => {
+  const servers: Array<{ close: () => Promise<void> }> = [];
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => server.close()));
+  });
+
+  const start = async (reply: Parameters<typeof startMockRpcServer>[0]) => {
+    const server = await startMockRpcServer(reply);
+    servers.push(server);
+    return server;
+  };
+  const healthy = () => start(async () => ({ result: createSuccessfulDryRun() }));
+  const down = () => start(async () => ({ status: 503 }));
+  // Passes its chain check, then fails every request
+  const failing = () =>
+    start(async method => (method === "sui_getCheckpoint" ? { result: null } : { status: 503 }));
+  const dryRun = (client: SuiClient) =>
+    client.dryRunTransactionBlock({ transactionBlock: createMockTransaction() });
+
+  it("should fail over idempotent reads to a healthy node", async () => {
+    const [a, b] = [await failing(), await healthy()];
+    const signer = toFacilitatorSuiSigner({
+      rpcUrls: { [SUI_MAINNET_CAIP2]: [a.url, b.url] },
+      rpcPool: { random: () => 0 },
+    });
+
+    const result = await signer.simulateTransaction(createMockTransaction(), SUI_MAINNET_CAIP2);
+
+    expect(result.effects.status.status).toBe("success");
+    expect(a.methods).toEqual(["sui_dryRunTransactionBlock"]);
+    expect(b.methods).toEqual(["sui_dryRunTransactionBlock"]);
+  });
+
+  it("should stop sending requests to a node whose circuit is open", async () => {
+    const [a, b] = [await down(), await healthy()];
+    const pool = new SuiRpcPool([a.url, b.url], { failureThreshold: 1, random: () => 0 });
+
+    await pool.read(dryRun);
+    await pool.read(dryRun);
+
+    expect(a.methods).toHaveLength(1);
+    expect(b.methods).toHaveLength(2);
+    expect(pool.getStatus().map(status => status.healthy)).toEqual([false, true]);
+  });
+
+  it("should give an open circuit a trial request after the cooldown", async () => {
+    let aIsDown = true;
+    const a = await start(async () =>
+      aIsDown ? { status: 503 } : { result: createSuccessfulDryRun() },
+    );
+    const b = await healthy();
+    const pool = new SuiRpcPool([a.url, b.url], {
+      failureThreshold: 1,
+      cooldownMs: 20,
+      random: () => 0,
+    });
+
+    await pool.read(dryRun);
+    aIsDown = false;
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await pool.read(dryRun);
+
+    expect(a.methods).toHaveLength(2);
+    expect(pool.getStatus()[0]).toMatchObject({ healthy: true, consecutiveFailures: 0 });
+  });
+
+  it("should prefer lower-latency nodes", async () => {
+    const slow = await start(async () => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return { result: "1" };
+    });
+    const fast = await start(async () => ({ result: "1" }));
+    const pool = new SuiRpcPool([slow.url, fast.url], { random: () => 0.5 });
+
+    const status = await pool.checkHealth();
+    await pool.read(client => client.getLatestCheckpointSequenceNumber());
+
+    expect(status[0].latencyMs!).toBeGreaterThan(status[1].latencyMs!);
+    expect(slow.methods).toHaveLength(1);
+    expect(fast.methods).toHaveLength(2);
+  });
+
+  it("should not retry rejections from a node that answered", async () => {
+    const a = await start(async () => ({
+      error: { code: -32602, message: "InsufficientCoinBalance in command 0" },
+    }));
+    const b = await healthy();
+    const signer = toFacilitatorSuiSigner({
+      rpcUrl: [a.url, b.url],
+      rpcPool: { random: () => 0 },
+    });
+
+    await expect(
+      signer.simulateTransaction(createMockTransaction(), SUI_MAINNET_CAIP2),
+    ).rejects.toBeInstanceOf(SuiInsufficientBalanceError);
+    expect(b.methods).toHaveLength(0);
+  });
+
+  it("should not retry transaction execution on another node", async () => {
+    const [a, b] = [await failing(), await healthy()];
+    const signer = toFacilitatorSuiSigner({
+      rpcUrl: [a.url, b.url],
+      rpcPool: { random: () => 0 },
+    });
+
+    await expect(
+      signer.executeTransaction(createMockTransaction(), "signature", SUI_MAINNET_CAIP2),
+    ).rejects.toThrow();
+    expect(a.methods).toEqual(["sui_executeTransactionBlock"]);
+    expect(b.methods).toHaveLength(0);
+  });
+
+  it("should report an RPC error when every node is down", async () => {
+    const signer = toFacilitatorSuiSigner({ rpcUrl: [(await down()).url, (await down()).url] });
+
+    await expect(
+      signer.simulateTransaction(createMockTransaction(), SUI_MAINNET_CAIP2),
+    ).rejects.toBeInstanceOf(SuiRpcError);
+  });
+});
+
+describe("chain identifier checks", () => {
+  const servers: Array<{ close: () => Promise<void> }> = [];
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => server.close()));
+  });
+
+  const start = async (chainIdentifier: string, status?: number) => {
+    const server = await startMockRpcServer(
+      async () => (status ? { status } : { result: createSuccessfulDryRun() }),
+      chainIdentifier,
+    );
+    servers.push(server);
+    return server;
+  };
+
+  it("should refuse to simulate on a node serving another chain", async () => {
+    const testnetNode = await start(TESTNET_CHAIN_IDENTIFIER);
+    const signer = toFacilitatorSuiSigner({
+      rpcUrls: { [SUI_MAINNET_CAIP2]: testnetNode.url },
+    });
+
+    const error = await signer
+      .simulateTransaction(createMockTransaction(), SUI_MAINNET_CAIP2)
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(SuiChainMismatchError);
+    expect(error.toInvalidMessage()).toBe(
+      `ChainMismatch: ${testnetNode.url} serves chain ${TESTNET_CHAIN_IDENTIFIER}, but ${SUI_MAINNET_CAIP2} is chain ${MAINNET_CHAIN_IDENTIFIER}`,
+    );
+    expect(testnetNode.methods).toHaveLength(0);
+  });
+
+  it("should fail verification with a chain mismatch reason", async () => {
+    const testnetNode = await start(TESTNET_CHAIN_IDENTIFIER);
+    const signer = toFacilitatorSuiSigner({ rpcUrl: testnetNode.url });
+    const facilitator = new FacilitatorExactSuiScheme({
+      ...signer,
+      verifySignature: async () => MOCK_PAYER,
+    });
+
+    const result = await facilitator.verify(
+      createMockPayload() as any,
+      createMockRequirements() as any,
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe("sui_chain_identifier_mismatch");
+  });
+
+  it("should check each node once", async () => {
+    const node = await start(MAINNET_CHAIN_IDENTIFIER);
+    let chainChecks = 0;
+    const pool = new SuiRpcPool([node.url], {
+      expectedChain: { network: SUI_MAINNET_CAIP2, chainIdentifier: MAINNET_CHAIN_IDENTIFIER },
+    });
+    const client = pool.getClient();
+    const getChainIdentifier = client.getChainIdentifier.bind(client);
+    client.getChainIdentifier = async () => {
+      chainChecks++;
+      return getChainIdentifier();
+    };
+
+    await pool.read(c => c.getLatestCheckpointSequenceNumber());
+    await pool.read(c => c.getLatestCheckpointSequenceNumber());
+
+    expect(chainChecks).toBe(1);
+    expect(node.methods).toHaveLength(2);
+  });
+
+  it("should exclude a node on another chain and fail over to the rest", async () => {
+    const [testnetNode, mainnetNode] = [
+      await start(TESTNET_CHAIN_IDENTIFIER),
+      await start(MAINNET_CHAIN_IDENTIFIER),
+    ];
+    const pool = new SuiRpcPool([testnetNode.url, mainnetNode.url], {
+      expectedChain: { network: SUI_MAINNET_CAIP2, chainIdentifier: MAINNET_CHAIN_IDENTIFIER },
+      random: () => 0,
+    });
+
+    await pool.write(c => c.getLatestCheckpointSequenceNumber());
+    await pool.read(c => c.getLatestCheckpointSequenceNumber());
+    await pool.read(c => c.getLatestCheckpointSequenceNumber());
+
+    expect(testnetNode.methods).toHaveLength(0);
+    expect(mainnetNode.methods).toHaveLength(3);
+    expect(pool.getStatus()[0].latencyMs).toBeUndefined();
+  });
+
+  it("should reject startup verification if any node serves another chain", async () => {
+    const [mainnetNode, testnetNode] = [
+      await start(MAINNET_CHAIN_IDENTIFIER),
+      await start(TESTNET_CHAIN_IDENTIFIER),
+    ];
+    const signer = toFacilitatorSuiSigner({ rpcUrl: [mainnetNode.url, testnetNode.url] });
+
+    await expect(signer.verifyNetwork!(SUI_MAINNET_CAIP2)).rejects.toBeInstanceOf(
+      SuiChainMismatchError,
+    );
+  });
+
+  it("should leave unreachable nodes to be checked on first use", async () => {
+    const [mainnetNode, downNode] = [
+      await start(MAINNET_CHAIN_IDENTIFIER),
+      await start(MAINNET_CHAIN_IDENTIFIER, 503),
+    ];
+    const signer = toFacilitatorSuiSigner({ rpcUrl: [mainnetNode.url, downNode.url] });
+
+    await expect(signer.verifyNetwork!(SUI_MAINNET_CAIP2)).resolves.toBeUndefined();
+  });
+
+  it("should fail startup verification if no node can be reached", async () => {
+    const downNode = await start(MAINNET_CHAIN_IDENTIFIER, 503);
+    const signer = toFacilitatorSuiSigner({ rpcUrl: downNode.url });
+
+    await expect(signer.verifyNetwork!(SUI_MAINNET_CAIP2)).rejects.toBeInstanceOf(
+      SuiHTTPStatusError,
+    );
+  });
+
+  it("should not check networks without an expected chain identifier", async () => {
+    const node = await start(TESTNET_CHAIN_IDENTIFIER);
+    const signer = toFacilitatorSuiSigner({ rpcUrl: node.url });
+
+    await signer.verifyNetwork!(SUI_DEVNET_CAIP2);
+    const result = await signer.simulateTransaction(createMockTransaction(), SUI_DEVNET_CAIP2);
+
+    expect(result.effects.status.status).toBe("success");
+  });
+
+  it("should let resource servers check their network at startup", async () => {
+    const testnetNode = await start(TESTNET_CHAIN_IDENTIFIER);
+    const registry = new SuiNetworkRegistry();
+    const server = new ServerExactSuiScheme(registry);
+
+    await expect(
+      server.verifyNetwork(SUI_TESTNET_CAIP2, [testnetNode.url]),
+    ).resolves.toBeUndefined();
+    await expect(server.verifyNetwork(SUI_MAINNET_CAIP2, [testnetNode.url])).rejects.toBeInstanceOf(
+      SuiChainMismatchError,
+    );
+
+    registry.register({ ...registry.resolve(SUI_MAINNET_CAIP2), rpcUrls: [testnetNode.url] });
+    await expect(server.verifyNetwork(SUI_MAINNET_CAIP2)).rejects.toThrow(
+      `but ${SUI_MAINNET_CAIP2} is chain ${MAINNET_CHAIN_IDENTIFIER}`,
+    );
+  });
+});
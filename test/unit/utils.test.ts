@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { formatTokenAmount, getExpirationEpoch } from "../../src/index";
+
+describe("formatTokenAmount", () => {
+  it("should invert convertToTokenAmount", () => {
+    expect(formatTokenAmount("4020000", 6)).toBe("4.02");
+    expect(formatTokenAmount("100000", 6)).toBe("0.1");
+    expect(formatTokenAmount(500000000n, 9)).toBe("0.5");
+    expect(formatTokenAmount("1", 9)).toBe("0.000000001");
+    expect(formatTokenAmount("0", 6)).toBe("0");
+    expect(formatTokenAmount("123", 0)).toBe("123");
+  });
+
+  it("should keep the sign of negative amounts", () => {
+    expect(formatTokenAmount(-1500000n, 6)).toBe("-1.5");
+  });
+
+  it("should throw for non-integer amounts", () => {
+    expect(() => formatTokenAmount("1.5", 6)).toThrow("Invalid token amount");
+    expect(() => formatTokenAmount("", 6)).toThrow("Invalid token amount");
+  });
+});
+
+describe("getExpirationEpoch", () => {
+  const epochInfo = { epoch: 10, epochStartTimestampMs: 0, epochDurationMs: 1000_000 };
+
+  it("should stay in the current epoch when the timeout ends before the epoch does", () => {
+    expect(getExpirationEpoch(epochInfo, 60, 500_000)).toBe(10);
+  });
+
+  it("should move to later epochs when the timeout crosses epoch boundaries", () => {
+    expect(getExpirationEpoch(epochInfo, 600, 500_000)).toBe(11);
+    expect(getExpirationEpoch(epochInfo, 2000, 500_000)).toBe(12);
+  });
+
+  it("should roll forward when the cached epoch is already over", () => {
+    expect(getExpirationEpoch(epochInfo, 1, 1000_500)).toBe(11);
+  });
+});
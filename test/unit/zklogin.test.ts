@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { SUI_MAINNET_CAIP2, toFacilitatorSuiSigner, isZkLoginSignature } from "../../src/index";
+import { createStubZkLoginProvider } from "../../src/testing/index";
+import { ExactSuiScheme as FacilitatorExactSuiScheme } from "../../src/exact/facilitator/scheme";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import { computeZkLoginAddressFromSeed, getZkLoginSignature } from "@mysten/sui/zklogin";
+import {
+  createMockFacilitatorSigner,
+  MOCK_EPOCH,
+  createMockTransaction,
+  createMockPayload,
+  createMockRequirements,
+} from "./helpers";
+
+describe("zkLogin verification", () => {
+  const ISS = "https://accounts.google.com";
+  const KID = "test-kid";
+  const ADDRESS_SEED = 1234567890n;
+  const zkLoginAddress = computeZkLoginAddressFromSeed(ADDRESS_SEED, ISS);
+
+  const base64Url = (value: string) =>
+    toBase64(new TextEncoder().encode(value))
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=+$/, "");
+
+  /**
+   * A zkLogin signature with a placeholder proof (the stub provider does not check it).
+   */
+  const createZkLoginSignature = async (
+    transaction: string,
+    options: { maxEpoch?: number; signedTransaction?: string } = {},
+  ) => {
+    const ephemeral = Ed25519Keypair.generate();
+    const { signature: userSignature } = await ephemeral.signTransaction(
+      fromBase64(options.signedTransaction ?? transaction),
+    );
+    return getZkLoginSignature({
+      inputs: {
+        proofPoints: {
+          a: ["1", "2", "1"],
+          b: [
+            ["1", "2"],
+            ["3", "4"],
+            ["1", "0"],
+          ],
+          c: ["1", "2", "1"],
+        },
+        issBase64Details: { value: base64Url(`"iss":"${ISS}",`), indexMod4: 0 },
+        headerBase64: base64Url(JSON.stringify({ alg: "RS256", kid: KID, typ: "JWT" })),
+        addressSeed: ADDRESS_SEED.toString(),
+      },
+      maxEpoch: options.maxEpoch ?? MOCK_EPOCH + 10,
+      userSignature,
+    });
+  };
+
+  const createSigner = (epoch = MOCK_EPOCH, kid = KID) =>
+    toFacilitatorSuiSigner({
+      zkLoginProvider: createStubZkLoginProvider({ epoch, jwks: [{ iss: ISS, kid }] }),
+    });
+
+  it("should detect zkLogin signatures by scheme flag", async () => {
+    const transaction = createMockTransaction({ sender: zkLoginAddress });
+    const { signature } = await Ed25519Keypair.generate().signTransaction(fromBase64(transaction));
+
+    expect(isZkLoginSignature(await createZkLoginSignature(transaction))).toBe(true);
+    expect(isZkLoginSignature(signature)).toBe(false);
+  });
+
+  it("should recover the zkLogin address", async () => {
+    const transaction = createMockTransaction({ sender: zkLoginAddress });
+    const signature = await createZkLoginSignature(transaction);
+
+    const payer = await createSigner().verifySignature(transaction, signature, SUI_MAINNET_CAIP2);
+    expect(payer).toBe(zkLoginAddress);
+  });
+
+  it("should reject signatures past their maxEpoch", async () => {
+    const transaction = createMockTransaction({ sender: zkLoginAddress });
+    const signature = await createZkLoginSignature(transaction, { maxEpoch: MOCK_EPOCH - 1 });
+
+    await expect(
+      createSigner().verifySignature(transaction, signature, SUI_MAINNET_CAIP2),
+    ).rejects.toThrow("zkLogin signature expired");
+  });
+
+  it("should reject proofs for keys outside the active JWKs", async () => {
+    const transaction = createMockTransaction({ sender: zkLoginAddress });
+    const signature = await createZkLoginSignature(transaction);
+
+    await expect(
+      createSigner(MOCK_EPOCH, "rotated-kid").verifySignature(
+        transaction,
+        signature,
+        SUI_MAINNET_CAIP2,
+      ),
+    ).rejects.toThrow("No active JWK");
+  });
+
+  it("should reject a zkLogin identity that is not the sender", async () => {
+    const transaction = createMockTransaction();
+    const signature = await createZkLoginSignature(transaction);
+
+    await expect(
+      createSigner().verifySignature(transaction, signature, SUI_MAINNET_CAIP2),
+    ).rejects.toThrow("does not match the transaction sender");
+  });
+
+  it("should reject an ephemeral signature over different bytes", async () => {
+    const transaction = createMockTransaction({ sender: zkLoginAddress });
+    const other = createMockTransaction({ sender: zkLoginAddress, gasBudget: 20_000_000 });
+    const signature = await createZkLoginSignature(transaction, { signedTransaction: other });
+
+    await expect(
+      createSigner().verifySignature(transaction, signature, SUI_MAINNET_CAIP2),
+    ).rejects.toThrow("ephemeral signature");
+  });
+
+  it("should report zkLogin failures as signature verification failures", async () => {
+    const transaction = createMockTransaction({ sender: zkLoginAddress });
+    const signature = await createZkLoginSignature(transaction, { maxEpoch: MOCK_EPOCH - 1 });
+    const signer = createSigner();
+    const facilitator = new FacilitatorExactSuiScheme({
+      ...createMockFacilitatorSigner(),
+      verifySignature: signer.verifySignature,
+    });
+
+    const payload = createMockPayload("exact", SUI_MAINNET_CAIP2, transaction);
+    payload.payload.signature = signature;
+    const result = await facilitator.verify(payload as any, createMockRequirements() as any);
+
+    expect(result.isValid).toBe(false);
+    expect(result.invalidReason).toBe(
+      "invalid_exact_sui_payload_transaction_signature_verification_failed",
+    );
+  });
+});